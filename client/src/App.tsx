@@ -2,6 +2,8 @@ import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 import Home from "@/pages/home";
 import NewGame from "@/pages/new-game";
@@ -13,22 +15,28 @@ import GameHistory from "@/pages/game-history";
 import TeamManagement from "@/pages/team-management";
 import PlayerPool from "@/pages/player-pool";
 import FixtureManagement from "@/pages/fixture-management";
+import StatTypes from "@/pages/stat-types";
+import ClubMembers from "@/pages/club-members";
+import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
 import MainLayout from "@/layouts/main-layout";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
-      <Route path="/new-game" component={NewGame} />
-      <Route path="/player-setup/:gameId" component={PlayerSetup} />
-      <Route path="/active-game/:gameId" component={ActiveGame} />
-      <Route path="/game-summary/:gameId" component={GameSummary} />
-      <Route path="/dashboard" component={Dashboard} />
-      <Route path="/game-history" component={GameHistory} />
-      <Route path="/team-management" component={TeamManagement} />
-      <Route path="/player-pool" component={PlayerPool} />
-      <Route path="/fixture-management" component={FixtureManagement} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/new-game" component={NewGame} permission="manage" />
+      <ProtectedRoute path="/player-setup/:gameId" component={PlayerSetup} permission="manage" />
+      <ProtectedRoute path="/active-game/:gameId" component={ActiveGame} permission="record" />
+      <ProtectedRoute path="/game-summary/:gameId" component={GameSummary} />
+      <ProtectedRoute path="/dashboard" component={Dashboard} />
+      <ProtectedRoute path="/game-history" component={GameHistory} />
+      <ProtectedRoute path="/team-management" component={TeamManagement} />
+      <ProtectedRoute path="/player-pool" component={PlayerPool} />
+      <ProtectedRoute path="/fixture-management" component={FixtureManagement} />
+      <ProtectedRoute path="/stat-types" component={StatTypes} permission="manage" />
+      <ProtectedRoute path="/club-members" component={ClubMembers} permission="members" />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -37,10 +45,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <MainLayout>
-        <Router />
-      </MainLayout>
-      <Toaster />
+      <AuthProvider>
+        <MainLayout>
+          <Router />
+        </MainLayout>
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,306 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_IMPORT_ROWS, type ColumnMapping, type ImportResult, type ImportTable } from "@shared/import";
+import {
+  fixtureImportFieldLabels,
+  fixtureImportFields,
+  guessFixtureColumns,
+  mapFixtureRow,
+  parseImportFile,
+  type FixtureImportField,
+  type ImportedFixture
+} from "@shared/fixture-import";
+
+interface Team {
+  id: number;
+  name: string;
+  ageGroup: string;
+}
+
+interface FixtureImportProps {
+  teams: Team[];
+  onClose: () => void;
+}
+
+const fieldHints: Partial<Record<FixtureImportField, string>> = {
+  homeAway: "H/A, Home/Away or Yes/No",
+  homeTeam: "Rows without the team are skipped",
+  awayTeam: "Rows without the team are skipped",
+  time: "If the date has no time",
+};
+
+export default function FixtureImport({ teams, onClose }: FixtureImportProps) {
+  const [teamId, setTeamId] = useState<number | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping<FixtureImportField>>({});
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const { toast } = useToast();
+
+  const team = teams.find(t => t.id === teamId);
+
+  // The fixtures read from the file, with the rows they came from
+  const imported = useMemo(() => {
+    if (!table || !team) return [];
+    return table.rows
+      .map((row, index) => ({ line: index + 1, fixture: mapFixtureRow(row, mapping, team.name) }))
+      .filter((row): row is { line: number; fixture: ImportedFixture } => row.fixture !== null);
+  }, [table, mapping, team]);
+
+  const skipped = table && team ? table.rows.length - imported.length : 0;
+  const hasErrors = !!preview?.rows.some(row => row.errors.length > 0);
+  const newFixtures = preview?.rows.filter(row => row.errors.length === 0 && !row.duplicateOf).length ?? 0;
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest('POST', '/api/fixtures/import', {
+        teamId,
+        rows: imported.map(row => row.fixture),
+        dryRun,
+      });
+      return (await response.json()) as ImportResult;
+    },
+    onSuccess: (result, dryRun) => {
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+      toast({
+        title: "Fixtures imported",
+        description: `${result.created} fixture${result.created === 1 ? "" : "s"} added to the schedule.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/fixtures'] });
+      onClose();
+    },
+    onError,
+  });
+
+  async function handleFile(file: File | undefined) {
+    setPreview(null);
+    if (!file) {
+      setTable(null);
+      return;
+    }
+
+    const parsed = parseImportFile(file.name, await file.text());
+    if (parsed.rows.length === 0) {
+      onError(new Error("No fixtures found in the file"));
+      setTable(null);
+      return;
+    }
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+      onError(new Error(`Files can have up to ${MAX_IMPORT_ROWS} rows`));
+      setTable(null);
+      return;
+    }
+
+    setFileName(file.name);
+    setTable(parsed);
+    setMapping(guessFixtureColumns(parsed.headers));
+  }
+
+  function handleMappingChange(field: FixtureImportField, value: string) {
+    setPreview(null);
+    setMapping(current => {
+      const next = { ...current };
+      if (value === "none") {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  }
+
+  function describeDate(value: string) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : format(date, "EEE d MMM yyyy, h:mm a");
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Fixtures</CardTitle>
+        <CardDescription>
+          Add a season draw from a spreadsheet (CSV) or calendar (.ics) file
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Team</Label>
+            <Select
+              value={teamId?.toString()}
+              onValueChange={value => {
+                setTeamId(Number(value));
+                setPreview(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select team" />
+              </SelectTrigger>
+              <SelectContent>
+                {teams.map(t => (
+                  <SelectItem key={t.id} value={t.id.toString()}>
+                    {t.name} ({t.ageGroup})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fixture-import-file">File</Label>
+            <Input
+              id="fixture-import-file"
+              type="file"
+              accept=".csv,.ics,text/csv,text/calendar"
+              onChange={e => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        </div>
+
+        {table && (
+          <div className="space-y-3">
+            <div>
+              <h3 className="font-medium">Columns</h3>
+              <p className="text-sm text-muted-foreground">
+                Match the columns in {fileName} to fixture details. Use an opponent column,
+                or home and away team columns for a draw listing every club's games.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {fixtureImportFields.map(field => (
+                <div key={field} className="space-y-1">
+                  <Label>{fixtureImportFieldLabels[field]}</Label>
+                  <Select
+                    value={mapping[field]?.toString() ?? "none"}
+                    onValueChange={value => handleMappingChange(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not in file</SelectItem>
+                      {table.headers.map((header, index) => (
+                        <SelectItem key={index} value={index.toString()}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {fieldHints[field] && (
+                    <p className="text-xs text-muted-foreground">{fieldHints[field]}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {table && team && skipped > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {skipped} row{skipped === 1 ? "" : "s"} without {team.name} will be skipped.
+          </p>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Preview</h3>
+            <div className="max-h-[400px] overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Opponent</TableHead>
+                    <TableHead>Venue</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map(result => {
+                    const { line, fixture } = imported[result.row];
+                    return (
+                      <TableRow key={result.row}>
+                        <TableCell>{line}</TableCell>
+                        <TableCell>{describeDate(fixture.date)}</TableCell>
+                        <TableCell>
+                          {fixture.opponent}
+                          {typeof fixture.isHome === "boolean" && (
+                            <span className="text-xs text-muted-foreground"> ({fixture.isHome ? "Home" : "Away"})</span>
+                          )}
+                        </TableCell>
+                        <TableCell>{fixture.location}</TableCell>
+                        <TableCell>
+                          {result.errors.length > 0 ? (
+                            <ul className="text-xs text-red-500">
+                              {result.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          ) : result.duplicateOf === "existing" ? (
+                            <Badge variant="secondary">Already scheduled</Badge>
+                          ) : result.duplicateOf === "import" ? (
+                            <Badge variant="secondary">Repeated in file</Badge>
+                          ) : (
+                            <Badge variant="outline">New</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {hasErrors
+                ? "Fix the rows with errors in the file, or the column mapping, and preview again."
+                : `${newFixtures} new fixture${newFixtures === 1 ? "" : "s"}; duplicates will be left out.`}
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {preview && !hasErrors ? (
+            <Button
+              className="flex-1"
+              onClick={() => importMutation.mutate(false)}
+              disabled={importMutation.isPending || newFixtures === 0}
+            >
+              Import {newFixtures} Fixture{newFixtures === 1 ? "" : "s"}
+            </Button>
+          ) : (
+            <Button
+              className="flex-1"
+              onClick={() => importMutation.mutate(true)}
+              disabled={importMutation.isPending || !team || imported.length === 0}
+            >
+              Preview Import
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
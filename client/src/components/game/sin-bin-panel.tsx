@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Card as CardType } from '@/types';
+import { getOpenSinBins, getSinBinRemaining } from '@shared/discipline';
+import { useGameStore } from '@/store/game-store';
+import { usePlayerStore } from '@/store/player-store';
+
+const cardKey = (card: CardType) => card.id?.toString() ?? card.clientId ?? '';
+
+const formatTime = (timeInSeconds: number) => {
+  const minutes = Math.floor(timeInSeconds / 60);
+  const seconds = Math.floor(timeInSeconds % 60);
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export function SinBinPanel() {
+  const { clockEvents, getClock } = useGameStore();
+  const { cards, players, returnFromSinBin } = usePlayerStore();
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  // Countdowns follow the match clock, so re-render once a second while it runs
+  const [, setTick] = useState(0);
+  const clock = getClock();
+
+  useEffect(() => {
+    if (!clock.isRunning) return;
+
+    const interval = setInterval(() => setTick(tick => tick + 1), 1000);
+    return () => clearInterval(interval);
+  }, [clock.isRunning, clockEvents]);
+
+  const sinBins = getOpenSinBins(cards);
+  const sentOff = cards.filter(card => card.type === 'red');
+
+  if (sinBins.length === 0 && sentOff.length === 0) return null;
+
+  const playerName = (playerId: number) =>
+    players.find(p => p.id === playerId)?.name || `Player #${playerId}`;
+
+  // Prompt for the first player whose time is up, unless the prompt was put off
+  const due = sinBins.find(card =>
+    getSinBinRemaining(card, clock.playedSeconds) === 0 && !dismissed.has(cardKey(card))
+  );
+
+  const dismiss = (card: CardType) => {
+    setDismissed(previous => new Set(previous).add(cardKey(card)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {sinBins.map(card => {
+        const remaining = getSinBinRemaining(card, clock.playedSeconds);
+
+        return (
+          <div key={cardKey(card)} className="border border-yellow-300 bg-yellow-50 rounded p-3 flex items-center gap-3">
+            <span className="material-icons text-yellow-500">credit_card</span>
+            <div className="flex-1">
+              <div className="font-semibold">{playerName(card.playerId)}</div>
+              <div className="text-sm text-gray-500">
+                {remaining > 0 ? `Sin bin - back in ${formatTime(remaining)}` : 'Sin bin over'}
+              </div>
+            </div>
+            <Button
+              variant={remaining > 0 ? 'outline' : 'default'}
+              size="sm"
+              onClick={() => returnFromSinBin(card, clock)}
+            >
+              Return to Field
+            </Button>
+          </div>
+        );
+      })}
+
+      {sentOff.map(card => (
+        <div key={cardKey(card)} className="border border-red-300 bg-red-50 rounded p-3 flex items-center gap-3">
+          <span className="material-icons text-red-700">credit_card</span>
+          <div className="flex-1">
+            <div className="font-semibold">{playerName(card.playerId)}</div>
+            <div className="text-sm text-gray-500">Sent off - can't be replaced</div>
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={!!due} onOpenChange={(open) => !open && due && dismiss(due)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Sin bin over</DialogTitle>
+            <DialogDescription>
+              {due && `${playerName(due.playerId)} has served their time. Bring them back onto the field?`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => due && dismiss(due)}>Not Yet</Button>
+            <Button onClick={() => due && returnFromSinBin(due, clock)}>Return to Field</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default SinBinPanel;
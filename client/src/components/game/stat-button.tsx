@@ -5,9 +5,10 @@ interface StatButtonProps {
   statType: StatType;
   onClick: (statType: StatType) => void;
   showValueInput?: boolean;
+  disabled?: boolean;
 }
 
-export function StatButton({ statType, onClick, showValueInput = false }: StatButtonProps) {
+export function StatButton({ statType, onClick, showValueInput = false, disabled = false }: StatButtonProps) {
   const handleClick = () => {
     onClick(statType);
   };
@@ -27,11 +28,12 @@ export function StatButton({ statType, onClick, showValueInput = false }: StatBu
       className="p-4 rounded-lg shadow flex flex-col items-center justify-center transition-colors h-auto w-full"
       style={bgColorStyle}
       onClick={handleClick}
+      disabled={disabled}
     >
       <span className="material-icons text-3xl mb-2">{statType.icon}</span>
       <span className="font-medium">{statType.name}</span>
       {showValueInput && (
-        <span className="text-xs text-yellow-200 mt-1">Tap to enter amount</span>
+        <span className="text-xs text-yellow-200 mt-1">Tap to enter value</span>
       )}
     </Button>
   );
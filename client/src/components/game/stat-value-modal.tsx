@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { StatType } from '@/types';
+import { RATING_MAX, RATING_MIN, checkStatValue, getStatValueLimits } from '@shared/stat-types';
+
+interface StatValueModalProps {
+  statType: StatType | null; // open while there's a type to enter a value for
+  playerName?: string;
+  onClose: () => void;
+  onSubmit: (statType: StatType, value: number) => void;
+}
+
+const ratings = Array.from({ length: RATING_MAX - RATING_MIN + 1 }, (_, index) => RATING_MIN + index);
+
+// Asks for a valued stat's value the way its kind is entered: an amount,
+// success or fail, or a rating (counts are recorded straight from their
+// button). Amounts are checked here as the server will, since an offline stat
+// can't be turned away once it's been recorded.
+export function StatValueModal({ statType, playerName, onClose, onSubmit }: StatValueModalProps) {
+  const [amount, setAmount] = useState('');
+
+  useEffect(() => {
+    if (!statType) setAmount('');
+  }, [statType]);
+
+  if (!statType) return null;
+
+  const submit = (value: number) => {
+    onSubmit(statType, value);
+    onClose();
+  };
+
+  const { min, max } = getStatValueLimits(statType);
+  const amountIssue = amount.trim() === '' ? null : checkStatValue(statType, Number(amount));
+  const limits = min != null && max != null ? `Between ${min} and ${max}`
+    : min != null ? `At least ${min}`
+    : max != null ? `Up to ${max}`
+    : null;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{statType.name}</DialogTitle>
+          {playerName && <DialogDescription>{playerName}</DialogDescription>}
+        </DialogHeader>
+
+        {statType.valueKind === 'success' && (
+          <div className="grid grid-cols-2 gap-3 py-4">
+            <Button className="h-16 bg-green-600 hover:bg-green-700" onClick={() => submit(1)}>
+              <span className="material-icons mr-1">check</span>
+              Success
+            </Button>
+            <Button className="h-16" variant="destructive" onClick={() => submit(0)}>
+              <span className="material-icons mr-1">close</span>
+              Fail
+            </Button>
+          </div>
+        )}
+
+        {statType.valueKind === 'rating' && (
+          <div className="grid grid-cols-5 gap-2 py-4">
+            {ratings.map(rating => (
+              <Button key={rating} variant="outline" className="h-14 text-lg" onClick={() => submit(rating)}>
+                {rating}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {statType.valueKind === 'numeric' && (
+          <form
+            className="space-y-2 py-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (amount.trim() !== '' && !amountIssue) submit(Number(amount));
+            }}
+          >
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                inputMode="decimal"
+                step="any"
+                min={min ?? undefined}
+                max={max ?? undefined}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                autoFocus
+              />
+              {statType.unit && <span className="text-gray-600">{statType.unit}</span>}
+            </div>
+            {amountIssue ? (
+              <p className="text-sm text-red-600">{amountIssue}</p>
+            ) : limits && (
+              <p className="text-sm text-gray-500">{limits}</p>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={amount.trim() === '' || !!amountIssue}>Record</Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default StatValueModal;
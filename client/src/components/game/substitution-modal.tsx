@@ -3,6 +3,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { PlayerWithPosition, Player, SubstitutionData } from '@/types';
+import { isInterchangeLimitReached, type InterchangeUsage } from '@shared/interchange';
 
 interface SubstitutionModalProps {
   isOpen: boolean;
@@ -11,6 +12,7 @@ interface SubstitutionModalProps {
   benchPlayers: Player[];
   onSubstitute: (data: SubstitutionData) => void;
   currentTime: number;
+  interchanges?: InterchangeUsage;
 }
 
 export function SubstitutionModal({ 
@@ -19,11 +21,13 @@ export function SubstitutionModal({
   activePlayers, 
   benchPlayers,
   onSubstitute,
-  currentTime
+  currentTime,
+  interchanges
 }: SubstitutionModalProps) {
   const [outPlayerId, setOutPlayerId] = useState<number | null>(null);
   const [inPlayerId, setInPlayerId] = useState<number | null>(null);
   const [outPlayer, setOutPlayer] = useState<PlayerWithPosition | null>(null);
+  const isLimitReached = !!interchanges && isInterchangeLimitReached(interchanges);
   
   // Reset selections when modal is opened or closed
   useEffect(() => {
@@ -63,6 +67,13 @@ export function SubstitutionModal({
         </DialogHeader>
         
         <div className="space-y-4 py-4">
+          {interchanges && (
+            <div className={`p-3 rounded text-sm ${isLimitReached ? 'bg-red-50 text-red-800' : 'bg-gray-50 text-gray-700'}`}>
+              Interchanges used: {interchanges.used}/{interchanges.limit ?? '∞'}
+              {isLimitReached && <span className="block">No interchanges left in this match.</span>}
+            </div>
+          )}
+          
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Player Going Off</label>
             <Select onValueChange={(value) => setOutPlayerId(Number(value))} value={outPlayerId?.toString() || ""}>
@@ -109,7 +120,7 @@ export function SubstitutionModal({
           <Button variant="outline" onClick={onClose}>Cancel</Button>
           <Button 
             onClick={handleSubmit} 
-            disabled={!outPlayerId || !inPlayerId}
+            disabled={!outPlayerId || !inPlayerId || isLimitReached}
           >
             Confirm Substitution
           </Button>
@@ -0,0 +1,17 @@
+import { useSyncStore } from '@/store/sync-store';
+
+export function SyncStatus() {
+  const pendingCount = useSyncStore(state => state.pendingCount);
+  const isSyncing = useSyncStore(state => state.isSyncing);
+  
+  if (pendingCount === 0) return null;
+  
+  return (
+    <div className="flex items-center gap-1 px-2 py-1 rounded-full bg-yellow-100 text-yellow-800 text-xs font-medium">
+      <span className="material-icons text-sm">{isSyncing ? 'sync' : 'cloud_off'}</span>
+      {pendingCount} {pendingCount === 1 ? 'event' : 'events'} pending sync
+    </div>
+  );
+}
+
+export default SyncStatus;
@@ -0,0 +1,245 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_IMPORT_ROWS, parseCsvTable, type ColumnMapping, type ImportResult, type ImportTable } from "@shared/import";
+import {
+  guessPlayerColumns,
+  mapPlayerRow,
+  playerImportFieldLabels,
+  playerImportFields,
+  type PlayerImportField
+} from "@shared/player-import";
+
+interface PlayerImportProps {
+  onClose: () => void;
+}
+
+export default function PlayerImport({ onClose }: PlayerImportProps) {
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping<PlayerImportField>>({});
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const { toast } = useToast();
+
+  const imported = useMemo(
+    () => (table ? table.rows.map(row => mapPlayerRow(row, mapping)) : []),
+    [table, mapping]
+  );
+
+  const hasErrors = !!preview?.rows.some(row => row.errors.length > 0);
+  const newPlayers = preview?.rows.filter(row => row.errors.length === 0 && !row.duplicateOf).length ?? 0;
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // A dry run previews the rows; the real run adds the new players
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest('POST', '/api/players/import', { rows: imported, dryRun });
+      return (await response.json()) as ImportResult;
+    },
+    onSuccess: (result, dryRun) => {
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+      toast({
+        title: "Players imported",
+        description: `${result.created} player${result.created === 1 ? "" : "s"} added to the pool.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/players'] });
+      onClose();
+    },
+    onError,
+  });
+
+  async function handleFile(file: File | undefined) {
+    setPreview(null);
+    if (!file) {
+      setTable(null);
+      return;
+    }
+
+    const parsed = parseCsvTable(await file.text());
+    if (parsed.rows.length === 0) {
+      onError(new Error("No players found in the file"));
+      setTable(null);
+      return;
+    }
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+      onError(new Error(`Files can have up to ${MAX_IMPORT_ROWS} rows`));
+      setTable(null);
+      return;
+    }
+
+    setFileName(file.name);
+    setTable(parsed);
+    setMapping(guessPlayerColumns(parsed.headers));
+  }
+
+  function handleMappingChange(field: PlayerImportField, value: string) {
+    setPreview(null);
+    setMapping(current => {
+      const next = { ...current };
+      if (value === "none") {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  }
+
+  function describeDate(value: string | null) {
+    if (!value) return "";
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : format(date, "d MMM yyyy");
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Players</CardTitle>
+        <CardDescription>
+          Add a roster from a spreadsheet saved as CSV. Players already in the pool, with the same name and date of birth, are left out.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="player-import-file">File</Label>
+          <Input
+            id="player-import-file"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={e => handleFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {table && (
+          <div className="space-y-3">
+            <div>
+              <h3 className="font-medium">Columns</h3>
+              <p className="text-sm text-muted-foreground">
+                Match the columns in {fileName} to player details. Teams are matched by name.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {playerImportFields.map(field => (
+                <div key={field} className="space-y-1">
+                  <Label>{playerImportFieldLabels[field]}</Label>
+                  <Select
+                    value={mapping[field]?.toString() ?? "none"}
+                    onValueChange={value => handleMappingChange(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not in file</SelectItem>
+                      {table.headers.map((header, index) => (
+                        <SelectItem key={index} value={index.toString()}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Preview</h3>
+            <div className="max-h-[400px] overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Date of Birth</TableHead>
+                    <TableHead>Team</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map(result => {
+                    const player = imported[result.row];
+                    return (
+                      <TableRow key={result.row}>
+                        <TableCell>{result.row + 1}</TableCell>
+                        <TableCell>
+                          {player.name}
+                          {player.number !== null && <span className="ml-2 text-xs">#{player.number}</span>}
+                        </TableCell>
+                        <TableCell>{describeDate(player.dateOfBirth)}</TableCell>
+                        <TableCell>{player.team}</TableCell>
+                        <TableCell>
+                          {result.errors.length > 0 ? (
+                            <ul className="text-xs text-red-500">
+                              {result.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          ) : result.duplicateOf === "existing" ? (
+                            <Badge variant="secondary">Already in pool</Badge>
+                          ) : result.duplicateOf === "import" ? (
+                            <Badge variant="secondary">Repeated in file</Badge>
+                          ) : (
+                            <Badge variant="outline">New</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {hasErrors
+                ? "Fix the rows with errors in the file, or the column mapping, and preview again."
+                : `${newPlayers} new player${newPlayers === 1 ? "" : "s"}; duplicates will be left out.`}
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {preview && !hasErrors ? (
+            <Button
+              className="flex-1"
+              onClick={() => importMutation.mutate(false)}
+              disabled={importMutation.isPending || newPlayers === 0}
+            >
+              Import {newPlayers} Player{newPlayers === 1 ? "" : "s"}
+            </Button>
+          ) : (
+            <Button
+              className="flex-1"
+              onClick={() => importMutation.mutate(true)}
+              disabled={importMutation.isPending || imported.length === 0}
+            >
+              Preview Import
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2 } from "lucide-react";
+import { StatTemplate, StatType } from "@/types";
+import { compareStatTypes } from "@shared/stat-types";
+
+const statTemplateSchema = z.object({
+  name: z.string().trim().min(1, { message: "Template name is required." }),
+  statTypeIds: z.array(z.number()).min(1, { message: "Choose at least one stat." }),
+});
+
+type StatTemplateFormValues = z.infer<typeof statTemplateSchema>;
+
+const emptyForm: StatTemplateFormValues = { name: "", statTypeIds: [] };
+
+interface StatTemplateManagerProps {
+  statTypes: StatType[];
+}
+
+export default function StatTemplateManager({ statTypes }: StatTemplateManagerProps) {
+  const [selectedTemplate, setSelectedTemplate] = useState<StatTemplate | null>(null);
+  const { toast } = useToast();
+
+  const { data: statTemplates = [], isLoading } = useQuery<StatTemplate[]>({
+    queryKey: ['/api/stat-templates'],
+  });
+
+  const form = useForm<StatTemplateFormValues>({
+    resolver: zodResolver(statTemplateSchema),
+    defaultValues: emptyForm,
+  });
+
+  // Archived types stay in the templates that have them but can't be added
+  const activeStatTypes = statTypes.filter(statType => statType.isActive).sort(compareStatTypes);
+  const statTypeNames = new Map(statTypes.map(statType => [statType.id, statType.name]));
+
+  const resetForm = (statTemplate: StatTemplate | null) => {
+    setSelectedTemplate(statTemplate);
+    form.reset(statTemplate
+      ? { name: statTemplate.name, statTypeIds: statTemplate.statTypeIds }
+      : emptyForm);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: StatTemplateFormValues) => {
+      const response = selectedTemplate
+        ? await apiRequest('PUT', `/api/stat-templates/${selectedTemplate.id}`, values)
+        : await apiRequest('POST', '/api/stat-templates', values);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: selectedTemplate ? "Template updated" : "Template created",
+        description: "It can be chosen when setting up a game.",
+      });
+      resetForm(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/stat-templates'] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/stat-templates/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Template deleted",
+        description: "Games set up from it keep their stats.",
+      });
+      resetForm(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/stat-templates'] });
+    },
+    onError,
+  });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Stat Templates</CardTitle>
+          <CardDescription>Sets of stats to track, chosen when setting up a game</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {isLoading ? (
+            <p>Loading templates...</p>
+          ) : (
+            <ul className="space-y-2">
+              {statTemplates.map(statTemplate => {
+                const isBuiltIn = statTemplate.organisationId == null;
+
+                return (
+                  <li key={statTemplate.id} className="border p-3 rounded-md flex justify-between items-start gap-2">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-medium">{statTemplate.name}</h3>
+                        {isBuiltIn && <Badge variant="secondary">Built-in</Badge>}
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        {statTemplate.statTypeIds
+                          .map(id => statTypeNames.get(id))
+                          .filter(Boolean)
+                          .join(", ")}
+                      </p>
+                    </div>
+                    {!isBuiltIn && (
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => resetForm(statTemplate)}>
+                          Edit
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm("Are you sure you want to delete this template?")) {
+                              deleteMutation.mutate(statTemplate.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{selectedTemplate ? `Edit ${selectedTemplate.name}` : "Add Template"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Forwards review" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="statTypeIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stats</FormLabel>
+                    <div className="grid grid-cols-2 gap-2">
+                      {activeStatTypes.map(statType => (
+                        <label key={statType.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(statType.id)}
+                            onCheckedChange={(checked) => field.onChange(checked === true
+                              ? [...field.value, statType.id]
+                              : field.value.filter(id => id !== statType.id))}
+                          />
+                          {statType.name}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex gap-2 pt-2">
+                <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                  {selectedTemplate ? "Update Template" : "Create Template"}
+                </Button>
+                {selectedTemplate && (
+                  <Button type="button" variant="outline" onClick={() => resetForm(null)}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2 } from "lucide-react";
+import { Competition } from "@/types";
+
+const competitionSchema = z.object({
+  name: z.string().trim().min(1, { message: "Competition name is required." }),
+  // Blank means the competition allows unlimited interchanges
+  interchangeLimit: z.string().regex(/^\d*$/, { message: "Enter a whole number, or leave blank for no limit." }),
+});
+
+type CompetitionFormValues = z.infer<typeof competitionSchema>;
+
+const emptyForm: CompetitionFormValues = { name: "", interchangeLimit: "" };
+
+export default function CompetitionManager() {
+  const [selectedCompetition, setSelectedCompetition] = useState<Competition | null>(null);
+  const { toast } = useToast();
+
+  const { data: competitions = [], isLoading } = useQuery<Competition[]>({
+    queryKey: ['/api/competitions'],
+  });
+
+  const form = useForm<CompetitionFormValues>({
+    resolver: zodResolver(competitionSchema),
+    defaultValues: emptyForm,
+  });
+
+  const resetForm = (competition: Competition | null) => {
+    setSelectedCompetition(competition);
+    form.reset(competition
+      ? { name: competition.name, interchangeLimit: competition.interchangeLimit?.toString() ?? "" }
+      : emptyForm);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: CompetitionFormValues) => {
+      const body = {
+        name: values.name,
+        interchangeLimit: values.interchangeLimit === "" ? null : Number(values.interchangeLimit),
+      };
+      const response = selectedCompetition
+        ? await apiRequest('PUT', `/api/competitions/${selectedCompetition.id}`, body)
+        : await apiRequest('POST', '/api/competitions', body);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: selectedCompetition ? "Competition updated" : "Competition created",
+        description: "Games in this competition will use its interchange limit.",
+      });
+      resetForm(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/competitions'] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/competitions/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Competition deleted",
+        description: "The competition has been deleted successfully.",
+      });
+      resetForm(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/competitions'] });
+    },
+    onError,
+  });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <Card className="col-span-1">
+        <CardHeader>
+          <CardTitle>Competitions</CardTitle>
+          <CardDescription>Leagues and cups your teams play in</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {isLoading ? (
+            <p>Loading competitions...</p>
+          ) : competitions.length === 0 ? (
+            <p className="text-gray-500">No competitions created yet</p>
+          ) : (
+            <ul className="space-y-2">
+              {competitions.map(competition => (
+                <li key={competition.id} className="border p-3 rounded-md flex justify-between items-center">
+                  <div>
+                    <h3 className="font-medium">{competition.name}</h3>
+                    <p className="text-sm text-gray-500">
+                      {competition.interchangeLimit === null
+                        ? "Unlimited interchanges"
+                        : `${competition.interchangeLimit} interchanges`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => resetForm(competition)}>
+                      Edit
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm("Are you sure you want to delete this competition?")) {
+                          deleteMutation.mutate(competition.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="col-span-1 md:col-span-2">
+        <CardHeader>
+          <CardTitle>{selectedCompetition ? "Edit Competition" : "Add New Competition"}</CardTitle>
+          <CardDescription>Set the rules games in the competition are played under</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Competition Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Division 1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="interchangeLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Interchange Limit</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} placeholder="Unlimited" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Interchanges allowed per game. Leave blank for unlimited.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex gap-2 pt-4">
+                <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                  {selectedCompetition ? "Update Competition" : "Create Competition"}
+                </Button>
+                {selectedCompetition && (
+                  <Button type="button" variant="outline" onClick={() => resetForm(null)}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { createContext, ReactNode, useContext } from 'react';
+import { useQuery, useMutation, UseMutationResult } from '@tanstack/react-query';
+import { User } from '@/types';
+import { getQueryFn, apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { hasPermission, type Permission } from '@shared/roles';
+
+export type LoginData = {
+  username: string;
+  password: string;
+};
+
+export type RegisterData = LoginData & {
+  clubName: string;
+  teamName?: string;
+};
+
+type AuthContextType = {
+  user: User | null;
+  isLoading: boolean;
+  error: Error | null;
+  can: (permission: Permission) => boolean;
+  loginMutation: UseMutationResult<User, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  registerMutation: UseMutationResult<User, Error, RegisterData>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+// Pull the server's message out of an apiRequest error ("401: {...}")
+const getErrorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<User | null, Error>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest('POST', '/api/login', credentials);
+      return await res.json();
+    },
+    onSuccess: (user: User) => {
+      queryClient.setQueryData(['/api/user'], user);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Login failed',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (details: RegisterData) => {
+      const res = await apiRequest('POST', '/api/register', details);
+      return await res.json();
+    },
+    onSuccess: (user: User) => {
+      queryClient.setQueryData(['/api/user'], user);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Registration failed',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/logout');
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous user
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Logout failed',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        can: (permission: Permission) => !!user && hasPermission(user.role, permission),
+        loginMutation,
+        logoutMutation,
+        registerMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
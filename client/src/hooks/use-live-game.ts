@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { LIVE_SOCKET_PATH, type LiveMessage } from '@shared/live';
+import { queryClient } from '@/lib/queryClient';
+import { ClockEvent, Stat } from '@/types';
+import { useGameStore } from '@/store/game-store';
+import { usePlayerStore } from '@/store/player-store';
+
+// How long to wait before reconnecting a dropped socket
+const RECONNECT_DELAY_MS = 3000;
+
+// Apply an update from another device to the stores and cached queries
+function applyLiveMessage(message: LiveMessage<Stat, ClockEvent>, queryKeyId: string) {
+  const gameStore = useGameStore.getState();
+
+  switch (message.type) {
+    case 'stat_created':
+    case 'stat_updated':
+      gameStore.applyRemoteStat(message.stat);
+      break;
+    case 'stat_deleted':
+      gameStore.applyRemoteStatDeletion(message.statId);
+      break;
+    case 'score':
+      gameStore.updateGameState({ homeScore: message.homeScore, awayScore: message.awayScore });
+      queryClient.invalidateQueries({ queryKey: ['games', queryKeyId] });
+      break;
+    case 'clock_event':
+      gameStore.applyRemoteClockEvent(message.event);
+      break;
+    case 'lineup_changed':
+      usePlayerStore.getState().loadPlayersForGame(message.gameId);
+      queryClient.invalidateQueries({ queryKey: ['games', queryKeyId, 'events'] });
+      queryClient.invalidateQueries({ queryKey: ['games', queryKeyId, 'interchanges'] });
+      break;
+  }
+}
+
+// Follow a game over a WebSocket so every device sees the same stats, score,
+// lineup and clock. Returns whether the socket is currently connected.
+export function useLiveGame(gameId: string | undefined) {
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let isClosed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      socket = new WebSocket(`${protocol}//${window.location.host}${LIVE_SOCKET_PATH}?gameId=${gameId}`);
+
+      socket.onopen = () => {
+        setIsConnected(true);
+
+        // Catch up on anything missed while disconnected
+        useGameStore.getState().loadClock(Number(gameId));
+        usePlayerStore.getState().loadPlayersForGame(Number(gameId));
+        queryClient.invalidateQueries({ queryKey: ['games', gameId] });
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          applyLiveMessage(JSON.parse(event.data), gameId);
+        } catch (error) {
+          console.error('Failed to apply live update:', error);
+        }
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (!isClosed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      isClosed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [gameId]);
+
+  return isConnected;
+}
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
-import { Menu } from 'lucide-react';
+import { Menu, LogOut } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -9,12 +10,14 @@ interface MainLayoutProps {
 
 export default function MainLayout({ children }: MainLayoutProps) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const { user, can, logoutMutation } = useAuth();
   return (
     <div className="min-h-screen flex flex-col bg-white">
       <header className="border-b py-4 bg-[#19376d]">
         <div className="container mx-auto px-4 flex justify-between items-center">
           <h1 className="text-xl font-heading font-bold text-white">Team Manager</h1>
-          <nav className="hidden md:flex space-x-4">
+          {user && (
+          <nav className="hidden md:flex items-center space-x-4">
             <Link href="/">
               <a className="text-white hover:text-gray-200 transition-colors">Home</a>
             </Link>
@@ -30,7 +33,29 @@ export default function MainLayout({ children }: MainLayoutProps) {
             <Link href="/fixture-management">
               <a className="text-white hover:text-gray-200 transition-colors">Fixtures</a>
             </Link>
+            {can('manage') && (
+              <Link href="/stat-types">
+                <a className="text-white hover:text-gray-200 transition-colors">Stats</a>
+              </Link>
+            )}
+            {can('members') && (
+              <Link href="/club-members">
+                <a className="text-white hover:text-gray-200 transition-colors">Club</a>
+              </Link>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-white hover:text-gray-200"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <LogOut className="h-4 w-4 mr-1" />
+              Log Out
+            </Button>
           </nav>
+          )}
+          {user && (
           <div className="md:hidden">
             <Button
               variant="ghost"
@@ -42,6 +67,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
               <span className="sr-only">Toggle menu</span>
             </Button>
           </div>
+          )}
         </div>
       </header>
 
@@ -51,7 +77,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
         </div>
       </main>
 
-      {mobileMenuOpen && (
+      {user && mobileMenuOpen && (
         <div className="md:hidden bg-white border-b p-4 shadow-md">
           <nav className="flex flex-col space-y-3">
             <Link href="/">
@@ -69,6 +95,25 @@ export default function MainLayout({ children }: MainLayoutProps) {
             <Link href="/fixture-management">
               <a className="text-darkblue hover:text-blue-700 transition-colors" onClick={() => setMobileMenuOpen(false)}>Fixtures</a>
             </Link>
+            {can('manage') && (
+              <Link href="/stat-types">
+                <a className="text-darkblue hover:text-blue-700 transition-colors" onClick={() => setMobileMenuOpen(false)}>Stats</a>
+              </Link>
+            )}
+            {can('members') && (
+              <Link href="/club-members">
+                <a className="text-darkblue hover:text-blue-700 transition-colors" onClick={() => setMobileMenuOpen(false)}>Club</a>
+              </Link>
+            )}
+            <a
+              className="text-darkblue hover:text-blue-700 transition-colors cursor-pointer"
+              onClick={() => {
+                setMobileMenuOpen(false);
+                logoutMutation.mutate();
+              }}
+            >
+              Log Out
+            </a>
           </nav>
         </div>
       )}
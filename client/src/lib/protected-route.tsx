@@ -0,0 +1,35 @@
+import type { ComponentType } from 'react';
+import { Redirect, Route } from 'wouter';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import type { Permission } from '@shared/roles';
+
+// A route that sends anyone not logged in to the login page, and anyone
+// without the permission the page needs back home
+export function ProtectedRoute({
+  path,
+  component: Component,
+  permission,
+}: {
+  path: string;
+  component: ComponentType;
+  permission?: Permission;
+}) {
+  const { user, isLoading, can } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[50vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+        </div>
+      ) : !user ? (
+        <Redirect to="/auth" />
+      ) : permission && !can(permission) ? (
+        <Redirect to="/" />
+      ) : (
+        <Component />
+      )}
+    </Route>
+  );
+}
@@ -0,0 +1,77 @@
+// Persistent queue of API writes recorded while the device may be offline.
+// Operations are kept in IndexedDB until the server has accepted them.
+
+const DB_NAME = "rugby-track-sync";
+const DB_VERSION = 1;
+const STORE_NAME = "pendingOperations";
+
+export type SyncKind = "stat" | "substitution" | "timer" | "card";
+
+export interface PendingOperation {
+  clientId: string;
+  kind: SyncKind;
+  method: string;
+  url: string;
+  body?: Record<string, unknown>;
+  createdAt: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "clientId" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  return databasePromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const database = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Ids generated on the device so the server can recognise replays
+export function createClientId(): string {
+  return crypto.randomUUID();
+}
+
+export async function putOperation(operation: PendingOperation): Promise<void> {
+  await withStore("readwrite", (store) => store.put(operation));
+}
+
+export async function getOperation(clientId: string): Promise<PendingOperation | undefined> {
+  return withStore("readonly", (store) => store.get(clientId));
+}
+
+// Pending operations in the order they were recorded
+export async function getOperations(): Promise<PendingOperation[]> {
+  const operations = await withStore<PendingOperation[]>("readonly", (store) => store.getAll());
+  return operations.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function deleteOperation(clientId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(clientId));
+}
+
+export async function countOperations(): Promise<number> {
+  return withStore("readonly", (store) => store.count());
+}
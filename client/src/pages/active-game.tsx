@@ -1,9 +1,21 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link, useParams } from 'wouter';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { GameEvent, Game } from '@/lib/types';
+import { GameEvent, Game, Player, StatType, SubstitutionData } from '@/types';
+import { useGameStore } from '@/store/game-store';
+import { usePlayerStore } from '@/store/player-store';
+import { SyncStatus } from '@/components/game/sync-status';
+import { useLiveGame } from '@/hooks/use-live-game';
+import { TimerDisplay } from '@/components/game/timer-display';
+import { SinBinPanel } from '@/components/game/sin-bin-panel';
+import { SubstitutionModal } from '@/components/game/substitution-modal';
+import { StatButton } from '@/components/game/stat-button';
+import { StatValueModal } from '@/components/game/stat-value-modal';
+import { countInterchanges, type InterchangeUsage } from '@shared/interchange';
+import { getScoringValue, getSportFormat } from '@shared/formats';
+import { findStatTypeByName, formatStatValue, getTrackedStatTypes } from '@shared/stat-types';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -16,14 +28,37 @@ import {
 } from '@/components/ui/select';
 
 export default function ActiveGame() {
-  const { id } = useParams();
+  const { gameId: id } = useParams();
   const queryClient = useQueryClient();
   const [eventType, setEventType] = useState('');
   const [player, setPlayer] = useState('');
   const [minute, setMinute] = useState('');
-  const [homeScore, setHomeScore] = useState(0);
-  const [awayScore, setAwayScore] = useState(0);
+  const [period, setPeriod] = useState('1');
+  const [scorer, setScorer] = useState('');
+  const {
+    activityLog,
+    undoStack,
+    setCurrentGame,
+    loadClock,
+    getClock,
+    recordStat,
+    updateStat,
+    deleteStat,
+    undoLastStat,
+  } = useGameStore();
+  const {
+    gamePlayers,
+    activePlayers,
+    benchPlayers,
+    loadPlayersForGame,
+    selectedPlayer,
+    selectPlayer,
+    substitutePlayer,
+    issueCard,
+  } = usePlayerStore();
   const [activeTab, setActiveTab] = useState('game');
+  const [isSubstitutionOpen, setIsSubstitutionOpen] = useState(false);
+  const [valuedStatType, setValuedStatType] = useState<StatType | null>(null);
 
   // Query to fetch game data
   const { data: game, isLoading: gameLoading } = useQuery<Game>({
@@ -34,8 +69,71 @@ export default function ActiveGame() {
     },
   });
 
+  // The competition's interchange limit; the count comes from the local
+  // lineup so interchanges made offline show up straight away
+  const { data: interchangeUsage } = useQuery<InterchangeUsage>({
+    queryKey: ['games', id, 'interchanges'],
+    queryFn: async () => {
+      const response = await fetch(`/api/games/${id}/interchanges`);
+      return response.json();
+    },
+  });
+  const interchanges = interchangeUsage && { ...interchangeUsage, used: countInterchanges(gamePlayers) };
+
+  // Query to fetch the game's event timeline
+  const { data: events = [] } = useQuery<GameEvent[]>({
+    queryKey: ['games', id, 'events'],
+    queryFn: async () => {
+      const response = await fetch(`/api/games/${id}/events`);
+      return response.json();
+    },
+  });
+
+  // Stats are recorded through the game store so they can be undone
+  useEffect(() => {
+    if (game) {
+      setCurrentGame(game);
+    }
+  }, [game, setCurrentGame]);
+
+  // The lineup tracks who is on the field, in the sin bin or sent off
+  useEffect(() => {
+    if (id) {
+      loadPlayersForGame(Number(id));
+    }
+  }, [id, loadPlayersForGame]);
+
+  // The match clock lives on the server, so every device shows the same time
+  useEffect(() => {
+    if (id) {
+      loadClock(Number(id));
+    }
+  }, [id, loadClock]);
+
+  // Stats, score, lineup and clock changes from the other devices at this game
+  const isLive = useLiveGame(id);
+
+  // Query to fetch stat types, of which the scoring ones carry points
+  const { data: statTypes = [] } = useQuery<StatType[]>({
+    queryKey: ['stat-types'],
+    queryFn: async () => {
+      const response = await fetch('/api/stat-types');
+      return response.json();
+    },
+  });
+
+  // What each scores is worth under the game's format
+  const sportFormat = getSportFormat(game?.format);
+  const scoringStatTypes = statTypes
+    .filter(statType => statType.isActive)
+    .map(statType => ({ ...statType, points: getScoringValue(sportFormat, statType) }))
+    .filter(statType => statType.points > 0);
+
+  // The stats chosen for this game at player setup, one button each
+  const trackedStatTypes = game ? getTrackedStatTypes(game, statTypes) : [];
+
   // Query to fetch players for the team
-  const { data: players = [], isLoading: playersLoading } = useQuery({
+  const { data: players = [], isLoading: playersLoading } = useQuery<Player[]>({
     queryKey: ['players'],
     queryFn: async () => {
       const response = await fetch('/api/players');
@@ -66,15 +164,48 @@ export default function ActiveGame() {
     },
   });
 
-  // Mutation to update the score
-  const updateScoreMutation = useMutation({
-    mutationFn: async (data: { homeScore: number; awayScore: number }) => {
-      const response = await fetch(`/api/games/${id}`, {
-        method: 'PATCH',
+  // Mutation to remove an event recorded in error
+  const deleteEventMutation = useMutation({
+    mutationFn: async (eventId: number) => {
+      await fetch(`/api/games/${id}/events/${eventId}`, {
+        method: 'DELETE',
+      });
+    },
+    onSuccess: () => {
+      // Removing opposition points changes the score as well as the timeline
+      queryClient.invalidateQueries({ queryKey: ['games', id] });
+    },
+  });
+
+  // Mutation to record points - ours as a player stat, theirs as an opposition event.
+  // The server recalculates the score from these records.
+  const recordScoreMutation = useMutation({
+    mutationFn: async ({ statType, isOpposition }: { statType: StatType; isOpposition: boolean }) => {
+      // Without a minute entered, the stat is timed by the match clock
+      const clock = getClock();
+      const timing = minute
+        ? { gameTime: parseInt(minute), period: Number(period) }
+        : { gameTime: clock.matchSeconds / 60, period: clock.period };
+
+      if (!isOpposition) {
+        const scoringPlayer = players.find(p => p.id === Number(scorer));
+        if (!scoringPlayer) return;
+
+        await recordStat(scoringPlayer.id, scoringPlayer.name, scoringPlayer.number ?? 0, statType, 1, timing);
+        return;
+      }
+
+      const response = await fetch(`/api/games/${id}/events`, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          type: statType.name,
+          isOpposition: true,
+          minute: Math.floor(timing.gameTime),
+          period: timing.period,
+        }),
       });
       return response.json();
     },
@@ -88,6 +219,10 @@ export default function ActiveGame() {
     mutationFn: async () => {
       const response = await fetch(`/api/games/${id}/complete`, {
         method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
       });
       return response.json();
     },
@@ -96,22 +231,87 @@ export default function ActiveGame() {
     },
   });
 
-  const handleAddEvent = (e: React.FormEvent) => {
+  const handleAddEvent = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!eventType) return;
+
+    const clock = getClock();
+
+    // Cards against players in the lineup take them off the field; the card
+    // reaches the timeline once it syncs
+    const cardType = eventType === 'yellow_card' ? 'yellow' : eventType === 'red_card' ? 'red' : null;
+    if (cardType && player && game) {
+      if (await issueCard(game.id, Number(player), cardType, clock, game.sinBinMinutes)) {
+        setEventType('');
+        setPlayer('');
+        queryClient.invalidateQueries({ queryKey: ['games', id, 'events'] });
+        return;
+      }
+    }
+
     addEventMutation.mutate({
       type: eventType,
-      player,
-      minute: parseInt(minute),
-      gameId: id,
+      playerId: player ? Number(player) : null,
+      minute: minute ? parseInt(minute) : Math.floor(clock.matchSeconds / 60),
+      period: minute ? Number(period) : clock.period,
     });
   };
 
-  const handleUpdateScore = (e: React.FormEvent) => {
-    e.preventDefault();
-    updateScoreMutation.mutate({
-      homeScore,
-      awayScore,
-    });
+  // Tracked stats go to the player selected on the field, timed by the match
+  // clock; anything but a count asks for its value first
+  const handleRecordStat = async (statType: StatType, value = 1) => {
+    if (!selectedPlayer) return;
+
+    await recordStat(selectedPlayer.id, selectedPlayer.name, selectedPlayer.number, statType, value);
+    refreshScore();
+  };
+
+  const handleStatButton = (statType: StatType) => {
+    if (statType.valueKind === 'count') {
+      handleRecordStat(statType);
+    } else {
+      setValuedStatType(statType);
+    }
+  };
+
+  // Counts of one go without saying; other values are shown with their unit or kind
+  const describeValue = (statTypeName: string, value: number) => {
+    const statType = findStatTypeByName(statTypes, statTypeName);
+    if ((!statType || statType.valueKind === 'count') && value === 1) return '';
+    return ` (${formatStatValue(statType, value)})`;
+  };
+
+  const handleRecordScore = (statType: StatType, isOpposition: boolean) => {
+    if (!isOpposition && !scorer) return;
+
+    recordScoreMutation.mutate({ statType, isOpposition });
+  };
+
+  // Stat corrections change the score, so refetch the game afterwards
+  const refreshScore = () => {
+    queryClient.invalidateQueries({ queryKey: ['games', id] });
+  };
+
+  const handleUndo = async () => {
+    await undoLastStat();
+    refreshScore();
+  };
+
+  const handleReassignStat = async (clientId: string, playerId: string) => {
+    const newPlayer = players.find(p => p.id === Number(playerId));
+    if (!newPlayer) return;
+
+    await updateStat(clientId, { playerId: newPlayer.id }, { name: newPlayer.name, number: newPlayer.number ?? 0 });
+    refreshScore();
+  };
+
+  const handleDeleteStat = async (clientId: string) => {
+    await deleteStat(clientId);
+    refreshScore();
+  };
+
+  const handleSubstitute = async ({ outPlayerId, inPlayerId, time }: SubstitutionData) => {
+    await substitutePlayer(Number(id), outPlayerId, inPlayerId, time, getClock().period);
   };
 
   const handleCompleteGame = () => {
@@ -159,7 +359,7 @@ export default function ActiveGame() {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-3 text-center py-4">
-              <div className="font-bold">{game.team}</div>
+              <div className="font-bold">Our Team</div>
               <div className="text-2xl font-bold">{game.homeScore} - {game.awayScore}</div>
               <div className="font-bold">{game.opponent}</div>
             </div>
@@ -170,7 +370,7 @@ export default function ActiveGame() {
               </div>
               <div>
                 <p><strong>Location:</strong> {game.location}</p>
-                <p><strong>Referee:</strong> {game.referee || 'Not specified'}</p>
+                <p><strong>Format:</strong> {game.numberOfHalves} x {game.halfLength} min</p>
               </div>
             </div>
           </CardContent>
@@ -192,6 +392,15 @@ export default function ActiveGame() {
           <h1 className="text-2xl font-heading font-bold text-primary">Active Game</h1>
           <p className="text-sm text-gray-500">Record game events in real-time</p>
         </div>
+        <div className="flex items-center gap-2">
+          {isLive && (
+            <div className="flex items-center gap-1 px-2 py-1 rounded-full bg-green-100 text-green-800 text-xs font-medium">
+              <span className="material-icons text-sm">wifi</span>
+              Live
+            </div>
+          )}
+          <SyncStatus />
+        </div>
         <Link href="/">
           <Button variant="outline" size="sm" className="flex items-center">
             <span className="material-icons mr-1">arrow_back</span>
@@ -200,10 +409,11 @@ export default function ActiveGame() {
         </Link>
       </div>
 
-      <Card className="mb-6">
+      <Card className="mb-6 overflow-hidden">
+        <TimerDisplay onGameEnd={() => queryClient.invalidateQueries({ queryKey: ['games', id] })} />
         <CardContent className="pt-6">
           <div className="grid grid-cols-3 text-center py-4">
-            <div className="font-bold">{game.team}</div>
+            <div className="font-bold">Our Team</div>
             <div className="text-2xl font-bold">{game.homeScore} - {game.awayScore}</div>
             <div className="font-bold">{game.opponent}</div>
           </div>
@@ -214,7 +424,7 @@ export default function ActiveGame() {
             </div>
             <div>
               <p><strong>Location:</strong> {game.location}</p>
-              <p><strong>Referee:</strong> {game.referee || 'Not specified'}</p>
+              <p><strong>Format:</strong> {game.numberOfHalves} x {game.halfLength} min</p>
             </div>
           </div>
         </CardContent>
@@ -229,34 +439,208 @@ export default function ActiveGame() {
         <TabsContent value="game" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Update Score</CardTitle>
+              <CardTitle>Record Points</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="scorer">Scorer</Label>
+                  <Select value={scorer} onValueChange={setScorer}>
+                    <SelectTrigger id="scorer">
+                      <SelectValue placeholder="Select player" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {players.map((player) => (
+                        <SelectItem key={player.id} value={player.id.toString()}>
+                          {player.name} ({player.number})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="scoreMinute">Minute</Label>
+                  <Input
+                    id="scoreMinute"
+                    type="number"
+                    min="0"
+                    max="90"
+                    value={minute}
+                    onChange={(e) => setMinute(e.target.value)}
+                    placeholder="Match clock"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Our Team</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {scoringStatTypes.map((statType) => (
+                    <Button
+                      key={statType.id}
+                      onClick={() => handleRecordScore(statType, false)}
+                      disabled={!scorer || recordScoreMutation.isPending}
+                    >
+                      {statType.name} (+{statType.points})
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">{game.opponent}</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {scoringStatTypes.map((statType) => (
+                    <Button
+                      key={statType.id}
+                      variant="outline"
+                      onClick={() => handleRecordScore(statType, true)}
+                      disabled={recordScoreMutation.isPending}
+                    >
+                      {statType.name} (+{statType.points})
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>On the Field</CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsSubstitutionOpen(true)}
+                disabled={activePlayers.length === 0}
+                className="flex items-center"
+              >
+                <span className="material-icons mr-1 text-sm">swap_horiz</span>
+                Substitute
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <SinBinPanel />
+              {activePlayers.length > 0 ? (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                  {activePlayers.map((player) => (
+                    <div
+                      key={player.id}
+                      className={`border rounded p-2 flex items-center gap-2 cursor-pointer ${
+                        selectedPlayer?.id === player.id ? 'border-primary bg-blue-50' : ''
+                      }`}
+                      onClick={() => selectPlayer(player.id)}
+                    >
+                      <div className="font-medium w-7 h-7 bg-primary text-white rounded-full text-center leading-7">
+                        {player.number}
+                      </div>
+                      <div>
+                        <div className="font-medium text-sm">{player.name}</div>
+                        <div className="text-xs text-gray-500">{player.position}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-center py-4 text-gray-500">No lineup set for this game.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Record Stats</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-500">
+                {selectedPlayer
+                  ? `Recording for ${selectedPlayer.name} (${selectedPlayer.number})`
+                  : 'Select a player on the field to record their stats.'}
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {trackedStatTypes.map((statType) => (
+                  <StatButton
+                    key={statType.id}
+                    statType={statType}
+                    onClick={handleStatButton}
+                    showValueInput={statType.valueKind !== 'count'}
+                    disabled={!selectedPlayer}
+                  />
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <StatValueModal
+            statType={valuedStatType}
+            playerName={selectedPlayer?.name}
+            onClose={() => setValuedStatType(null)}
+            onSubmit={handleRecordStat}
+          />
+
+          <SubstitutionModal
+            isOpen={isSubstitutionOpen}
+            onClose={() => setIsSubstitutionOpen(false)}
+            activePlayers={activePlayers}
+            benchPlayers={benchPlayers}
+            onSubstitute={handleSubstitute}
+            currentTime={getClock().matchSeconds / 60}
+            interchanges={interchanges}
+          />
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Recent Stats</CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleUndo}
+                disabled={undoStack.length === 0}
+                className="flex items-center"
+              >
+                <span className="material-icons mr-1 text-sm">undo</span>
+                Undo
+              </Button>
             </CardHeader>
             <CardContent>
-              <form onSubmit={handleUpdateScore} className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="homeScore">Our Score</Label>
-                    <Input
-                      id="homeScore"
-                      type="number"
-                      min="0"
-                      value={homeScore}
-                      onChange={(e) => setHomeScore(parseInt(e.target.value) || 0)}
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="awayScore">Opponent Score</Label>
-                    <Input
-                      id="awayScore"
-                      type="number"
-                      min="0"
-                      value={awayScore}
-                      onChange={(e) => setAwayScore(parseInt(e.target.value) || 0)}
-                    />
-                  </div>
+              {activityLog.length > 0 ? (
+                <div className="space-y-2">
+                  {activityLog.map((entry) => (
+                    <div key={entry.clientId} className="border rounded p-3 flex items-center gap-3">
+                      <div className="bg-secondary rounded-full w-8 h-8 flex items-center justify-center">
+                        {Math.floor(entry.timestamp)}'
+                      </div>
+                      <div className="font-semibold flex-1">
+                        {entry.statType}{describeValue(entry.statType, entry.value)}
+                      </div>
+                      <Select
+                        value={entry.playerId.toString()}
+                        onValueChange={(value) => handleReassignStat(entry.clientId, value)}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue placeholder="Select player" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {players.map((player) => (
+                            <SelectItem key={player.id} value={player.id.toString()}>
+                              {player.name} ({player.number})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteStat(entry.clientId)}
+                      >
+                        <span className="material-icons text-sm">delete</span>
+                      </Button>
+                    </div>
+                  ))}
                 </div>
-                <Button type="submit" className="w-full">Update Score</Button>
-              </form>
+              ) : (
+                <p className="text-center py-4 text-gray-500">No stats recorded yet.</p>
+              )}
             </CardContent>
           </Card>
 
@@ -294,10 +678,8 @@ export default function ActiveGame() {
                         <SelectValue placeholder="Select event type" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="goal">Goal</SelectItem>
-                        <SelectItem value="assist">Assist</SelectItem>
-                        <SelectItem value="yellow">Yellow Card</SelectItem>
-                        <SelectItem value="red">Red Card</SelectItem>
+                        <SelectItem value="yellow_card">Yellow Card</SelectItem>
+                        <SelectItem value="red_card">Red Card</SelectItem>
                         <SelectItem value="sub_in">Substitution (In)</SelectItem>
                         <SelectItem value="sub_out">Substitution (Out)</SelectItem>
                         <SelectItem value="injury">Injury</SelectItem>
@@ -316,7 +698,7 @@ export default function ActiveGame() {
                           <SelectItem value="loading">Loading players...</SelectItem>
                         ) : (
                           players.map((player) => (
-                            <SelectItem key={player.id} value={player.id}>
+                            <SelectItem key={player.id} value={player.id.toString()}>
                               {player.name} ({player.number})
                             </SelectItem>
                           ))
@@ -325,17 +707,35 @@ export default function ActiveGame() {
                     </Select>
                   </div>
 
-                  <div>
-                    <Label htmlFor="minute">Minute</Label>
-                    <Input
-                      id="minute"
-                      type="number"
-                      min="0"
-                      max="90"
-                      value={minute}
-                      onChange={(e) => setMinute(e.target.value)}
-                      placeholder="Event minute"
-                    />
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="minute">Minute</Label>
+                      <Input
+                        id="minute"
+                        type="number"
+                        min="0"
+                        max="90"
+                        value={minute}
+                        onChange={(e) => setMinute(e.target.value)}
+                        placeholder="Match clock"
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="period">Period</Label>
+                      <Select value={period} onValueChange={setPeriod}>
+                        <SelectTrigger id="period">
+                          <SelectValue placeholder="Select period" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from({ length: game.numberOfHalves }, (_, index) => (
+                            <SelectItem key={index + 1} value={(index + 1).toString()}>
+                              Period {index + 1}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
                 </div>
 
@@ -346,21 +746,31 @@ export default function ActiveGame() {
 
           <div className="mt-6">
             <h3 className="font-bold mb-3">Game Events</h3>
-            {game.events && game.events.length > 0 ? (
+            {events.length > 0 ? (
               <div className="space-y-2">
-                {game.events.map((event, index) => (
-                  <div key={index} className="border rounded p-3 flex items-center">
+                {events.map((event) => (
+                  <div key={event.id} className="border rounded p-3 flex items-center">
                     <div className="bg-secondary rounded-full w-8 h-8 flex items-center justify-center mr-3">
-                      {event.minute}'
+                      {event.minute ?? '-'}'
                     </div>
-                    <div>
+                    <div className="flex-1">
                       <div className="font-semibold">
                         {event.type.charAt(0).toUpperCase() + event.type.slice(1).replace('_', ' ')}
                       </div>
                       <div className="text-sm text-gray-500">
-                        {players.find(p => p.id === event.player)?.name || 'Unknown Player'}
+                        {event.isOpposition
+                          ? `${game.opponent}${event.points ? ` (+${event.points})` : ''}`
+                          : players.find(p => p.id === event.playerId)?.name || 'Unknown Player'}
                       </div>
                     </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteEventMutation.mutate(event.id)}
+                      disabled={deleteEventMutation.isPending}
+                    >
+                      <span className="material-icons text-sm">delete</span>
+                    </Button>
                   </div>
                 ))}
               </div>
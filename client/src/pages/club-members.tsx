@@ -0,0 +1,264 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Organisation, User } from "@/types";
+import { roleLabels, userRoles, type UserRole } from "@shared/roles";
+import { Trash2, UserPlus } from "lucide-react";
+
+// Member schema for form validation
+const memberSchema = z.object({
+  username: z.string().trim().min(3, {
+    message: "Username must be at least 3 characters.",
+  }),
+  password: z.string().min(8, {
+    message: "Password must be at least 8 characters.",
+  }),
+  role: z.enum(userRoles),
+});
+
+type MemberFormValues = z.infer<typeof memberSchema>;
+
+export default function ClubMembers() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: organisation } = useQuery<Organisation>({
+    queryKey: ['/api/organisation'],
+  });
+
+  const {
+    data: members = [],
+    isLoading: membersLoading,
+  } = useQuery<User[]>({
+    queryKey: ['/api/organisation/members'],
+  });
+
+  const form = useForm<MemberFormValues>({
+    resolver: zodResolver(memberSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+      role: "parent",
+    },
+  });
+
+  // Add a member to the club
+  const addMemberMutation = useMutation({
+    mutationFn: async (values: MemberFormValues) => {
+      const res = await apiRequest('POST', '/api/organisation/members', values);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organisation/members'] });
+      form.reset();
+      toast({
+        title: "Member added",
+        description: "They can now log in with the username and password you chose.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add the member. The username may already be taken.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Change a member's role
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: UserRole }) => {
+      const res = await apiRequest('PATCH', `/api/organisation/members/${id}`, { role });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organisation/members'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to change the member's role.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Remove a member from the club
+  const removeMemberMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/organisation/members/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organisation/members'] });
+      toast({
+        title: "Member removed",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove the member.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: MemberFormValues) {
+    addMemberMutation.mutate(values);
+  }
+
+  return (
+    <div className="container mx-auto p-4 max-w-4xl space-y-6">
+      <h1 className="text-2xl font-heading font-bold">{organisation?.name ?? 'Club'} Members</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            Admins manage members. Coaches manage teams, players, fixtures and games. Stat taggers record live games. Parents can only view.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {membersLoading ? (
+            <p className="text-gray-500">Loading members...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="w-16"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map(member => {
+                  const isSelf = member.id === user?.id;
+
+                  return (
+                    <TableRow key={member.id}>
+                      <TableCell className="font-medium">
+                        {member.username}
+                        {isSelf && <span className="text-gray-500 text-sm ml-2">(you)</span>}
+                      </TableCell>
+                      <TableCell>
+                        {isSelf ? (
+                          roleLabels[member.role]
+                        ) : (
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) => updateRoleMutation.mutate({ id: member.id, role: role as UserRole })}
+                          >
+                            <SelectTrigger className="w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {userRoles.map(role => (
+                                <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {!isSelf && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeMemberMutation.mutate(member.id)}
+                            disabled={removeMemberMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                            <span className="sr-only">Remove</span>
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Member</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4 md:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="off" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {userRoles.map(role => (
+                          <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="md:col-span-3">
+                <Button type="submit" disabled={addMemberMutation.isPending}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  {addMemberMutation.isPending ? "Adding..." : "Add Member"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
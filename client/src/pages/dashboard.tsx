@@ -11,13 +11,19 @@ import {
 import { Button } from "@/components/ui/button"; //Ensuring correct import
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Game, Player, Stat, PlayerStat } from '@/types';
+import { Input } from "@/components/ui/input";
+import { Game, Player, StatTotals, StatType } from '@/types';
+import { DEFAULT_RATE_MIN_MINUTES, type RateBasis } from '@shared/minutes';
+import { getPositionUnit, getSportFormat } from '@shared/formats';
+import { getStatAggregateUnit, getStatKey } from '@shared/stat-types';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 
 export default function Dashboard() {
   const [selectedTab, setSelectedTab] = useState<string>('team');
   const [selectedGame, setSelectedGame] = useState<string>('all');
   const [selectedPosition, setSelectedPosition] = useState<string>('all');
+  const [statView, setStatView] = useState<'total' | RateBasis>('total');
+  const [minMinutes, setMinMinutes] = useState<number>(DEFAULT_RATE_MIN_MINUTES);
 
   // Fetch games
   const { data: games = [], isLoading: isLoadingGames } = useQuery<Game[]>({
@@ -29,82 +35,95 @@ export default function Dashboard() {
     queryKey: ['/api/players'],
   });
 
-  // Fetch all stats - in a real app we would have a dedicated API for analytics
-  const { data: gameStats = [], isLoading: isLoadingGameStats } = useQuery<Stat[]>({
-    queryKey: [`/api/stats`],
-    // This endpoint doesn't exist in the current API, but would be ideal for a dashboard
-    // Instead we would fetch game by game and combine
+  // Fetch stat types, for the units their values are in
+  const { data: statTypes = [] } = useQuery<StatType[]>({
+    queryKey: ['/api/stat-types'],
   });
 
-  // Organize stats by player and type for all games or selected game
-  const playerStats = useMemo(() => {
-    if (isLoadingGames || isLoadingPlayers || isLoadingGameStats) return [];
+  // Fetch stat totals, aggregated server-side for all games or the selected game
+  const statsUrl = selectedGame === 'all'
+    ? `/api/stats?aggregate=true&minMinutes=${minMinutes}`
+    : `/api/stats?aggregate=true&minMinutes=${minMinutes}&gameId=${selectedGame}`;
 
-    const statsByPlayer: Record<number, Record<string, number>> = {};
+  const { data: statTotals, isLoading: isLoadingGameStats } = useQuery<StatTotals>({
+    queryKey: [statsUrl],
+  });
 
-    // Filter stats by selected game if not 'all'
-    const filteredStats = selectedGame === 'all'
-      ? gameStats
-      : gameStats.filter(stat => stat.gameId === Number(selectedGame));
+  // The format most of the club's games are played in
+  const usualFormat = useMemo(() => {
+    const counts = new Map<string | undefined, number>();
+    games.forEach(game => counts.set(game.format, (counts.get(game.format) ?? 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+  }, [games]);
 
-    // Group stats by player and stat type
-    filteredStats.forEach(stat => {
-      if (!statsByPlayer[stat.playerId]) {
-        statsByPlayer[stat.playerId] = {};
-      }
+  // Organize totals by player and type
+  const playerStats = useMemo(() => {
+    if (isLoadingGames || isLoadingPlayers || isLoadingGameStats || !statTotals) return [];
+
+    const statsByPlayer: Record<number, Record<string, number | null>> = {};
+    const minutesByPlayer: Record<number, number> = {};
 
-      if (!statsByPlayer[stat.playerId][stat.statType]) {
-        statsByPlayer[stat.playerId][stat.statType] = 0;
+    // Group totals (or rates) by player and stat type id. Averages and
+    // success rates have no rates, so they're shown as they are in every view.
+    statTotals.byPlayer.forEach(statTotal => {
+      const { playerId, aggregation, value, rates } = statTotal;
+      if (!statsByPlayer[playerId]) {
+        statsByPlayer[playerId] = {};
       }
 
-      statsByPlayer[stat.playerId][stat.statType] += stat.value;
+      statsByPlayer[playerId][getStatKey(statTotal)] = statView === 'total' || aggregation !== 'sum'
+        ? value
+        : rates?.[statView] ?? null;
+      if (rates) minutesByPlayer[playerId] = rates.minutes;
     });
 
     // Convert to array format with player information
     return Object.entries(statsByPlayer).map(([playerId, stats]) => {
       const player = players.find(p => p.id === Number(playerId));
 
-      // Filter by position if selected
+      // Filter by position if selected, reading the player's number in the
+      // selected game's format (or the club's usual format across all games)
       if (selectedPosition !== 'all') {
-        const positionNumber = Number(playerId);
-        if (selectedPosition === 'forwards' && (positionNumber < 1 || positionNumber > 8)) return null;
-        if (selectedPosition === 'backs' && (positionNumber < 9 || positionNumber > 15)) return null;
-        if (selectedPosition === 'substitutes' && positionNumber <= 15) return null;
+        const game = games.find(g => g.id === Number(selectedGame));
+        const sportFormat = getSportFormat(game?.format ?? usualFormat);
+        if (getPositionUnit(sportFormat, player?.number) !== selectedPosition) return null;
       }
 
+      const minutes = minutesByPlayer[Number(playerId)] ?? 0;
+
       return {
         playerId: Number(playerId),
         playerName: player?.name || 'Unknown Player',
-        ...stats
+        minutes,
+        // Rates are only shown for players over the minimum minutes
+        qualified: statView === 'total' || (minutes > 0 && minutes >= minMinutes),
+        stats
       };
     }).filter(Boolean);
-  }, [games, players, gameStats, selectedGame, selectedPosition]);
-
-  // Calculate totals by stat type for team stats
-  const teamStats = useMemo(() => {
-    if (isLoadingGames || isLoadingGameStats) return [];
-
-    const statsByType: Record<string, number> = {};
+  }, [games, usualFormat, players, statTotals, selectedGame, selectedPosition, statView, minMinutes]);
 
-    // Filter stats by selected game if not 'all'
-    const filteredStats = selectedGame === 'all'
-      ? gameStats
-      : gameStats.filter(stat => stat.gameId === Number(selectedGame));
-
-    // Group stats by type
-    filteredStats.forEach(stat => {
-      if (!statsByType[stat.statType]) {
-        statsByType[stat.statType] = 0;
-      }
-      statsByType[stat.statType] += stat.value;
-    });
+  const statViewLabels: Record<'total' | RateBasis, string> = {
+    total: 'Totals',
+    per80: 'Per 80 minutes',
+    perStint: 'Per stint',
+    perPeriod: 'Per period'
+  };
 
-    // Convert to array format for charts
-    return Object.entries(statsByType).map(([type, value]) => ({
-      name: type,
-      value
+  // Totals by stat type for team stats, in chart format
+  const teamStats = useMemo(() => {
+    if (isLoadingGameStats || !statTotals) return [];
+
+    return statTotals.byStatType.map(statTotal => ({
+      key: getStatKey(statTotal),
+      name: statTotal.statType,
+      unit: getStatAggregateUnit(statTypes.find(statType => statType.id === statTotal.statTypeId)),
+      aggregation: statTotal.aggregation,
+      value: statTotal.value
     }));
-  }, [games, gameStats, selectedGame]);
+  }, [statTotals, statTypes]);
+
+  // Only counts and amounts add up, so only they're charted against each other
+  const summedTeamStats = teamStats.filter(stat => stat.aggregation === 'sum');
 
   // Game results for win/loss chart
   const gameResults = useMemo(() => {
@@ -187,14 +206,47 @@ export default function Dashboard() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Positions</SelectItem>
-                  <SelectItem value="forwards">Forwards (1-8)</SelectItem>
-                  <SelectItem value="backs">Backs (9-15)</SelectItem>
+                  <SelectItem value="forwards">Forwards</SelectItem>
+                  <SelectItem value="backs">Backs</SelectItem>
                   <SelectItem value="substitutes">Substitutes</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </CardContent>
         </Card>
+
+        <Card className="flex-1">
+          <CardContent className="p-4">
+            <div className="flex justify-between items-center gap-2">
+              <h3 className="font-heading font-medium">Player Stats</h3>
+              <Select
+                value={statView}
+                onValueChange={(value) => setStatView(value as 'total' | RateBasis)}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(statViewLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {statView !== 'total' && (
+              <div className="flex justify-between items-center mt-2">
+                <span className="text-sm text-gray-500">Minimum minutes played</span>
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-20"
+                  value={minMinutes}
+                  onChange={(e) => setMinMinutes(Math.max(0, Number(e.target.value) || 0))}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
 
       <Tabs defaultValue="team" value={selectedTab} onValueChange={setSelectedTab} className="mb-6">
@@ -215,7 +267,7 @@ export default function Dashboard() {
             <CardContent className="h-80">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart
-                  data={teamStats}
+                  data={summedTeamStats}
                   margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
                 >
                   <CartesianGrid strokeDasharray="3 3" />
@@ -238,7 +290,7 @@ export default function Dashboard() {
                 <ResponsiveContainer width="100%" height="100%">
                   <PieChart>
                     <Pie
-                      data={teamStats}
+                      data={summedTeamStats}
                       cx="50%"
                       cy="50%"
                       labelLine={false}
@@ -247,7 +299,7 @@ export default function Dashboard() {
                       fill="#8884d8"
                       dataKey="value"
                     >
-                      {teamStats.map((entry, index) => (
+                      {summedTeamStats.map((entry, index) => (
                         <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                       ))}
                     </Pie>
@@ -287,7 +339,11 @@ export default function Dashboard() {
           <Card>
             <CardHeader>
               <CardTitle>Top Performers</CardTitle>
-              <CardDescription>Players with the highest stats</CardDescription>
+              <CardDescription>
+                {statView === 'total'
+                  ? 'Players with the highest stats'
+                  : `${statViewLabels[statView]}, for players with at least ${minMinutes} minutes`}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="overflow-x-auto">
@@ -295,9 +351,10 @@ export default function Dashboard() {
                   <thead className="bg-gray-50">
                     <tr>
                       <th scope="col" className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Player</th>
+                      <th scope="col" className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Mins</th>
                       {teamStats.map(stat => (
-                        <th key={stat.name} scope="col" className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          {stat.name}
+                        <th key={stat.key} scope="col" className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {stat.name}{stat.unit ? ` (${stat.unit})` : ''}
                         </th>
                       ))}
                     </tr>
@@ -308,9 +365,12 @@ export default function Dashboard() {
                         <td className="px-3 py-2 whitespace-nowrap">
                           <div className="font-medium">{player.playerName}</div>
                         </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-center text-sm text-gray-500">
+                          {Math.round(player.minutes)}
+                        </td>
                         {teamStats.map(stat => (
-                          <td key={`${player.playerId}-${stat.name}`} className="px-3 py-2 whitespace-nowrap text-center">
-                            {player[stat.name] || 0}
+                          <td key={`${player.playerId}-${stat.key}`} className="px-3 py-2 whitespace-nowrap text-center">
+                            {!player.qualified ? '–' : player.stats[stat.key] ?? (stat.aggregation === 'sum' ? 0 : '–')}
                           </td>
                         ))}
                       </tr>
@@ -329,14 +389,18 @@ export default function Dashboard() {
             <CardContent className="h-80">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart
-                  data={playerStats.slice(0, 5).map((player: any) => {
-                    const topStat = teamStats[0]?.name || 'Tackles';
-                    return {
-                      name: player.playerName,
-                      value: player[topStat] || 0,
-                      statType: topStat
-                    };
-                  })}
+                  data={playerStats
+                    .filter((player: any) => player.qualified)
+                    .map((player: any) => {
+                      const topStat = summedTeamStats[0];
+                      return {
+                        name: player.playerName,
+                        value: (topStat && player.stats[topStat.key]) || 0,
+                        statType: topStat?.name ?? 'Tackles'
+                      };
+                    })
+                    .sort((a, b) => b.value - a.value)
+                    .slice(0, 5)}
                   margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
                 >
                   <CartesianGrid strokeDasharray="3 3" />
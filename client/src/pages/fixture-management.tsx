@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, getQueryFn } from "@/lib/queryClient";
-import { useLocation } from "wouter";
+import { queryClient, getQueryFn, apiRequest } from "@/lib/queryClient";
+import { Link, useLocation } from "wouter";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -15,14 +15,26 @@ import { Calendar } from "@/components/ui/calendar";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { CalendarIcon, PlusCircle, Pencil, Trash2, PlaySquare } from "lucide-react";
+import { CalendarIcon, CalendarPlus, Download, PlusCircle, Pencil, Trash2, PlaySquare, Upload } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import {
+  canStartGame,
+  fixtureOutcomeLabels,
+  fixtureStatusLabels,
+  getFixtureOutcome,
+  manualFixtureStatuses,
+  type FixtureResult,
+  type FixtureStatus
+} from "@shared/fixtures";
+import { getSportFormat } from "@shared/formats";
+import FixtureImport from "@/components/fixtures/fixture-import";
 
 interface Team {
   id: number;
   name: string;
   ageGroup: string;
+  format: string;
 }
 
 interface Fixture {
@@ -33,8 +45,22 @@ interface Fixture {
   location: string;
   isHome: boolean;
   notes?: string;
+  status: FixtureStatus;
+  gameId: number | null;
+  result: FixtureResult | null; // the score of the game started from it
 }
 
+type ManualFixtureStatus = typeof manualFixtureStatuses[number];
+
+const isManualStatus = (status: FixtureStatus): status is ManualFixtureStatus =>
+  (manualFixtureStatuses as readonly FixtureStatus[]).includes(status);
+
+// "Won 24–12", or the score so far while the game is on
+const resultLabel = (result: FixtureResult): string => {
+  const outcome = getFixtureOutcome(result);
+  return `${outcome ? fixtureOutcomeLabels[outcome] : "Live"} ${result.homeScore}–${result.awayScore}`;
+};
+
 // Fixture schema for form validation
 const fixtureSchema = z.object({
   teamId: z.number({
@@ -51,6 +77,7 @@ const fixtureSchema = z.object({
   }),
   isHome: z.boolean().default(true),
   notes: z.string().optional(),
+  status: z.enum(manualFixtureStatuses).default("scheduled"),
 });
 
 type FixtureFormValues = z.infer<typeof fixtureSchema>;
@@ -70,6 +97,7 @@ type CreateGameFormValues = z.infer<typeof createGameSchema>;
 export default function FixtureManagement() {
   const [selectedFixture, setSelectedFixture] = useState<Fixture | null>(null);
   const [gameModalOpen, setGameModalOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [, navigate] = useLocation();
   const { toast } = useToast();
   
@@ -102,6 +130,7 @@ export default function FixtureManagement() {
       location: "",
       isHome: true,
       notes: "",
+      status: "scheduled",
     },
   });
   
@@ -124,6 +153,7 @@ export default function FixtureManagement() {
         location: selectedFixture.location,
         isHome: selectedFixture.isHome,
         notes: selectedFixture.notes,
+        status: isManualStatus(selectedFixture.status) ? selectedFixture.status : "scheduled",
       });
     } else {
       fixtureForm.reset({
@@ -133,6 +163,7 @@ export default function FixtureManagement() {
         location: "",
         isHome: true,
         notes: "",
+        status: "scheduled",
       });
     }
   });
@@ -173,7 +204,7 @@ export default function FixtureManagement() {
   
   // Update fixture mutation
   const updateFixtureMutation = useMutation({
-    mutationFn: async ({ id, values }: { id: number, values: FixtureFormValues }) => {
+    mutationFn: async ({ id, values }: { id: number, values: Partial<FixtureFormValues> }) => {
       const response = await fetch(`/api/fixtures/${id}`, {
         method: 'PUT',
         headers: {
@@ -237,6 +268,29 @@ export default function FixtureManagement() {
     }
   });
   
+  // Subscribe to a team's fixture feed; calendar apps open webcal:// links
+  const calendarLinkMutation = useMutation({
+    mutationFn: async (teamId: number) => {
+      const response = await apiRequest('POST', `/api/teams/${teamId}/calendar-link`);
+      return (await response.json()) as { url: string };
+    },
+    onSuccess: async ({ url }) => {
+      await navigator.clipboard?.writeText(url).catch(() => undefined);
+      toast({
+        title: "Calendar link copied",
+        description: "Fixtures, and any changes to them, will show up in the calendar it's added to.",
+      });
+      window.location.href = url.replace(/^https?:/, 'webcal:');
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+  
   // Create game from fixture mutation
   const createGameMutation = useMutation({
     mutationFn: async ({ fixtureId, values }: { fixtureId: number, values: CreateGameFormValues }) => {
@@ -261,7 +315,9 @@ export default function FixtureManagement() {
       });
       
       if (!response.ok) {
-        throw new Error('Failed to create game from fixture');
+        // The server says why a fixture can't be played, e.g. it's been cancelled
+        const { message } = await response.json().catch(() => ({}));
+        throw new Error(message || 'Failed to create game from fixture');
       }
       
       return await response.json();
@@ -273,8 +329,10 @@ export default function FixtureManagement() {
       });
       setGameModalOpen(false);
       gameForm.reset();
+      queryClient.invalidateQueries({ queryKey: ['/api/fixtures'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/games'] });
       // Navigate to player setup for the new game
-      navigate(`/player-setup?gameId=${data.id}`);
+      navigate(`/player-setup/${data.id}`);
     },
     onError: (error) => {
       toast({
@@ -287,7 +345,9 @@ export default function FixtureManagement() {
   
   function onFixtureSubmit(values: FixtureFormValues) {
     if (selectedFixture) {
-      updateFixtureMutation.mutate({ id: selectedFixture.id, values });
+      // Once a game has been started from the fixture, its status follows the game
+      const { status, ...details } = values;
+      updateFixtureMutation.mutate({ id: selectedFixture.id, values: selectedFixture.gameId ? details : values });
     } else {
       createFixtureMutation.mutate(values);
     }
@@ -305,9 +365,32 @@ export default function FixtureManagement() {
     }
   }
   
+  function handleEditFixture(fixture: Fixture) {
+    setSelectedFixture(fixture);
+    setGameModalOpen(false);
+    setImportOpen(false);
+    fixtureForm.reset({
+      teamId: fixture.teamId,
+      opponent: fixture.opponent,
+      date: new Date(fixture.date),
+      location: fixture.location,
+      isHome: fixture.isHome,
+      notes: fixture.notes ?? "",
+      status: isManualStatus(fixture.status) ? fixture.status : "scheduled",
+    });
+  }
+  
   function handleCreateGame(fixture: Fixture) {
     setSelectedFixture(fixture);
     setGameModalOpen(true);
+    setImportOpen(false);
+    
+    // The match length defaults to the team's format
+    const sportFormat = getSportFormat(teams.find(t => t.id === fixture.teamId)?.format);
+    gameForm.reset({
+      halfLength: sportFormat.halfLength,
+      numberOfHalves: sportFormat.numberOfHalves,
+    });
   }
   
   function getTeamName(teamId: number) {
@@ -379,23 +462,42 @@ export default function FixtureManagement() {
                                     {format(new Date(fixture.date), 'h:mm a')} at {fixture.location}
                                   </span>
                                 </div>
-                                <Badge variant="outline" className="mt-1">
-                                  {getTeamName(fixture.teamId)}
-                                </Badge>
+                                <div className="flex gap-1 mt-1">
+                                  <Badge variant="outline">
+                                    {getTeamName(fixture.teamId)}
+                                  </Badge>
+                                  {fixture.status !== "scheduled" && (
+                                    <Badge variant={fixture.status === "cancelled" ? "destructive" : "secondary"}>
+                                      {fixtureStatusLabels[fixture.status]}
+                                    </Badge>
+                                  )}
+                                </div>
+                                {fixture.result && (
+                                  <Link
+                                    href={fixture.result.isCompleted
+                                      ? `/game-summary/${fixture.result.gameId}`
+                                      : `/active-game/${fixture.result.gameId}`}
+                                    className="block text-sm font-medium text-primary mt-1 hover:underline"
+                                  >
+                                    {resultLabel(fixture.result)}
+                                  </Link>
+                                )}
                               </div>
                               <div className="flex gap-1">
+                                {canStartGame(fixture.status) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleCreateGame(fixture)}
+                                    title="Create game from fixture"
+                                  >
+                                    <PlaySquare className="h-4 w-4" />
+                                  </Button>
+                                )}
                                 <Button
                                   variant="ghost"
                                   size="icon"
-                                  onClick={() => handleCreateGame(fixture)}
-                                  title="Create game from fixture"
-                                >
-                                  <PlaySquare className="h-4 w-4" />
-                                </Button>
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  onClick={() => setSelectedFixture(fixture)}
+                                  onClick={() => handleEditFixture(fixture)}
                                   title="Edit fixture"
                                 >
                                   <Pencil className="h-4 w-4" />
@@ -419,12 +521,46 @@ export default function FixtureManagement() {
               )}
             </CardContent>
             
-            <CardFooter>
+            <CardFooter className="flex flex-col gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full" disabled={teams.length === 0}>
+                    <CalendarPlus className="h-4 w-4 mr-2" />
+                    Add to Calendar
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72 space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    Subscribe to a team's fixtures to keep your calendar up to date
+                  </p>
+                  {teams.map(team => (
+                    <div key={team.id} className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">{team.name}</span>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => calendarLinkMutation.mutate(team.id)}
+                          disabled={calendarLinkMutation.isPending}
+                        >
+                          Subscribe
+                        </Button>
+                        <Button size="icon" variant="ghost" asChild title="Download fixtures">
+                          <a href={`/api/teams/${team.id}/fixtures.ics`} download={`${team.name} fixtures.ics`}>
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </PopoverContent>
+              </Popover>
               <Button
                 variant="outline"
                 className="w-full"
                 onClick={() => {
                   setSelectedFixture(null);
+                  setImportOpen(false);
                   fixtureForm.reset({
                     teamId: undefined,
                     opponent: "",
@@ -432,19 +568,35 @@ export default function FixtureManagement() {
                     location: "",
                     isHome: true,
                     notes: "",
+                    status: "scheduled",
                   });
                 }}
               >
                 <PlusCircle className="h-4 w-4 mr-2" />
                 Add New Fixture
               </Button>
+              <Button
+                variant="outline"
+                className="w-full"
+                disabled={teams.length === 0}
+                onClick={() => {
+                  setSelectedFixture(null);
+                  setGameModalOpen(false);
+                  setImportOpen(true);
+                }}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import Fixtures
+              </Button>
             </CardFooter>
           </Card>
         </div>
         
         {/* Fixture Form */}
         <div className="col-span-1 md:col-span-2">
-          {gameModalOpen && selectedFixture ? (
+          {importOpen ? (
+            <FixtureImport teams={teams} onClose={() => setImportOpen(false)} />
+          ) : gameModalOpen && selectedFixture ? (
             <Card>
               <CardHeader>
                 <CardTitle>Create Game</CardTitle>
@@ -519,7 +671,7 @@ export default function FixtureManagement() {
                               </SelectContent>
                             </Select>
                             <FormDescription>
-                              Standard rugby league is 2 halves
+                              Most formats play 2 halves
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -709,6 +861,38 @@ export default function FixtureManagement() {
                       />
                     </div>
                     
+                    {selectedFixture?.gameId ? (
+                      <p className="text-sm text-muted-foreground">
+                        Status: {fixtureStatusLabels[selectedFixture.status]} (follows the game started from this fixture)
+                      </p>
+                    ) : (
+                      <FormField
+                        control={fixtureForm.control}
+                        name="status"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Status</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select status" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {manualFixtureStatuses.map(status => (
+                                  <SelectItem key={status} value={status}>
+                                    {fixtureStatusLabels[status]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>Postpone or cancel the fixture; set it back to scheduled when it's rearranged</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    
                     <FormField
                       control={fixtureForm.control}
                       name="notes"
@@ -748,6 +932,7 @@ export default function FixtureManagement() {
                               location: "",
                               isHome: true,
                               notes: "",
+                              status: "scheduled",
                             });
                           }}
                         >
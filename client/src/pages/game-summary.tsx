@@ -5,12 +5,18 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { apiRequest } from '@/lib/queryClient';
 import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { 
-  Game, PlayerWithPosition, Stat, PlayerStat
+  Game, PlayerWithPosition, Stat, PlayerStat, StatType
 } from '@/types';
+import { calculateStatRates, type PlayerMinutes, type RateBasis } from '@shared/minutes';
+import { getPositionUnit, getSportFormat } from '@shared/formats';
+import {
+  aggregateStatValues, formatStatAggregate, getStatAggregateUnit, getStatKey, getStatName, statAggregations
+} from '@shared/stat-types';
 
 export default function GameSummary() {
   const params = useParams();
@@ -21,6 +27,7 @@ export default function GameSummary() {
   const [playerOfMatchId, setPlayerOfMatchId] = useState<number | null>(null);
   const [playerOfMatchComment, setPlayerOfMatchComment] = useState<string>('');
   const [playerFilter, setPlayerFilter] = useState<string>('all');
+  const [statView, setStatView] = useState<'total' | RateBasis>('total');
   
   // Fetch the game data
   const { data: game, isLoading: isLoadingGame } = useQuery<Game>({
@@ -40,6 +47,17 @@ export default function GameSummary() {
     enabled: !!gameId,
   });
   
+  // Fetch stat types, for their current names
+  const { data: statTypeList = [] } = useQuery<StatType[]>({
+    queryKey: ['/api/stat-types'],
+  });
+  
+  // Fetch minutes played
+  const { data: minutesPlayed = [] } = useQuery<PlayerMinutes[]>({
+    queryKey: [`/api/games/${gameId}/minutes`],
+    enabled: !!gameId,
+  });
+  
   // Set player of match from game data if available
   useEffect(() => {
     if (game?.playerOfMatchId) {
@@ -51,59 +69,96 @@ export default function GameSummary() {
     }
   }, [game]);
   
-  // Process the stats data to get player stats
+  // Process the stats data to get player stats, grouped by stat type id
+  // and shown under each type's current name
   const playerStats: PlayerStat[] = [];
   const totalStats: Record<string, number> = {};
+  const totalCounts: Record<string, number> = {};
+  const statNames: Record<string, string> = {};
+  const statTypesByKey: Record<string, StatType | undefined> = {};
+  
+  gameStats.forEach(stat => {
+    const statKey = getStatKey(stat);
+    statNames[statKey] = getStatName(stat, statTypeList);
+    statTypesByKey[statKey] = statTypeList.find(statType => statType.id === stat.statTypeId);
+  });
+  
+  // Counts and amounts are summed, success/fail becomes a success rate and ratings an average
+  const aggregationFor = (statKey: string) => statAggregations[statTypesByKey[statKey]?.valueKind ?? 'count'];
+  const aggregate = (statKey: string, total: number, count: number) =>
+    aggregateStatValues(aggregationFor(statKey), total, count);
   
   // Calculate player stats and totals
   gamePlayers.forEach(player => {
     const playerStatsMap: Record<string, number> = {};
+    const playerCounts: Record<string, number> = {};
     
     // Find all stats for this player
     const stats = gameStats.filter(stat => stat.playerId === player.id);
     
     // Group stats by type and sum values
     stats.forEach(stat => {
-      if (!playerStatsMap[stat.statType]) {
-        playerStatsMap[stat.statType] = 0;
+      const statKey = getStatKey(stat);
+      if (!playerStatsMap[statKey]) {
+        playerStatsMap[statKey] = 0;
+        playerCounts[statKey] = 0;
       }
-      playerStatsMap[stat.statType] += stat.value;
+      playerStatsMap[statKey] += stat.value;
+      playerCounts[statKey] += 1;
       
       // Add to total stats
-      if (!totalStats[stat.statType]) {
-        totalStats[stat.statType] = 0;
+      if (!totalStats[statKey]) {
+        totalStats[statKey] = 0;
+        totalCounts[statKey] = 0;
       }
-      totalStats[stat.statType] += stat.value;
+      totalStats[statKey] += stat.value;
+      totalCounts[statKey] += 1;
     });
     
     // Add player stats to the array
-    Object.entries(playerStatsMap).forEach(([statType, total]) => {
+    Object.entries(playerStatsMap).forEach(([statKey, total]) => {
       playerStats.push({
         playerId: player.id,
         playerName: player.name,
         playerNumber: player.number,
         playerPosition: player.position,
-        statType,
-        total
+        statKey,
+        statType: statNames[statKey],
+        total: aggregate(statKey, total, playerCounts[statKey])
       });
     });
   });
   
-  // Filter players based on position
+  // Filter players based on position, by their number in the game's format
+  const sportFormat = getSportFormat(game?.format);
   const filteredPlayers = gamePlayers.filter(player => {
     if (playerFilter === 'all') return true;
-    if (playerFilter === 'forwards' && player.number >= 1 && player.number <= 8) return true;
-    if (playerFilter === 'backs' && player.number >= 9 && player.number <= 15) return true;
-    if (playerFilter === 'substitutes' && player.number > 15) return true;
-    return false;
+    return getPositionUnit(sportFormat, player.number) === playerFilter;
   });
   
+  // Minutes played for a player, once the lineup has been counted
+  const minutesFor = (playerId: number) => minutesPlayed.find(minutes => minutes.playerId === playerId);
+  
+  // A player's total for a stat, or their rate against minutes played.
+  // Rates for players under the minimum minutes show as a dash. Averages and
+  // success rates don't scale with minutes, so they show as they are, with a
+  // dash for players with nothing recorded.
+  const statValue = (playerId: number, statKey: string, total: number | undefined): number | string => {
+    if (aggregationFor(statKey) !== 'sum') return total ?? '–';
+    if (total === undefined) total = 0;
+    if (statView === 'total') return total;
+    
+    const minutes = minutesFor(playerId);
+    const rates = calculateStatRates(total, {
+      minutes: minutes?.minutes ?? 0,
+      stints: minutes?.stints ?? 0,
+      periods: minutes?.stintsByPeriod.filter(stints => stints > 0).length ?? 0
+    });
+    return rates[statView] ?? '–';
+  };
+  
   // Get unique stat types
-  const statTypeSet = new Set<string>();
-  gameStats.forEach(stat => {
-    statTypeSet.add(stat.statType);
-  });
-  const statTypes = Array.from(statTypeSet);
+  const statKeys = Object.keys(statNames);
   
   // Save player of match mutation
   const savePlayerOfMatchMutation = useMutation({
@@ -179,15 +234,39 @@ export default function GameSummary() {
             </p>
           </div>
           <div className="flex gap-2">
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={() => {}}
-              className="flex items-center"
-            >
-              <span className="material-icons mr-1">download</span>
-              Export
-            </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  className="flex items-center"
+                >
+                  <span className="material-icons mr-1">download</span>
+                  Export
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-64 p-2 flex flex-col gap-1">
+                {/* The server names the files after the game */}
+                <Button variant="ghost" size="sm" className="justify-start" asChild>
+                  <a href={`/api/games/${gameId}/report.pdf`} download>
+                    <span className="material-icons mr-2 text-base">picture_as_pdf</span>
+                    Match report (PDF)
+                  </a>
+                </Button>
+                <Button variant="ghost" size="sm" className="justify-start" asChild>
+                  <a href={`/api/games/${gameId}/report/totals.csv`} download>
+                    <span className="material-icons mr-2 text-base">table_chart</span>
+                    Player totals (CSV)
+                  </a>
+                </Button>
+                <Button variant="ghost" size="sm" className="justify-start" asChild>
+                  <a href={`/api/games/${gameId}/report/stats.csv`} download>
+                    <span className="material-icons mr-2 text-base">list</span>
+                    All stats (CSV)
+                  </a>
+                </Button>
+              </PopoverContent>
+            </Popover>
             <Button 
               variant="ghost" 
               size="sm" 
@@ -283,10 +362,14 @@ export default function GameSummary() {
             </div>
             
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              {Object.entries(totalStats).slice(0, 4).map(([statType, value]) => (
-                <div key={statType} className="bg-blue-50 rounded-md p-3">
-                  <div className="text-sm text-gray-600">Total {statType}</div>
-                  <div className="text-2xl font-bold text-blue-800">{value}</div>
+              {Object.entries(totalStats).slice(0, 4).map(([statKey, value]) => (
+                <div key={statKey} className="bg-blue-50 rounded-md p-3">
+                  <div className="text-sm text-gray-600">
+                    {aggregationFor(statKey) === 'sum' ? 'Total ' : ''}{statNames[statKey]}
+                  </div>
+                  <div className="text-2xl font-bold text-blue-800">
+                    {formatStatAggregate(statTypesByKey[statKey], aggregate(statKey, value, totalCounts[statKey]))}
+                  </div>
                 </div>
               ))}
             </div>
@@ -298,20 +381,36 @@ export default function GameSummary() {
           <CardContent className="p-6">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl font-heading font-bold text-primary">Player Performance</h2>
-              <Select 
-                onValueChange={setPlayerFilter} 
-                defaultValue="all"
-              >
-                <SelectTrigger className="w-40">
-                  <SelectValue placeholder="All Players" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Players</SelectItem>
-                  <SelectItem value="forwards">Forwards</SelectItem>
-                  <SelectItem value="backs">Backs</SelectItem>
-                  <SelectItem value="substitutes">Substitutes</SelectItem>
-                </SelectContent>
-              </Select>
+              <div className="flex gap-2">
+                <Select
+                  value={statView}
+                  onValueChange={(value) => setStatView(value as 'total' | RateBasis)}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="total">Totals</SelectItem>
+                    <SelectItem value="per80">Per 80 minutes</SelectItem>
+                    <SelectItem value="perStint">Per stint</SelectItem>
+                    <SelectItem value="perPeriod">Per period</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select 
+                  onValueChange={setPlayerFilter} 
+                  defaultValue="all"
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="All Players" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Players</SelectItem>
+                    <SelectItem value="forwards">Forwards</SelectItem>
+                    <SelectItem value="backs">Backs</SelectItem>
+                    <SelectItem value="substitutes">Substitutes</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             
             <div className="overflow-x-auto">
@@ -320,9 +419,11 @@ export default function GameSummary() {
                   <tr>
                     <th scope="col" className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Player</th>
                     <th scope="col" className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Position</th>
-                    {statTypes.map(statType => (
-                      <th key={statType} scope="col" className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        {statType}
+                    <th scope="col" className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Mins</th>
+                    {statKeys.map(statKey => (
+                      <th key={statKey} scope="col" className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {statNames[statKey]}
+                        {getStatAggregateUnit(statTypesByKey[statKey]) && ` (${getStatAggregateUnit(statTypesByKey[statKey])})`}
                       </th>
                     ))}
                   </tr>
@@ -339,11 +440,19 @@ export default function GameSummary() {
                         </div>
                       </td>
                       <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{player.position}</td>
-                      {statTypes.map(statType => {
-                        const stat = playerStats.find(ps => ps.playerId === player.id && ps.statType === statType);
+                      <td className="px-3 py-2 whitespace-nowrap text-center">
+                        {Math.round(minutesFor(player.id)?.minutes ?? 0)}
+                        {(minutesFor(player.id)?.sinBinMinutes ?? 0) > 0 && (
+                          <span className="text-xs text-yellow-600 ml-1">
+                            ({Math.round(minutesFor(player.id)!.sinBinMinutes)}' binned)
+                          </span>
+                        )}
+                      </td>
+                      {statKeys.map(statKey => {
+                        const stat = playerStats.find(ps => ps.playerId === player.id && ps.statKey === statKey);
                         return (
-                          <td key={`${player.id}-${statType}`} className="px-3 py-2 whitespace-nowrap text-center">
-                            {stat ? stat.total : 0}
+                          <td key={`${player.id}-${statKey}`} className="px-3 py-2 whitespace-nowrap text-center">
+                            {statValue(player.id, statKey, stat?.total)}
                           </td>
                         );
                       })}
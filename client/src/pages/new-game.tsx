@@ -20,15 +20,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { apiRequest } from '@/lib/queryClient';
 import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { Competition, Team } from '@/types';
+import { DEFAULT_SPORT_FORMAT, sportFormatIds, sportFormats, type SportFormatId } from '@shared/formats';
 
 // Define the schema for the form
 const newGameSchema = z.object({
+  teamId: z.string().min(1, { message: "Team is required" }),
   opponent: z.string().min(1, { message: "Opponent name is required" }),
   location: z.string().min(1, { message: "Location is required" }),
   date: z.string().min(1, { message: "Date is required" }),
   time: z.string().min(1, { message: "Time is required" }),
+  format: z.enum(sportFormatIds),
   halfLength: z.coerce.number().min(1, { message: "Half length must be at least 1 minute" }),
   numberOfHalves: z.coerce.number().min(1, { message: "Number of halves must be at least 1" }),
+  sinBinMinutes: z.coerce.number().min(1, { message: "Sin-bin length must be at least 1 minute" }),
+  competitionId: z.string(), // "none" for a friendly
 });
 
 type NewGameFormValues = z.infer<typeof newGameSchema>;
@@ -41,15 +47,47 @@ export default function NewGame() {
   const form = useForm<NewGameFormValues>({
     resolver: zodResolver(newGameSchema),
     defaultValues: {
+      teamId: "",
       opponent: "",
       location: "Home",
       date: new Date().toISOString().split('T')[0], // Today's date
       time: "14:00", // Default to 2 PM
-      halfLength: 40, // Default half length: 40 minutes
-      numberOfHalves: 2, // Default to 2 halves
+      format: DEFAULT_SPORT_FORMAT,
+      // Match length and sin-bins default to the format's
+      halfLength: sportFormats[DEFAULT_SPORT_FORMAT].halfLength,
+      numberOfHalves: sportFormats[DEFAULT_SPORT_FORMAT].numberOfHalves,
+      sinBinMinutes: sportFormats[DEFAULT_SPORT_FORMAT].sinBinMinutes,
+      competitionId: "none",
     },
   });
   
+  // Fetch teams; a game is played in its team's format unless another is picked
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ['/api/teams'],
+  });
+  
+  const handleTeamChange = (teamId: string) => {
+    form.setValue('teamId', teamId);
+    const team = teams.find(t => t.id === Number(teamId));
+    if (team) {
+      handleFormatChange(team.format);
+    }
+  };
+  
+  // Fetch competitions, whose rules (like interchange limits) the game is played under
+  const { data: competitions = [] } = useQuery<Competition[]>({
+    queryKey: ['/api/competitions'],
+  });
+  
+  // Picking a format fills in its match length and sin-bin length
+  const handleFormatChange = (formatId: SportFormatId) => {
+    const { halfLength, numberOfHalves, sinBinMinutes } = sportFormats[formatId];
+    form.setValue('format', formatId);
+    form.setValue('halfLength', halfLength);
+    form.setValue('numberOfHalves', numberOfHalves);
+    form.setValue('sinBinMinutes', sinBinMinutes);
+  };
+  
   // Create game mutation
   const createGameMutation = useMutation({
     mutationFn: async (values: NewGameFormValues) => {
@@ -57,11 +95,15 @@ export default function NewGame() {
       const dateTime = new Date(`${values.date}T${values.time}`);
       
       const gameData = {
+        teamId: Number(values.teamId),
         opponent: values.opponent,
         location: values.location,
         date: dateTime.toISOString(),
+        format: values.format,
         halfLength: values.halfLength,
         numberOfHalves: values.numberOfHalves,
+        sinBinMinutes: values.sinBinMinutes,
+        competitionId: values.competitionId === "none" ? null : Number(values.competitionId),
       };
       
       const response = await apiRequest('POST', '/api/games', gameData);
@@ -102,6 +144,31 @@ export default function NewGame() {
               <div>
                 <h3 className="font-heading font-bold mb-3 text-gray-800">Game Details</h3>
                 <div className="grid gap-4 md:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="teamId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Team</FormLabel>
+                        <Select onValueChange={handleTeamChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select team" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {teams.map(team => (
+                              <SelectItem key={team.id} value={team.id.toString()}>
+                                {team.name} ({team.ageGroup})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
                   <FormField
                     control={form.control}
                     name="opponent"
@@ -166,6 +233,32 @@ export default function NewGame() {
                       </FormItem>
                     )}
                   />
+                  
+                  <FormField
+                    control={form.control}
+                    name="format"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Format</FormLabel>
+                        <Select onValueChange={value => handleFormatChange(value as SportFormatId)} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select format" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {sportFormatIds.map(id => (
+                              <SelectItem key={id} value={id}>
+                                {sportFormats[id].name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Sets the positions, match length and scoring</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
               </div>
               
@@ -193,7 +286,7 @@ export default function NewGame() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Number of Halves</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value.toString()}>
+                        <Select onValueChange={field.onChange} value={field.value.toString()}>
                           <FormControl>
                             <SelectTrigger>
                               <SelectValue placeholder="Select number of halves" />
@@ -208,6 +301,48 @@ export default function NewGame() {
                       </FormItem>
                     )}
                   />
+                  
+                  <FormField
+                    control={form.control}
+                    name="sinBinMinutes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sin-Bin Length (minutes)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" {...field} />
+                        </FormControl>
+                        <FormDescription>How long a yellow card keeps a player off</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={form.control}
+                    name="competitionId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Competition</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select competition" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">None (friendly)</SelectItem>
+                            {competitions.map(competition => (
+                              <SelectItem key={competition.id} value={competition.id.toString()}>
+                                {competition.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Sets the interchange limit for the game</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
               </div>
               
@@ -12,13 +12,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { Badge } from "@/components/ui/badge";
-import { CalendarIcon, Search, PlusCircle, Pencil, Trash2 } from "lucide-react";
+import { CalendarIcon, Search, PlusCircle, Pencil, Trash2, Upload, Download } from "lucide-react";
 import { format } from "date-fns";
+import type { SeasonMinutes } from "@shared/minutes";
+import { getSportFormat, type SportFormat } from "@shared/formats";
+import PlayerImport from "@/components/players/player-import";
 
 interface Team {
   id: number;
   name: string;
   ageGroup: string;
+  format: string;
 }
 
 interface Player {
@@ -50,22 +54,9 @@ const playerSchema = z.object({
 
 type PlayerFormValues = z.infer<typeof playerSchema>;
 
-const RUGBY_POSITIONS = [
-  "1 - Loosehead Prop",
-  "2 - Hooker",
-  "3 - Tighthead Prop",
-  "4 - Lock",
-  "5 - Lock",
-  "6 - Blindside Flanker",
-  "7 - Openside Flanker",
-  "8 - Number 8",
-  "9 - Scrum Half",
-  "10 - Fly Half",
-  "11 - Left Wing",
-  "12 - Inside Center",
-  "13 - Outside Center",
-  "14 - Right Wing",
-  "15 - Fullback",
+// Positions a player can be listed in under a team's format
+const getPositionOptions = (sportFormat: SportFormat): string[] => [
+  ...sportFormat.positions.map(({ number, position }) => `${number} - ${position}`),
   "Substitute",
 ];
 
@@ -77,6 +68,7 @@ const ensureValidValue = (value: number | undefined): string => {
 export default function PlayerPool() {
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [importOpen, setImportOpen] = useState(false);
 
   // Query to fetch all players
   const {
@@ -97,6 +89,13 @@ export default function PlayerPool() {
     queryFn: getQueryFn({ on401: "throw" }),
   });
 
+  // Query to fetch this season's minutes played
+  const seasonYear = new Date().getFullYear();
+  const { data: seasonMinutes = [] } = useQuery<SeasonMinutes[]>({
+    queryKey: [`/api/minutes?from=${seasonYear}-01-01`],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
   // Form for adding/editing players
   const form = useForm<PlayerFormValues>({
     resolver: zodResolver(playerSchema),
@@ -112,6 +111,10 @@ export default function PlayerPool() {
     },
   });
 
+  // Positions follow the format of the team the player is in
+  const selectedTeamId = form.watch("teamId");
+  const positionOptions = getPositionOptions(getSportFormat(teams.find(team => team.id === selectedTeamId)?.format));
+
   // Filter players based on search query
   const filteredPlayers = players.filter(player => 
     player.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -235,6 +238,11 @@ export default function PlayerPool() {
     return team ? team.name : "Unknown Team";
   }
 
+  // Helper to get a player's minutes this season
+  function getPlayerMinutes(playerId: number) {
+    return seasonMinutes.find(m => m.playerId === playerId);
+  }
+
   return (
     <div className="container mx-auto py-6">
       <h1 className="text-3xl font-bold mb-6">Player Pool</h1>
@@ -288,13 +296,21 @@ export default function PlayerPool() {
                             <span className="text-xs text-muted-foreground">
                               {getTeamName(player.teamId)}
                             </span>
+                            {getPlayerMinutes(player.id) && (
+                              <span className="text-xs text-muted-foreground">
+                                · {getPlayerMinutes(player.id)!.games} games, {Math.round(getPlayerMinutes(player.id)!.minutes)} mins in {seasonYear}
+                              </span>
+                            )}
                           </div>
                         </div>
                         <div className="flex gap-1">
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => setSelectedPlayer(player)}
+                            onClick={() => {
+                              setSelectedPlayer(player);
+                              setImportOpen(false);
+                            }}
                           >
                             <Pencil className="h-4 w-4" />
                           </Button>
@@ -313,12 +329,13 @@ export default function PlayerPool() {
               )}
             </CardContent>
 
-            <CardFooter>
+            <CardFooter className="flex flex-col gap-2">
               <Button
                 variant="outline"
                 className="w-full"
                 onClick={() => {
                   setSelectedPlayer(null);
+                  setImportOpen(false);
                   form.reset({
                     name: "",
                     number: undefined,
@@ -334,249 +351,272 @@ export default function PlayerPool() {
                 <PlusCircle className="h-4 w-4 mr-2" />
                 Add New Player
               </Button>
+              <div className="flex w-full gap-2">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => {
+                    setSelectedPlayer(null);
+                    setImportOpen(true);
+                  }}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+                <Button variant="outline" className="flex-1" asChild disabled={players.length === 0}>
+                  <a href="/api/players/export" download="players.csv">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </a>
+                </Button>
+              </div>
             </CardFooter>
           </Card>
         </div>
 
         {/* Player Form */}
         <div className="col-span-1 md:col-span-2">
-          <Card>
-            <CardHeader>
-              <CardTitle>{selectedPlayer ? "Edit Player" : "Add New Player"}</CardTitle>
-              <CardDescription>
-                {selectedPlayer 
-                  ? "Update player information" 
-                  : "Add a new player to your club"
-                }
-              </CardDescription>
-            </CardHeader>
-
-            <CardContent>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onPlayerSubmit)} className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="name"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Name</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Player name" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="number"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Jersey Number</FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="number" 
-                              placeholder="Jersey number" 
-                              {...field}
-                              value={field.value || ''}
-                              onChange={e => {
-                                const value = e.target.value === '' ? undefined : Number(e.target.value);
-                                field.onChange(value);
-                              }}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="position"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Position</FormLabel>
-                          <Select
-                            onValueChange={field.onChange}
-                            defaultValue={field.value}
-                            value={field.value}
-                          >
+          {importOpen ? (
+            <PlayerImport onClose={() => setImportOpen(false)} />
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>{selectedPlayer ? "Edit Player" : "Add New Player"}</CardTitle>
+                <CardDescription>
+                  {selectedPlayer 
+                    ? "Update player information" 
+                    : "Add a new player to your club"
+                  }
+                </CardDescription>
+              </CardHeader>
+
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onPlayerSubmit)} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Name</FormLabel>
                             <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select position" />
-                              </SelectTrigger>
+                              <Input placeholder="Player name" {...field} />
                             </FormControl>
-                            <SelectContent>
-                              {RUGBY_POSITIONS.map(position => (
-                                <SelectItem key={position} value={position}>
-                                  {position}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="teamId"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Team</FormLabel>
-                          <FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="number"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Jersey Number</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                placeholder="Jersey number" 
+                                {...field}
+                                value={field.value || ''}
+                                onChange={e => {
+                                  const value = e.target.value === '' ? undefined : Number(e.target.value);
+                                  field.onChange(value);
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="position"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Position</FormLabel>
                             <Select
-                              value={ensureValidValue(field.value)}
-                              onValueChange={(value) => field.onChange(value === "none" ? undefined : Number(value))}
+                              onValueChange={field.onChange}
+                              defaultValue={field.value}
+                              value={field.value}
                             >
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select team" />
-                              </SelectTrigger>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select position" />
+                                </SelectTrigger>
+                              </FormControl>
                               <SelectContent>
-                                <SelectItem value="none">No Team Selected</SelectItem>
-                                {teams.map((team) => (
-                                  <SelectItem key={team.id} value={String(team.id)}>
-                                    {team.name}
+                                {positionOptions.map(position => (
+                                  <SelectItem key={position} value={position}>
+                                    {position}
                                   </SelectItem>
                                 ))}
                               </SelectContent>
                             </Select>
-                          </FormControl>
-                          <FormDescription>Assign player to a team</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-
-                  <FormField
-                    control={form.control}
-                    name="dateOfBirth"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-col">
-                        <FormLabel>Date of Birth</FormLabel>
-                        <Popover>
-                          <PopoverTrigger asChild>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="teamId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Team</FormLabel>
                             <FormControl>
-                              <Button
-                                variant={"outline"}
-                                className={`w-full pl-3 text-left font-normal ${
-                                  !field.value && "text-muted-foreground"
-                                }`}
+                              <Select
+                                value={ensureValidValue(field.value)}
+                                onValueChange={(value) => field.onChange(value === "none" ? undefined : Number(value))}
                               >
-                                {field.value ? (
-                                  format(field.value, "PPP")
-                                ) : (
-                                  <span>Pick a date</span>
-                                )}
-                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                              </Button>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select team" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">No Team Selected</SelectItem>
+                                  {teams.map((team) => (
+                                    <SelectItem key={team.id} value={String(team.id)}>
+                                      {team.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
                             </FormControl>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-auto p-0" align="start">
-                            <Calendar
-                              mode="single"
-                              selected={field.value}
-                              onSelect={field.onChange}
-                              disabled={(date) =>
-                                date > new Date() || date < new Date("1920-01-01")
-                              }
-                              initialFocus
-                            />
-                          </PopoverContent>
-                        </Popover>
-                        <FormDescription>
-                          Player's date of birth
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <FormDescription>Assign player to a team</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <FormField
                       control={form.control}
-                      name="email"
+                      name="dateOfBirth"
                       render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Email</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Email address" {...field} />
-                          </FormControl>
+                        <FormItem className="flex flex-col">
+                          <FormLabel>Date of Birth</FormLabel>
+                          <Popover>
+                            <PopoverTrigger asChild>
+                              <FormControl>
+                                <Button
+                                  variant={"outline"}
+                                  className={`w-full pl-3 text-left font-normal ${
+                                    !field.value && "text-muted-foreground"
+                                  }`}
+                                >
+                                  {field.value ? (
+                                    format(field.value, "PPP")
+                                  ) : (
+                                    <span>Pick a date</span>
+                                  )}
+                                  <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                                </Button>
+                              </FormControl>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-auto p-0" align="start">
+                              <Calendar
+                                mode="single"
+                                selected={field.value}
+                                onSelect={field.onChange}
+                                disabled={(date) =>
+                                  date > new Date() || date < new Date("1920-01-01")
+                                }
+                                initialFocus
+                              />
+                            </PopoverContent>
+                          </Popover>
+                          <FormDescription>
+                            Player's date of birth
+                          </FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
 
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Email address" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="phone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Phone</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Phone number" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <FormField
                       control={form.control}
-                      name="phone"
+                      name="notes"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Phone</FormLabel>
+                          <FormLabel>Notes</FormLabel>
                           <FormControl>
-                            <Input placeholder="Phone number" {...field} />
+                            <Input placeholder="Additional notes" {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                  </div>
-
-                  <FormField
-                    control={form.control}
-                    name="notes"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Notes</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Additional notes" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <div className="flex gap-2 pt-4">
-                    <Button 
-                      type="submit" 
-                      className="flex-1"
-                      disabled={createPlayerMutation.isPending || updatePlayerMutation.isPending}
-                    >
-                      {selectedPlayer ? "Update Player" : "Add Player"}
-                    </Button>
 
-                    {selectedPlayer && (
+                    <div className="flex gap-2 pt-4">
                       <Button 
-                        type="button" 
-                        variant="outline" 
-                        onClick={() => {
-                          setSelectedPlayer(null);
-                          form.reset({
-                            name: "",
-                            number: undefined,
-                            position: "",
-                            dateOfBirth: undefined,
-                            teamId: undefined,
-                            email: "",
-                            phone: "",
-                            notes: "",
-                          });
-                        }}
+                        type="submit" 
+                        className="flex-1"
+                        disabled={createPlayerMutation.isPending || updatePlayerMutation.isPending}
                       >
-                        Cancel
+                        {selectedPlayer ? "Update Player" : "Add Player"}
                       </Button>
-                    )}
-                  </div>
-                </form>
-              </Form>
-            </CardContent>
-          </Card>
+
+                      {selectedPlayer && (
+                        <Button 
+                          type="button" 
+                          variant="outline" 
+                          onClick={() => {
+                            setSelectedPlayer(null);
+                            form.reset({
+                              name: "",
+                              number: undefined,
+                              position: "",
+                              dateOfBirth: undefined,
+                              teamId: undefined,
+                              email: "",
+                              phone: "",
+                              notes: "",
+                            });
+                          }}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
@@ -9,9 +9,12 @@ import { Input } from "@/components/ui/input";
 import { apiRequest } from '@/lib/queryClient';
 import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { Game, Player, StatType } from '@/types';
-// Assuming PlayerSelection structure based on context
-import { Select } from '@chakra-ui/react'; // Or your Select component library
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PlayerSelection } from '@/components/game/player-selection';
+import { Game, NewStatType, Player, StatTemplate, StatType, Team } from '@/types';
+import { getTeamSheetWarnings, validateTeamSheet } from '@shared/team-sheet';
+import { getBenchPositions, getSportFormat, getStartingPositions } from '@shared/formats';
+import { compareStatTypes, getTrackedStatTypes } from '@shared/stat-types';
 
 export default function PlayerSetup() {
   const params = useParams();
@@ -21,6 +24,9 @@ export default function PlayerSetup() {
 
   const [positionSelections, setPositionSelections] = useState<Record<number, number>>({});
   const [selectedStats, setSelectedStats] = useState<Record<number, boolean>>({});
+  const [statTemplateId, setStatTemplateId] = useState<number | null>(null);
+  const [hasLoadedStats, setHasLoadedStats] = useState(false);
+  const [templateName, setTemplateName] = useState('');
   const [customStat, setCustomStat] = useState('');
   const [additionalSubstitutes, setAdditionalSubstitutes] = useState<Array<{ number: number, position: string }>>([]);
 
@@ -35,65 +41,86 @@ export default function PlayerSetup() {
     queryKey: ['/api/players'],
   });
 
+  // Fetch the team, for its bench size and age group
+  const { data: team } = useQuery<Team>({
+    queryKey: [`/api/teams/${game?.teamId}`],
+    enabled: !!game?.teamId,
+  });
+
   // Fetch stat types
   const { data: statTypes = [], isLoading: isLoadingStatTypes } = useQuery<StatType[]>({
     queryKey: ['/api/stat-types'],
   });
 
-  // Initialize selected stats based on defaults
+  // Fetch the saved sets of stats to choose from
+  const { data: statTemplates = [] } = useQuery<StatTemplate[]>({
+    queryKey: ['/api/stat-templates'],
+  });
+
+  // Archived types keep their stats but aren't offered for new games
+  const activeStatTypes = statTypes.filter(statType => statType.isActive).sort(compareStatTypes);
+  const selectedStatTypeIds = activeStatTypes.filter(statType => selectedStats[statType.id]).map(statType => statType.id);
+
+  // A template deleted since the game was set up leaves its stats as a custom selection
+  const selectedTemplate = statTemplates.find(template => template.id === statTemplateId);
+
+  // Start from the stats already chosen for the game, or the default ones.
+  // Only once, so adding a custom stat doesn't undo the selection.
   useEffect(() => {
-    if (statTypes.length > 0) {
-      const initialStatSelections = statTypes.reduce((acc, statType) => {
-        acc[statType.id] = statType.isDefault;
-        return acc;
-      }, {} as Record<number, boolean>);
+    if (hasLoadedStats || !game || statTypes.length === 0) return;
 
-      setSelectedStats(initialStatSelections);
-    }
-  }, [statTypes]);
-
-  // Positions for rugby league
-  const rugbyPositions = [
-    // Backs
-    { number: 1, position: "Fullback" },
-    { number: 2, position: "Right Wing" },
-    { number: 3, position: "Right Centre" },
-    { number: 4, position: "Left Centre" },
-    { number: 5, position: "Left Wing" },
-    { number: 6, position: "Stand Off" },
-    { number: 7, position: "Scrum Half / Half Back" },
-    // Forwards
-    { number: 8, position: "Prop" },
-    { number: 9, position: "Hooker" },
-    { number: 10, position: "Prop" },
-    { number: 11, position: "Second Row" },
-    { number: 12, position: "Second Row" },
-    { number: 13, position: "Loose Forward" },
-    // Substitutes
-    { number: 14, position: "Substitute" },
-    { number: 15, position: "Substitute" },
-    { number: 16, position: "Substitute" },
-    { number: 17, position: "Substitute" }
-  ];
-
-  // Forwards (8-13)
-  const forwards = rugbyPositions.filter(p => p.number >= 8 && p.number <= 13);
-
-  // Backs (1-7)
-  const backs = rugbyPositions.filter(p => p.number >= 1 && p.number <= 7);
-
-  // Get the base substitutes (14-17)
-  const baseSubstitutes = rugbyPositions.filter(p => p.number >= 14);
+    const initialStatSelections = getTrackedStatTypes(game, statTypes).reduce((acc, statType) => {
+      acc[statType.id] = true;
+      return acc;
+    }, {} as Record<number, boolean>);
+
+    setSelectedStats(initialStatSelections);
+    setStatTemplateId(game.statTemplateId ?? null);
+    setHasLoadedStats(true);
+  }, [game, statTypes, hasLoadedStats]);
+
+  // Positions, the number of starters and the bench come from the game's format
+  const format = getSportFormat(game?.format);
+  const startingPositions = getStartingPositions(format);
+
+  const forwards = format.positions.filter(p => p.unit === 'forwards');
+  const backs = format.positions.filter(p => p.unit === 'backs');
+
+  // The team's bench size limits how many substitutes can be named
+  const maxBenchSize = team?.maxBenchSize ?? format.maxBenchSize;
+
+  // Get the base substitutes, numbered on from the starters
+  const baseSubstitutes = getBenchPositions(format).slice(0, maxBenchSize);
 
   // All substitutes (including additional ones)
   const substitutes = [...baseSubstitutes, ...additionalSubstitutes];
 
+  // All positions on the sheet
+  const allPositions = [...format.positions, ...substitutes];
+
+  // The team sheet as it stands, checked the same way the server will
+  const teamSheet = Object.entries(positionSelections)
+    .filter(([, playerId]) => playerId > 0)
+    .map(([posNumber, playerId]) => ({
+      playerId,
+      number: Number(posNumber),
+      position: allPositions.find(p => p.number === Number(posNumber))?.position || "Unknown"
+    }));
+
+  const teamSheetIssues = game ? validateTeamSheet(teamSheet, players, {
+    startingPositions,
+    maxBenchSize,
+    ageGroup: team?.ageGroup,
+    gameDate: game.date,
+    requireAllStarters: true
+  }) : [];
+  const teamSheetWarnings = getTeamSheetWarnings(teamSheet, players, { ageGroup: team?.ageGroup });
+
   // Add additional substitute
   const handleAddSubstitute = () => {
     // Find the highest existing number
     const highestNumber = Math.max(
-      ...rugbyPositions.map(p => p.number),
-      ...additionalSubstitutes.map(p => p.number)
+      ...allPositions.map(p => p.number)
     );
 
     // Create a new substitute with the next number
@@ -113,12 +140,28 @@ export default function PlayerSetup() {
     }));
   };
 
-  // Handle stat selection change
+  // Handle stat selection change; picking stats by hand leaves the template
   const handleStatChange = (statId: number, checked: boolean) => {
     setSelectedStats(prev => ({
       ...prev,
       [statId]: checked
     }));
+    setStatTemplateId(null);
+  };
+
+  // Selecting a template ticks exactly its stats
+  const handleTemplateChange = (value: string) => {
+    const template = statTemplates.find(t => t.id === Number(value));
+    if (!template) {
+      setStatTemplateId(null);
+      return;
+    }
+
+    setSelectedStats(template.statTypeIds.reduce((acc, statId) => {
+      acc[statId] = true;
+      return acc;
+    }, {} as Record<number, boolean>));
+    setStatTemplateId(template.id);
   };
 
   // Handle adding a custom stat
@@ -126,51 +169,33 @@ export default function PlayerSetup() {
     if (customStat.trim() === '') return;
 
     // Create a new stat type
-    const newStatType: Omit<StatType, 'id'> = {
+    const newStatType: NewStatType = {
       name: customStat,
       description: `Custom stat: ${customStat}`,
       isActive: true,
-      isDefault: false,
       color: '#1E3A8A', // Default primary color
-      icon: 'sports_rugby'
+      icon: 'sports_rugby',
+      category: 'attack',
+      valueKind: 'count'
     };
 
     // Call API to create the new stat type
     createStatTypeMutation.mutate(newStatType);
   };
 
-  // Create game players mutation
+  // Save the stats to track and the team sheet; the server checks the team
+  // sheet again before replacing the lineup
   const savePlayersMutation = useMutation({
     mutationFn: async () => {
-      const playerAssignments = Object.entries(positionSelections).map(([posNumber, playerId]) => {
-        const positionNumber = Number(posNumber);
-
-        // Find position name from combined list of all positions
-        const allPositions = [...rugbyPositions, ...additionalSubstitutes];
-        const position = allPositions.find(p => p.number === positionNumber)?.position || "Unknown";
-
-        const isStarter = positionNumber <= 13; // Players 1-13 are starters in rugby league
-
-        return {
-          playerId,
-          number: positionNumber,
-          position,
-          isStarter,
-          gameId, // This will be sent in the URL
-        };
+      await apiRequest('PUT', `/api/games/${gameId}/tracked-stats`, {
+        statTemplateId: selectedTemplate?.id ?? null,
+        statTypeIds: selectedStatTypeIds
       });
-
-      // Only create players that have been assigned
-      const validPlayerAssignments = playerAssignments.filter(p => p.playerId > 0);
-
-      // Make API calls to create each game player
-      const promises = validPlayerAssignments.map(assignment => 
-        apiRequest('POST', `/api/games/${gameId}/players`, assignment)
-      );
-
-      return Promise.all(promises);
+      const res = await apiRequest('POST', `/api/games/${gameId}/team-sheet`, { players: teamSheet });
+      return res.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/games/${gameId}`] });
       queryClient.invalidateQueries({ queryKey: [`/api/games/${gameId}/players`] });
       toast({
         title: "Players Assigned",
@@ -183,7 +208,7 @@ export default function PlayerSetup() {
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to assign players. Please try again.",
+        description: "Failed to save the game setup. Check the problems listed and try again.",
         variant: "destructive",
       });
     }
@@ -191,7 +216,7 @@ export default function PlayerSetup() {
 
   // Create stat type mutation
   const createStatTypeMutation = useMutation({
-    mutationFn: (statType: Omit<StatType, 'id'>) => {
+    mutationFn: (statType: NewStatType) => {
       return apiRequest('POST', '/api/stat-types', statType)
         .then(res => res.json());
     },
@@ -201,6 +226,7 @@ export default function PlayerSetup() {
         ...prev,
         [data.id]: true
       }));
+      setStatTemplateId(null);
       setCustomStat('');
       toast({
         title: "Custom Stat Added",
@@ -216,6 +242,30 @@ export default function PlayerSetup() {
     }
   });
 
+  // Save the current selection as a template for later games
+  const createTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/stat-templates', { name: templateName, statTypeIds: selectedStatTypeIds });
+      return (await res.json()) as StatTemplate;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stat-templates'] });
+      setStatTemplateId(data.id);
+      setTemplateName('');
+      toast({
+        title: "Template Saved",
+        description: `"${data.name}" can now be chosen for other games.`
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save the template. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
   // Handle start game
   const handleStartGame = () => {
     // Save player assignments first
@@ -274,13 +324,13 @@ export default function PlayerSetup() {
         <Card>
           <CardContent className="p-6">
             <h2 className="text-xl font-heading font-bold text-primary mb-4">Assign Players</h2>
-            <p className="text-gray-600 mb-6">Assign players to positions for the starting lineup.</p>
+            <p className="text-gray-600 mb-6">Assign players to positions for the starting lineup ({format.name}).</p>
 
             <Tabs defaultValue="backs">
               <TabsList className="mb-4">
-                <TabsTrigger value="backs">Backs (1-7)</TabsTrigger>
-                <TabsTrigger value="forwards">Forwards (8-13)</TabsTrigger>
-                <TabsTrigger value="substitutes">Substitutes (14+)</TabsTrigger>
+                <TabsTrigger value="backs">Backs</TabsTrigger>
+                <TabsTrigger value="forwards">Forwards</TabsTrigger>
+                <TabsTrigger value="substitutes">Substitutes ({startingPositions + 1}+)</TabsTrigger>
               </TabsList>
 
               <TabsContent value="forwards" className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -311,12 +361,13 @@ export default function PlayerSetup() {
 
               <TabsContent value="substitutes">
                 <div className="mb-4 flex justify-between items-center">
-                  <h3 className="text-lg font-semibold text-gray-700">Substitute Players</h3>
+                  <h3 className="text-lg font-semibold text-gray-700">Substitute Players (up to {maxBenchSize})</h3>
                   <Button 
                     onClick={handleAddSubstitute} 
                     variant="outline" 
                     className="flex items-center gap-1"
                     size="sm"
+                    disabled={substitutes.length >= maxBenchSize}
                   >
                     <span className="material-icons text-sm">add</span>
                     Add Substitute
@@ -346,8 +397,24 @@ export default function PlayerSetup() {
             <h2 className="text-xl font-heading font-bold text-primary mb-3">Stats to Track</h2>
             <p className="text-gray-600 mb-4">Select which stats to track during this game.</p>
 
+            <div className="mb-4 max-w-sm">
+              <Select value={selectedTemplate?.id.toString() ?? 'custom'} onValueChange={handleTemplateChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="custom">Custom selection</SelectItem>
+                  {statTemplates.map(template => (
+                    <SelectItem key={template.id} value={template.id.toString()}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
-              {statTypes.map(statType => (
+              {activeStatTypes.map(statType => (
                 <div key={statType.id} className="flex items-center">
                   <Checkbox 
                     id={`stat_${statType.id}`} 
@@ -386,9 +453,57 @@ export default function PlayerSetup() {
                 <span className="material-icons">add</span>
               </Button>
             </div>
+
+            {/* Save the selection as a template */}
+            {!selectedTemplate && (
+              <div className="mt-3 flex gap-3 items-center">
+                <Input
+                  placeholder="Save these stats as a template..."
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  className="flex-1"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => createTemplateMutation.mutate()}
+                  disabled={templateName.trim() === '' || selectedStatTypeIds.length === 0 || createTemplateMutation.isPending}
+                >
+                  Save Template
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {/* Team sheet problems */}
+        {teamSheetIssues.length > 0 && (
+          <Card className="border-amber-300">
+            <CardContent className="p-6">
+              <h2 className="text-lg font-heading font-bold text-amber-700 mb-2">Team Sheet Problems</h2>
+              <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+                {teamSheetIssues.map((issue, index) => (
+                  <li key={index}>{issue.message}</li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Team sheet warnings, which don't stop the game starting */}
+        {teamSheetWarnings.length > 0 && (
+          <Card className="border-gray-300">
+            <CardContent className="p-6">
+              <h2 className="text-lg font-heading font-bold text-gray-700 mb-2">Team Sheet Warnings</h2>
+              <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+                {teamSheetWarnings.map((warning, index) => (
+                  <li key={index}>{warning.message}</li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Action buttons */}
         <div className="mt-4 flex justify-end space-x-4">
           <Button 
@@ -399,7 +514,7 @@ export default function PlayerSetup() {
           </Button>
           <Button 
             onClick={handleStartGame}
-            disabled={savePlayersMutation.isPending}
+            disabled={savePlayersMutation.isPending || teamSheetIssues.length > 0 || selectedStatTypeIds.length === 0}
             className="px-6 py-2 bg-secondary text-white rounded-md hover:bg-secondary-light transition-colors font-medium"
           >
             {savePlayersMutation.isPending ? "Starting..." : "Start Game"}
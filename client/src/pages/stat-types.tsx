@@ -0,0 +1,514 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import StatTemplateManager from "@/components/stats/stat-template-manager";
+import { NewStatType, StatType } from "@/types";
+import { scoringTypeLabels } from "@shared/formats";
+import {
+  compareStatTypes,
+  groupStatTypes,
+  statCategories,
+  statCategoryLabels,
+  statValueKindLabels,
+  statValueKinds
+} from "@shared/stat-types";
+import { ArchiveRestore, ArrowDown, ArrowUp, Pencil, PlusCircle, Trash2 } from "lucide-react";
+
+// Stat type schema for form validation
+const statTypeSchema = z.object({
+  name: z.string().trim().min(1, {
+    message: "Name is required.",
+  }),
+  description: z.string().optional(),
+  category: z.enum(statCategories),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, {
+    message: "Pick a colour.",
+  }),
+  valueKind: z.enum(statValueKinds),
+  unit: z.string().optional(),
+  // Blank means no limit
+  minValue: z.string().regex(/^(-?\d+(\.\d+)?)?$/, { message: "Enter a number, or leave blank." }),
+  maxValue: z.string().regex(/^(-?\d+(\.\d+)?)?$/, { message: "Enter a number, or leave blank." }),
+}).refine(values => values.minValue === "" || values.maxValue === "" || Number(values.minValue) <= Number(values.maxValue), {
+  message: "Can't be less than the minimum.",
+  path: ["maxValue"],
+});
+
+type StatTypeFormValues = z.infer<typeof statTypeSchema>;
+
+const emptyForm: StatTypeFormValues = {
+  name: "",
+  description: "",
+  category: "attack",
+  color: "#1E3A8A",
+  valueKind: "count",
+  unit: "",
+  minValue: "",
+  maxValue: "",
+};
+
+export default function StatTypes() {
+  const [editingStatType, setEditingStatType] = useState<StatType | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const { toast } = useToast();
+
+  const { data: statTypes = [], isLoading } = useQuery<StatType[]>({
+    queryKey: ['/api/stat-types'],
+  });
+
+  const form = useForm<StatTypeFormValues>({
+    resolver: zodResolver(statTypeSchema),
+    defaultValues: emptyForm,
+  });
+
+  const ownStatTypes = statTypes.filter(statType => statType.organisationId != null).sort(compareStatTypes);
+  const archivedCount = statTypes.filter(statType => !statType.isActive).length;
+  const groups = groupStatTypes(statTypes.filter(statType => showArchived || statType.isActive));
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Units only go with numbers, and limits with counts and numbers
+  function toStatType(values: StatTypeFormValues): Omit<NewStatType, 'isActive' | 'icon'> {
+    const hasLimits = values.valueKind === "count" || values.valueKind === "numeric";
+    return {
+      ...values,
+      description: values.description?.trim() || null,
+      unit: values.valueKind === "numeric" ? values.unit?.trim() || null : null,
+      minValue: hasLimits && values.minValue !== "" ? Number(values.minValue) : null,
+      maxValue: hasLimits && values.maxValue !== "" ? Number(values.maxValue) : null,
+    };
+  }
+
+  // Add one of the club's own stat types
+  const createMutation = useMutation({
+    mutationFn: async (values: StatTypeFormValues) => {
+      const res = await apiRequest('POST', '/api/stat-types', { ...toStatType(values), isActive: true });
+      return await res.json();
+    },
+    onSuccess: (statType: StatType) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stat-types'] });
+      form.reset(emptyForm);
+      toast({
+        title: "Stat type added",
+        description: `${statType.name} can now be tracked in games.`,
+      });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: number; changes: Partial<NewStatType> }) => {
+      const res = await apiRequest('PUT', `/api/stat-types/${id}`, changes);
+      return await res.json();
+    },
+    onSuccess: (statType: StatType, { changes }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stat-types'] });
+      if (changes.isActive) {
+        toast({ title: "Stat type restored", description: `${statType.name} can be tracked in games again.` });
+        return;
+      }
+      setEditingStatType(null);
+      form.reset(emptyForm);
+      toast({ title: "Stat type updated" });
+    },
+    onError,
+  });
+
+  // Types with stats recorded against them come back archived instead of deleted
+  const deleteMutation = useMutation({
+    mutationFn: async (statType: StatType) => {
+      const res = await apiRequest('DELETE', `/api/stat-types/${statType.id}`);
+      return res.status === 204 ? null : (await res.json()) as StatType;
+    },
+    onSuccess: (archived, statType) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stat-types'] });
+      if (editingStatType?.id === statType.id) {
+        setEditingStatType(null);
+        form.reset(emptyForm);
+      }
+      toast(archived ? {
+        title: "Stat type archived",
+        description: `${statType.name} has stats recorded, so it's been archived and its stats kept.`,
+      } : {
+        title: "Stat type deleted",
+      });
+    },
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const res = await apiRequest('PUT', '/api/stat-types/order', { ids });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stat-types'] });
+    },
+    onError,
+  });
+
+  // Swap a type with the club's next one up or down in the same category
+  function move(statType: StatType, direction: -1 | 1) {
+    const siblings = ownStatTypes.filter(other => other.category === statType.category);
+    const index = siblings.findIndex(other => other.id === statType.id);
+    const neighbour = siblings[index + direction];
+    if (!neighbour) return;
+
+    const ids = ownStatTypes.map(other => other.id);
+    const from = ids.indexOf(statType.id);
+    const to = ids.indexOf(neighbour.id);
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    reorderMutation.mutate(ids);
+  }
+
+  function startEditing(statType: StatType) {
+    setEditingStatType(statType);
+    form.reset({
+      name: statType.name,
+      description: statType.description ?? "",
+      category: statType.category,
+      color: statType.color,
+      valueKind: statType.valueKind,
+      unit: statType.unit ?? "",
+      minValue: statType.minValue?.toString() ?? "",
+      maxValue: statType.maxValue?.toString() ?? "",
+    });
+  }
+
+  function cancelEditing() {
+    setEditingStatType(null);
+    form.reset(emptyForm);
+  }
+
+  function onSubmit(values: StatTypeFormValues) {
+    if (editingStatType) {
+      updateMutation.mutate({ id: editingStatType.id, changes: toStatType(values) });
+    } else {
+      createMutation.mutate(values);
+    }
+  }
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+  const valueKind = form.watch("valueKind");
+
+  return (
+    <div className="container mx-auto p-4 max-w-4xl space-y-6">
+      <h1 className="text-2xl font-heading font-bold">Stat Types</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stats</CardTitle>
+          <CardDescription>
+            The stats your club can track, by category. Built-in stats are shared by every club and can't be changed.
+            Deleting a stat that has been recorded archives it instead, keeping its stats.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {archivedCount > 0 && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="show-archived"
+                checked={showArchived}
+                onCheckedChange={(checked) => setShowArchived(checked === true)}
+              />
+              <label htmlFor="show-archived" className="text-sm text-gray-700">
+                Show archived ({archivedCount})
+              </label>
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-gray-500">Loading stat types...</p>
+          ) : (
+            groups.map(({ category, statTypes: categoryStatTypes }) => {
+              const ownInCategory = ownStatTypes.filter(statType => statType.category === category);
+
+              return (
+                <div key={category} className="space-y-2">
+                  <h3 className="font-medium">{statCategoryLabels[category]}</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead className="w-20">Points</TableHead>
+                        <TableHead className="w-48"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {categoryStatTypes.map(statType => {
+                        const isBuiltIn = statType.organisationId == null;
+                        const position = ownInCategory.findIndex(other => other.id === statType.id);
+
+                        return (
+                          <TableRow key={statType.id} className={statType.isActive ? undefined : "opacity-60"}>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: statType.color }} />
+                                <span className="font-medium">{statType.name}</span>
+                                {isBuiltIn && <Badge variant="secondary">Built-in</Badge>}
+                                {!statType.isActive && <Badge variant="outline">Archived</Badge>}
+                                {statType.valueKind !== "count" && (
+                                  <Badge variant="outline">
+                                    {statValueKindLabels[statType.valueKind]}
+                                    {statType.unit ? ` (${statType.unit})` : ""}
+                                  </Badge>
+                                )}
+                              </div>
+                              {statType.description && (
+                                <p className="text-sm text-gray-500">{statType.description}</p>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {statType.scoringType ? scoringTypeLabels[statType.scoringType] : statType.points || ""}
+                            </TableCell>
+                            <TableCell>
+                              {!isBuiltIn && (
+                                <div className="flex justify-end">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => move(statType, -1)}
+                                    disabled={position <= 0 || reorderMutation.isPending}
+                                  >
+                                    <ArrowUp className="h-4 w-4" />
+                                    <span className="sr-only">Move up</span>
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => move(statType, 1)}
+                                    disabled={position === ownInCategory.length - 1 || reorderMutation.isPending}
+                                  >
+                                    <ArrowDown className="h-4 w-4" />
+                                    <span className="sr-only">Move down</span>
+                                  </Button>
+                                  <Button variant="ghost" size="sm" onClick={() => startEditing(statType)}>
+                                    <Pencil className="h-4 w-4" />
+                                    <span className="sr-only">Edit</span>
+                                  </Button>
+                                  {statType.isActive ? (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => deleteMutation.mutate(statType)}
+                                      disabled={deleteMutation.isPending}
+                                    >
+                                      <Trash2 className="h-4 w-4 text-red-600" />
+                                      <span className="sr-only">Delete</span>
+                                    </Button>
+                                  ) : (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => updateMutation.mutate({ id: statType.id, changes: { isActive: true } })}
+                                      disabled={updateMutation.isPending}
+                                    >
+                                      <ArchiveRestore className="h-4 w-4" />
+                                      <span className="sr-only">Restore</span>
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingStatType ? `Edit ${editingStatType.name}` : "Add Stat Type"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Kick Return" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {statCategories.map(category => (
+                          <SelectItem key={category} value={category}>{statCategoryLabels[category]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="valueKind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Value</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {statValueKinds.map(kind => (
+                          <SelectItem key={kind} value={kind}>{statValueKindLabels[kind]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Counts and numbers are totalled, ratings averaged and success/fail shown as a success rate.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {valueKind === "numeric" && (
+                <FormField
+                  control={form.control}
+                  name="unit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. m" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {(valueKind === "count" || valueKind === "numeric") && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="minValue"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Minimum</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="No limit" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="maxValue"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Maximum</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="No limit" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Colour</FormLabel>
+                    <FormControl>
+                      <Input type="color" className="h-10 w-20 p-1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex gap-2 md:col-span-2">
+                <Button type="submit" disabled={isSaving}>
+                  {editingStatType ? (
+                    isSaving ? "Saving..." : "Save Changes"
+                  ) : (
+                    <>
+                      <PlusCircle className="h-4 w-4 mr-2" />
+                      {isSaving ? "Adding..." : "Add Stat Type"}
+                    </>
+                  )}
+                </Button>
+                {editingStatType && (
+                  <Button type="button" variant="outline" onClick={cancelEditing}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <StatTemplateManager statTypes={statTypes} />
+    </div>
+  );
+}
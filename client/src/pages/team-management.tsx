@@ -9,9 +9,12 @@ import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { BaggageClaim, Users, ClipboardList, PlusCircle, Trash2 } from "lucide-react";
+import { BaggageClaim, Users, ClipboardList, PlusCircle, Trash2, Trophy } from "lucide-react";
+import { DEFAULT_SPORT_FORMAT, getSportFormat, sportFormatIds, sportFormats, type SportFormatId } from "@shared/formats";
+import CompetitionManager from "@/components/team/competition-manager";
 
 // Team schema for form validation
 const teamSchema = z.object({
@@ -22,6 +25,10 @@ const teamSchema = z.object({
     message: "Age group is required.",
   }),
   description: z.string().optional(),
+  format: z.enum(sportFormatIds),
+  maxBenchSize: z.coerce.number().int().min(0, {
+    message: "Bench size can't be negative.",
+  }),
 });
 
 type TeamFormValues = z.infer<typeof teamSchema>;
@@ -32,6 +39,8 @@ interface Team {
   ageGroup: string;
   description: string | null;
   isActive: boolean;
+  format: SportFormatId;
+  maxBenchSize: number;
 }
 
 export default function TeamManagement() {
@@ -55,7 +64,9 @@ export default function TeamManagement() {
     defaultValues: {
       name: selectedTeam?.name || "",
       ageGroup: selectedTeam?.ageGroup || "",
-      description: selectedTeam?.description || ""
+      description: selectedTeam?.description || "",
+      format: selectedTeam?.format ?? DEFAULT_SPORT_FORMAT,
+      maxBenchSize: selectedTeam?.maxBenchSize ?? sportFormats[DEFAULT_SPORT_FORMAT].maxBenchSize
     },
   });
   
@@ -65,13 +76,17 @@ export default function TeamManagement() {
       form.reset({
         name: selectedTeam.name,
         ageGroup: selectedTeam.ageGroup,
-        description: selectedTeam.description || ""
+        description: selectedTeam.description || "",
+        format: selectedTeam.format,
+        maxBenchSize: selectedTeam.maxBenchSize
       });
     } else {
       form.reset({
         name: "",
         ageGroup: "",
-        description: ""
+        description: "",
+        format: DEFAULT_SPORT_FORMAT,
+        maxBenchSize: sportFormats[DEFAULT_SPORT_FORMAT].maxBenchSize
       });
     }
   });
@@ -195,7 +210,7 @@ export default function TeamManagement() {
       <h1 className="text-3xl font-bold mb-6">Team Management</h1>
       
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="teams" className="flex items-center gap-2">
             <Users className="h-4 w-4" />
             <span>Teams</span>
@@ -208,6 +223,10 @@ export default function TeamManagement() {
             <ClipboardList className="h-4 w-4" />
             <span>Fixtures</span>
           </TabsTrigger>
+          <TabsTrigger value="competitions" className="flex items-center gap-2">
+            <Trophy className="h-4 w-4" />
+            <span>Competitions</span>
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="teams" className="space-y-4 pt-4">
@@ -232,7 +251,7 @@ export default function TeamManagement() {
                         <li key={team.id} className="border p-3 rounded-md flex justify-between items-center">
                           <div>
                             <h3 className="font-medium">{team.name}</h3>
-                            <p className="text-sm text-gray-500">{team.ageGroup}</p>
+                            <p className="text-sm text-gray-500">{team.ageGroup} · {getSportFormat(team.format).name}</p>
                           </div>
                           <div className="flex gap-2">
                             <Button
@@ -264,7 +283,9 @@ export default function TeamManagement() {
                       form.reset({
                         name: "",
                         ageGroup: "",
-                        description: ""
+                        description: "",
+                        format: DEFAULT_SPORT_FORMAT,
+                        maxBenchSize: sportFormats[DEFAULT_SPORT_FORMAT].maxBenchSize
                       });
                     }}
                   >
@@ -317,7 +338,61 @@ export default function TeamManagement() {
                               <Input placeholder="e.g. U16, Seniors, Masters" {...field} />
                             </FormControl>
                             <FormDescription>
-                              The age category for this team
+                              The age category for this team. Players in an "Under N" team must be under N on 1 January.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={form.control}
+                        name="format"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Format</FormLabel>
+                            <Select
+                              value={field.value}
+                              onValueChange={(value) => {
+                                field.onChange(value);
+                                // A new team starts with the bench its format allows
+                                if (!selectedTeam) {
+                                  form.setValue("maxBenchSize", getSportFormat(value).maxBenchSize);
+                                }
+                              }}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select format" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {sportFormatIds.map(id => (
+                                  <SelectItem key={id} value={id}>
+                                    {sportFormats[id].name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              Sets the team's positions, starters, match length and scoring
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={form.control}
+                        name="maxBenchSize"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Bench Size</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={0} {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              The most interchange players a team sheet can name
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -359,7 +434,9 @@ export default function TeamManagement() {
                               form.reset({
                                 name: "",
                                 ageGroup: "",
-                                description: ""
+                                description: "",
+                                format: DEFAULT_SPORT_FORMAT,
+                                maxBenchSize: sportFormats[DEFAULT_SPORT_FORMAT].maxBenchSize
                               });
                             }}
                           >
@@ -420,6 +497,10 @@ export default function TeamManagement() {
             </CardFooter>
           </Card>
         </TabsContent>
+        
+        <TabsContent value="competitions" className="space-y-4 pt-4">
+          <CompetitionManager />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,6 +1,16 @@
 import { create } from 'zustand';
-import { Game, Stat, TimerState } from '@/types';
-import { apiRequest } from '@/lib/queryClient';
+import { ClockEvent, Game, GameClock, Stat, StatType } from '@/types';
+import {
+  ClockEventType,
+  ClockState,
+  deriveClockState,
+  getClockEventPeriod,
+  getClockTransitionError
+} from '@shared/clock';
+import { getCardTypeForStat } from '@shared/discipline';
+import { createClientId, getOperation } from '@/lib/sync-queue';
+import { onRejected, onSynced, useSyncStore } from '@/store/sync-store';
+import { usePlayerStore } from '@/store/player-store';
 
 interface GameStats {
   [playerId: number]: {
@@ -8,39 +18,90 @@ interface GameStats {
   };
 }
 
+interface ActivityEntry {
+  id: number | null; // server id of the recorded stat, null until it has synced
+  clientId: string;
+  timestamp: number;
+  playerId: number;
+  playerName: string;
+  playerNumber: number;
+  statType: string;
+  value: number;
+}
+
+// Fields of a recorded stat that can be corrected after the fact; a new type
+// goes by its id on the server and by its name here
+type StatChanges = Partial<Pick<Stat, 'playerId' | 'value' | 'gameTime' | 'period'>> & {
+  statType?: Pick<StatType, 'id' | 'name'>;
+};
+
+// Maximum number of stats that can be undone in a row
+const UNDO_LIMIT = 50;
+
+// Where corrections to a recorded stat go; until it has synced, the server
+// finds it by the game and the client id it was queued under
+const getStatUrl = (gameId: number, entry: ActivityEntry) =>
+  entry.id !== null ? `/api/stats/${entry.id}` : `/api/games/${gameId}/stats/by-client-id/${entry.clientId}`;
+
+// Return a copy of gameStats with delta applied to one player's stat
+const adjustGameStats = (gameStats: GameStats, playerId: number, statType: string, delta: number): GameStats => {
+  const playerStats = { ...gameStats[playerId] };
+  playerStats[statType] = (playerStats[statType] || 0) + delta;
+  return { ...gameStats, [playerId]: playerStats };
+};
+
 interface GameState {
   // Current game state
   currentGame: Game | null;
   isGameActive: boolean;
   gameStats: GameStats;
-  activityLog: Array<{
-    id: number;
-    timestamp: number;
-    playerId: number;
-    playerName: string;
-    playerNumber: number;
-    statType: string;
-    value: number;
-  }>;
+  activityLog: ActivityEntry[];
+  
+  // Client ids of stats recorded this session, most recent last
+  undoStack: string[];
   
-  // Timer state
-  timer: TimerState;
+  // Match clock - events stored on the game, from which every device derives the time
+  clockEvents: ClockEvent[];
+  clockOffset: number; // server time minus device time, in milliseconds
   
   // Actions
   setCurrentGame: (game: Game) => void;
+  getClock: () => ClockState;
+  recordClockEvent: (type: ClockEventType, seconds?: number) => Promise<void>;
   startGame: () => void;
   pauseTimer: () => void;
   resumeTimer: () => void;
-  nextHalf: () => void;
-  endGame: () => void;
+  nextHalf: () => Promise<void>;
+  addTime: (seconds: number) => void;
+  endGame: () => Promise<void>;
   resetGame: () => void;
   updateGameState: (gameState: Partial<Game>) => void;
   
   // Stat recording
-  recordStat: (playerId: number, playerName: string, playerNumber: number, statType: string, value: number) => void;
+  recordStat: (
+    playerId: number,
+    playerName: string,
+    playerNumber: number,
+    statType: Pick<StatType, 'id' | 'name'>,
+    value: number,
+    timing?: { gameTime?: number | null; period?: number }
+  ) => Promise<void>;
+  updateStat: (clientId: string, changes: StatChanges, player?: { name: string; number: number }) => Promise<void>;
+  deleteStat: (clientId: string) => Promise<void>;
+  undoLastStat: () => Promise<void>;
+  markStatSynced: (clientId: string, stat: Stat) => void;
+  markClockEventSynced: (clientId: string, event: ClockEvent) => void;
+  rollBackStat: (clientId: string) => void;
+  rollBackClockEvent: (clientId: string) => void;
+  
+  // Updates pushed from other devices following the game
+  applyRemoteStat: (stat: Stat) => void;
+  applyRemoteStatDeletion: (statId: number) => void;
+  applyRemoteClockEvent: (event: ClockEvent) => void;
   
   // Data loading
   loadGameData: (gameId: number) => Promise<void>;
+  loadClock: (gameId: number) => Promise<void>;
 }
 
 export const useGameStore = create<GameState>((set, get) => ({
@@ -49,96 +110,129 @@ export const useGameStore = create<GameState>((set, get) => ({
   isGameActive: false,
   gameStats: {},
   activityLog: [],
+  undoStack: [],
   
-  // Timer state
-  timer: {
-    isRunning: false,
-    currentHalf: 1,
-    currentTime: 2400, // Default 40 minutes in seconds
-    halfLength: 40,    // Default 40 minutes
-    numberOfHalves: 2  // Default 2 halves
-  },
+  // Match clock
+  clockEvents: [],
+  clockOffset: 0,
   
   // Set current game
-  setCurrentGame: (game: Game) => set({ 
+  setCurrentGame: (game: Game) => set(state => ({
     currentGame: game,
-    timer: {
-      ...get().timer,
-      currentTime: game.halfLength * 60,
-      halfLength: game.halfLength,
-      numberOfHalves: game.numberOfHalves
-    }
-  }),
+    clockEvents: state.clockEvents.filter(event => event.gameId === game.id)
+  })),
   
-  // Start game
-  startGame: () => set({ 
-    isGameActive: true,
-    timer: {
-      ...get().timer,
-      isRunning: true
+  // Derive the clock as it stands now
+  getClock: () => {
+    const { currentGame, clockEvents, clockOffset } = get();
+    
+    return deriveClockState(
+      clockEvents,
+      currentGame?.halfLength ?? 40,
+      currentGame?.numberOfHalves ?? 2,
+      Date.now() + clockOffset
+    );
+  },
+  
+  // Apply a clock event locally, then queue it for the server
+  recordClockEvent: async (type: ClockEventType, seconds?: number) => {
+    const { currentGame, clockOffset } = get();
+    if (!currentGame) return;
+    
+    const clock = get().getClock();
+    if (getClockTransitionError(clock, type, currentGame.numberOfHalves)) return;
+    
+    const clientId = createClientId();
+    const event: ClockEvent = {
+      gameId: currentGame.id,
+      type,
+      period: getClockEventPeriod(clock, type),
+      seconds: seconds ?? null,
+      occurredAt: new Date(Date.now() + clockOffset).toISOString(),
+      clientId
+    };
+    
+    set(state => ({ clockEvents: [...state.clockEvents, event] }));
+    
+    try {
+      await useSyncStore.getState().enqueue({
+        clientId,
+        kind: 'timer',
+        method: 'POST',
+        url: `/api/games/${currentGame.id}/clock`,
+        body: {
+          type,
+          seconds: event.seconds,
+          occurredAt: event.occurredAt,
+          clientId
+        }
+      });
+    } catch (error) {
+      console.error('Failed to record clock event:', error);
     }
-  }),
+  },
+  
+  // Start game, or the next period once the previous one has ended
+  startGame: () => {
+    set({ isGameActive: true });
+    get().recordClockEvent('start');
+  },
   
   // Pause timer
-  pauseTimer: () => set({
-    timer: {
-      ...get().timer,
-      isRunning: false
-    }
-  }),
+  pauseTimer: () => {
+    get().recordClockEvent('pause');
+  },
   
   // Resume timer
-  resumeTimer: () => set({
-    timer: {
-      ...get().timer,
-      isRunning: true
-    }
-  }),
+  resumeTimer: () => {
+    get().recordClockEvent('resume');
+  },
   
-  // Next half
-  nextHalf: () => {
-    const currentState = get();
-    const nextHalf = currentState.timer.currentHalf + 1;
+  // End the current period; the next one starts when the clock is started again
+  nextHalf: async () => {
+    const { currentGame } = get();
+    const clock = get().getClock();
     
     // If we've completed all halves, end the game
-    if (nextHalf > currentState.timer.numberOfHalves) {
-      get().endGame();
+    if (currentGame && clock.period >= currentGame.numberOfHalves) {
+      await get().endGame();
       return;
     }
     
-    // Otherwise, set up the next half
-    set({
-      timer: {
-        ...currentState.timer,
-        currentHalf: nextHalf,
-        currentTime: currentState.timer.halfLength * 60,
-        isRunning: false
-      }
-    });
+    await get().recordClockEvent('end_period');
+  },
+  
+  // Add stoppage time to the current period
+  addTime: (seconds: number) => {
+    get().recordClockEvent('added_time', seconds);
   },
   
   // End game
-  endGame: () => {
+  endGame: async () => {
     const currentGame = get().currentGame;
     
-    if (currentGame) {
-      // Update game to completed status
-      apiRequest('POST', `/api/games/${currentGame.id}/complete`, {
-        homeScore: currentGame.homeScore,
-        awayScore: currentGame.awayScore,
-        isCompleted: true
-      }).catch(error => {
-        console.error('Failed to complete game:', error);
+    set({ isGameActive: false });
+    
+    if (!currentGame) return;
+    
+    try {
+      // Stop the clock first so it's queued ahead of the completion
+      await get().recordClockEvent('end_period');
+      
+      // Update game to completed status, queued in case we're offline
+      await useSyncStore.getState().enqueue({
+        clientId: createClientId(),
+        kind: 'timer',
+        method: 'POST',
+        url: `/api/games/${currentGame.id}/complete`,
+        body: {
+          homeScore: currentGame.homeScore,
+          awayScore: currentGame.awayScore
+        }
       });
+    } catch (error) {
+      console.error('Failed to complete game:', error);
     }
-    
-    set({
-      isGameActive: false,
-      timer: {
-        ...get().timer,
-        isRunning: false
-      }
-    });
   },
   
   // Reset game state
@@ -147,13 +241,8 @@ export const useGameStore = create<GameState>((set, get) => ({
     isGameActive: false,
     gameStats: {},
     activityLog: [],
-    timer: {
-      isRunning: false,
-      currentHalf: 1,
-      currentTime: 2400,
-      halfLength: 40,
-      numberOfHalves: 2
-    }
+    undoStack: [],
+    clockEvents: []
   }),
   
   // Update game state
@@ -170,62 +259,279 @@ export const useGameStore = create<GameState>((set, get) => ({
   },
   
   // Record a stat
-  recordStat: async (playerId: number, playerName: string, playerNumber: number, statType: string, value: number) => {
-    const { currentGame, timer } = get();
+  recordStat: async (
+    playerId: number,
+    playerName: string,
+    playerNumber: number,
+    statType: Pick<StatType, 'id' | 'name'>,
+    value: number,
+    timing?: { gameTime?: number | null; period?: number }
+  ) => {
+    const { currentGame } = get();
     
     if (!currentGame) return;
     
-    // Calculate game time in minutes
-    const gameTime = (timer.halfLength * 60) - timer.currentTime;
+    // Take game time in minutes from the match clock unless the caller supplied it
+    const clock = get().getClock();
+    
+    // Cards take the player off the field; the server records the stat alongside the card
+    const cardType = getCardTypeForStat(statType.name);
+    if (cardType) {
+      await usePlayerStore.getState().issueCard(currentGame.id, playerId, cardType, clock, currentGame.sinBinMinutes);
+      return;
+    }
+    
+    const gameTime = timing?.gameTime !== undefined
+      ? timing.gameTime
+      : clock.matchSeconds / 60;
     
-    // Create the stat object
-    const stat: Omit<Stat, 'id'> = {
+    // Create the stat object with an id of our own so replays aren't duplicated
+    const clientId = createClientId();
+    const stat = {
+      clientId,
       gameId: currentGame.id,
       playerId,
-      statType,
+      statTypeId: statType.id,
+      statType: statType.name,
       value,
       gameTime,
-      period: timer.currentHalf
+      period: timing?.period ?? clock.period
     };
     
-    try {
-      // Save to the API
-      const response = await apiRequest('POST', '/api/stats', stat);
-      const savedStat = await response.json();
+    // Update local state straight away - the stat syncs whenever we're online
+    set(state => {
+      const gameStats = adjustGameStats(state.gameStats, playerId, statType.name, value);
       
-      // Update local state
-      set(state => {
-        // Update game stats
-        const gameStats = { ...state.gameStats };
-        if (!gameStats[playerId]) {
-          gameStats[playerId] = {};
-        }
-        if (!gameStats[playerId][statType]) {
-          gameStats[playerId][statType] = 0;
-        }
-        gameStats[playerId][statType] += value;
-        
-        // Add to activity log
-        const activityLog = [
-          {
-            id: Date.now(),
-            timestamp: gameTime,
-            playerId,
-            playerName,
-            playerNumber,
-            statType,
-            value
-          },
-          ...state.activityLog
-        ].slice(0, 100); // Keep only the last 100 activities
-        
-        return { gameStats, activityLog };
+      // Add to activity log
+      const activityLog = [
+        {
+          id: null,
+          clientId,
+          timestamp: gameTime ?? 0,
+          playerId,
+          playerName,
+          playerNumber,
+          statType: statType.name,
+          value
+        },
+        ...state.activityLog
+      ].slice(0, 100); // Keep only the last 100 activities
+      
+      const undoStack = [...state.undoStack, clientId].slice(-UNDO_LIMIT);
+      
+      return { gameStats, activityLog, undoStack };
+    });
+    
+    try {
+      await useSyncStore.getState().enqueue({
+        clientId,
+        kind: 'stat',
+        method: 'POST',
+        url: '/api/stats',
+        body: stat
       });
     } catch (error) {
       console.error('Failed to record stat:', error);
     }
   },
   
+  // Correct a recorded stat (wrong player, type, value or time)
+  updateStat: async (clientId: string, changes: StatChanges, player?: { name: string; number: number }) => {
+    const gameId = get().currentGame?.id;
+    const previous = get().activityLog.find(entry => entry.clientId === clientId);
+    if (!previous || gameId === undefined) return;
+    
+    set(state => {
+      let gameStats = adjustGameStats(state.gameStats, previous.playerId, previous.statType, -previous.value);
+      gameStats = adjustGameStats(
+        gameStats,
+        changes.playerId ?? previous.playerId,
+        changes.statType?.name ?? previous.statType,
+        changes.value ?? previous.value
+      );
+      
+      const activityLog = state.activityLog.map(entry => entry.clientId !== clientId ? entry : {
+        ...entry,
+        timestamp: changes.gameTime ?? entry.timestamp,
+        playerId: changes.playerId ?? entry.playerId,
+        playerName: player?.name ?? entry.playerName,
+        playerNumber: player?.number ?? entry.playerNumber,
+        statType: changes.statType?.name ?? entry.statType,
+        value: changes.value ?? entry.value
+      });
+      
+      return { gameStats, activityLog };
+    });
+    
+    // The server prefers the type's id to its name, so both are sent
+    const { statType, ...otherChanges } = changes;
+    const body = statType ? { ...otherChanges, statTypeId: statType.id, statType: statType.name } : otherChanges;
+    
+    try {
+      const sync = useSyncStore.getState();
+      
+      // Not sent yet - fix the queued copy instead
+      if (await sync.amend(clientId, body)) return;
+      
+      await sync.enqueue({
+        clientId: createClientId(),
+        kind: 'stat',
+        method: 'PATCH',
+        url: getStatUrl(gameId, get().activityLog.find(entry => entry.clientId === clientId) ?? previous),
+        body
+      });
+    } catch (error) {
+      console.error('Failed to update stat:', error);
+    }
+  },
+  
+  // Remove a recorded stat
+  deleteStat: async (clientId: string) => {
+    const gameId = get().currentGame?.id;
+    const previous = get().activityLog.find(entry => entry.clientId === clientId);
+    if (!previous || gameId === undefined) return;
+    
+    set(state => ({
+      gameStats: adjustGameStats(state.gameStats, previous.playerId, previous.statType, -previous.value),
+      activityLog: state.activityLog.filter(entry => entry.clientId !== clientId),
+      undoStack: state.undoStack.filter(id => id !== clientId)
+    }));
+    
+    try {
+      const sync = useSyncStore.getState();
+      
+      // Never reached the server - just forget it
+      if (await sync.discard(clientId)) return;
+      
+      // Queued behind the stat itself if that's still on its way
+      await sync.enqueue({
+        clientId: createClientId(),
+        kind: 'stat',
+        method: 'DELETE',
+        url: getStatUrl(gameId, previous)
+      });
+    } catch (error) {
+      console.error('Failed to delete stat:', error);
+    }
+  },
+  
+  // Reverse the most recently recorded stat
+  undoLastStat: async () => {
+    const lastClientId = get().undoStack[get().undoStack.length - 1];
+    if (!lastClientId) return;
+    
+    await get().deleteStat(lastClientId);
+  },
+  
+  // Record the server id once a queued stat has been accepted
+  markStatSynced: (clientId: string, stat: Stat) => {
+    set(state => ({
+      activityLog: state.activityLog.map(entry =>
+        entry.clientId === clientId ? { ...entry, id: stat.id } : entry
+      )
+    }));
+  },
+  
+  // Swap the optimistic copy of a clock event for the server's
+  markClockEventSynced: (clientId: string, event: ClockEvent) => {
+    set(state => ({
+      clockEvents: state.clockEvents.map(existing => existing.clientId === clientId ? event : existing)
+    }));
+  },
+  
+  // Take back a stat the server refused to record; one it has already
+  // confirmed (say through another tab's replay) stays
+  rollBackStat: (clientId: string) => {
+    const existing = get().activityLog.find(entry => entry.clientId === clientId);
+    if (!existing || existing.id !== null) return;
+    
+    set(state => ({
+      gameStats: adjustGameStats(state.gameStats, existing.playerId, existing.statType, -existing.value),
+      activityLog: state.activityLog.filter(entry => entry !== existing),
+      undoStack: state.undoStack.filter(id => id !== clientId)
+    }));
+  },
+  
+  // Take back a clock event the server refused, e.g. one another device beat us to
+  rollBackClockEvent: (clientId: string) => {
+    set(state => ({
+      clockEvents: state.clockEvents.filter(event => event.id !== undefined || event.clientId !== clientId)
+    }));
+  },
+  
+  // Add or update a stat recorded elsewhere; stats this device already shows
+  // only have their values brought in line, so echoes of our own changes are harmless
+  applyRemoteStat: (stat: Stat) => {
+    const { currentGame, activityLog } = get();
+    if (currentGame?.id !== stat.gameId) return;
+    
+    const existing = activityLog.find(entry =>
+      entry.id === stat.id || (stat.clientId != null && entry.clientId === stat.clientId)
+    );
+    
+    // Our own stat being confirmed - local values may already be newer
+    if (existing && existing.id === null) {
+      get().markStatSynced(existing.clientId, stat);
+      return;
+    }
+    
+    const { players, gamePlayers } = usePlayerStore.getState();
+    const player = gamePlayers.find(p => p.id === stat.playerId) || players.find(p => p.id === stat.playerId);
+    
+    set(state => {
+      let gameStats = state.gameStats;
+      if (existing) {
+        gameStats = adjustGameStats(gameStats, existing.playerId, existing.statType, -existing.value);
+      }
+      gameStats = adjustGameStats(gameStats, stat.playerId, stat.statType, stat.value);
+      
+      const entry: ActivityEntry = {
+        id: stat.id,
+        clientId: existing?.clientId ?? stat.clientId ?? `stat-${stat.id}`,
+        timestamp: stat.gameTime ?? 0,
+        playerId: stat.playerId,
+        playerName: player?.name ?? existing?.playerName ?? `Player #${stat.playerId}`,
+        playerNumber: player?.number ?? existing?.playerNumber ?? 0,
+        statType: stat.statType,
+        value: stat.value
+      };
+      
+      const activityLog = existing
+        ? state.activityLog.map(other => other === existing ? entry : other)
+        : [entry, ...state.activityLog].slice(0, 100);
+      
+      return { gameStats, activityLog };
+    });
+  },
+  
+  // Remove a stat deleted elsewhere (a no-op when we deleted it ourselves)
+  applyRemoteStatDeletion: (statId: number) => {
+    const existing = get().activityLog.find(entry => entry.id === statId);
+    if (!existing) return;
+    
+    set(state => ({
+      gameStats: adjustGameStats(state.gameStats, existing.playerId, existing.statType, -existing.value),
+      activityLog: state.activityLog.filter(entry => entry !== existing),
+      undoStack: state.undoStack.filter(id => id !== existing.clientId)
+    }));
+  },
+  
+  // Add a clock event recorded elsewhere, or the server's copy of our own
+  applyRemoteClockEvent: (event: ClockEvent) => {
+    if (get().currentGame?.id !== event.gameId) return;
+    
+    set(state => {
+      const isSame = (other: ClockEvent) =>
+        other.id === event.id || (event.clientId != null && other.clientId === event.clientId);
+      
+      return {
+        clockEvents: state.clockEvents.some(isSame)
+          ? state.clockEvents.map(other => isSame(other) ? event : other)
+          : [...state.clockEvents, event]
+      };
+    });
+  },
+  
   // Load game data from the API
   loadGameData: async (gameId: number) => {
     try {
@@ -254,17 +560,68 @@ export const useGameStore = create<GameState>((set, get) => ({
       // Set state
       set({
         currentGame: game,
-        gameStats,
-        timer: {
-          isRunning: false,
-          currentHalf: 1,
-          currentTime: game.halfLength * 60,
-          halfLength: game.halfLength,
-          numberOfHalves: game.numberOfHalves
-        }
+        gameStats
       });
+      
+      await get().loadClock(gameId);
     } catch (error) {
       console.error('Error loading game data:', error);
     }
+  },
+  
+  // Load the match clock, keeping local clock events that are still waiting to sync
+  loadClock: async (gameId: number) => {
+    try {
+      const response = await fetch(`/api/games/${gameId}/clock`);
+      if (!response.ok) throw new Error('Failed to load match clock');
+      const clock: GameClock = await response.json();
+      
+      const syncedClientIds = new Set(clock.events.map(event => event.clientId));
+      const unsynced = get().clockEvents.filter(event =>
+        event.gameId === gameId && event.id === undefined && !syncedClientIds.has(event.clientId)
+      );
+      
+      // Events the server rejected are no longer queued and should disappear
+      const pending = [];
+      for (const event of unsynced) {
+        if (event.clientId && await getOperation(event.clientId)) {
+          pending.push(event);
+        }
+      }
+      
+      set({
+        clockEvents: [...clock.events, ...pending],
+        clockOffset: new Date(clock.serverTime).getTime() - Date.now()
+      });
+    } catch (error) {
+      console.error('Error loading match clock:', error);
+    }
   }
 }));
+
+// Newly created stats get their server id once the queue replays them
+onSynced('stat', (operation, response) => {
+  if (operation.method === 'POST' && response) {
+    useGameStore.getState().markStatSynced(operation.clientId, response as Stat);
+  }
+});
+
+// Clock events take the server's copy, whose timestamp may have been clamped
+onSynced('timer', (operation, response) => {
+  if (operation.url.endsWith('/clock') && response) {
+    useGameStore.getState().markClockEventSynced(operation.clientId, response as ClockEvent);
+  }
+});
+
+// Stats and clock events the server turned down disappear again
+onRejected('stat', (operation) => {
+  if (operation.method === 'POST') {
+    useGameStore.getState().rollBackStat(operation.clientId);
+  }
+});
+
+onRejected('timer', (operation) => {
+  if (operation.url.endsWith('/clock')) {
+    useGameStore.getState().rollBackClockEvent(operation.clientId);
+  }
+});
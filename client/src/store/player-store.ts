@@ -1,6 +1,11 @@
 import { create } from 'zustand';
-import { Player, PlayerWithPosition, GamePlayer } from '@/types';
+import { Card, Player, PlayerWithPosition, GamePlayer } from '@/types';
+import { CardType, isOffField } from '@shared/discipline';
+import type { ClockState } from '@shared/clock';
+import { isBenchNomination, isStartingNumber } from '@shared/team-sheet';
 import { apiRequest } from '@/lib/queryClient';
+import { PendingOperation, createClientId, getOperation } from '@/lib/sync-queue';
+import { onRejected, onSynced, useSyncStore } from '@/store/sync-store';
 
 interface PlayerState {
   // Player collections
@@ -9,6 +14,9 @@ interface PlayerState {
   activePlayers: PlayerWithPosition[];
   benchPlayers: Player[];
   
+  // Cards shown this game - sin-binned and sent-off players are off the field
+  cards: Card[];
+  
   // Selected player for tracking
   selectedPlayer: PlayerWithPosition | null;
   
@@ -23,8 +31,13 @@ interface PlayerState {
   clearSelectedPlayer: () => void;
   
   // Game player management
-  assignPlayerToPosition: (playerId: number, position: string, number: number, gameId: number) => Promise<void>;
-  substitutePlayer: (gameId: number, outPlayerId: number, inPlayerId: number, time: number) => Promise<boolean>;
+  assignPlayerToPosition: (playerId: number, position: string, number: number, gameId: number, startingPositions: number) => Promise<void>;
+  substitutePlayer: (gameId: number, outPlayerId: number, inPlayerId: number, time: number, period?: number) => Promise<boolean>;
+  
+  // Discipline
+  issueCard: (gameId: number, playerId: number, type: CardType, clock: ClockState, sinBinMinutes?: number) => Promise<boolean>;
+  returnFromSinBin: (card: Card, clock: ClockState) => Promise<void>;
+  markCardSynced: (clientId: string, card: Card) => void;
   
   // Data loading
   loadPlayersForGame: (gameId: number) => Promise<void>;
@@ -36,6 +49,7 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
   gamePlayers: [],
   activePlayers: [],
   benchPlayers: [],
+  cards: [],
   selectedPlayer: null,
   isLoading: false,
   error: null,
@@ -45,11 +59,17 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
   
   // Set game players and calculate active and bench players
   setGamePlayers: (gamePlayers: PlayerWithPosition[]) => {
-    const activePlayers = gamePlayers.filter(gp => !gp.endTime);
+    const { cards } = get();
+    const activePlayers = gamePlayers.filter(gp => !gp.endTime && !isBenchNomination(gp) && !isOffField(cards, gp.id));
     
-    // Calculate bench players (all players not active in game)
+    // Calculate bench players (all players not active in game or serving a card).
+    // Once a bench is named on the team sheet only those players can come on.
     const activePlayerIds = new Set(activePlayers.map(p => p.id));
-    const benchPlayers = get().players.filter(p => !activePlayerIds.has(p.id));
+    const hasNamedBench = gamePlayers.some(isBenchNomination);
+    const lineupPlayerIds = new Set(gamePlayers.map(gp => gp.id));
+    const benchPlayers = get().players.filter(p =>
+      !activePlayerIds.has(p.id) && !isOffField(cards, p.id) && (!hasNamedBench || lineupPlayerIds.has(p.id))
+    );
     
     set({ gamePlayers, activePlayers, benchPlayers });
   },
@@ -64,17 +84,19 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
   clearSelectedPlayer: () => set({ selectedPlayer: null }),
   
   // Assign a player to a position in a game
-  assignPlayerToPosition: async (playerId: number, position: string, number: number, gameId: number) => {
+  // Starters are numbered up to the starting positions of the game's format
+  assignPlayerToPosition: async (playerId: number, position: string, number: number, gameId: number, startingPositions: number) => {
     try {
       set({ isLoading: true, error: null });
       
+      const isStarter = isStartingNumber(number, startingPositions);
       const gamePlayerData: Omit<GamePlayer, 'id'> = {
         gameId,
         playerId,
         position,
         number,
-        isStarter: number <= 15, // Players 1-15 are starters
-        startTime: 0, // Start at beginning of game
+        isStarter,
+        startTime: isStarter ? 0 : null, // Starters are on from kick-off; the bench is only named
         endTime: null // No end time yet
       };
       
@@ -97,37 +119,136 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
     }
   },
   
-  // Substitute a player during a game
-  substitutePlayer: async (gameId: number, outPlayerId: number, inPlayerId: number, time: number) => {
+  // Substitute a player during a game - applied locally at once and synced when online
+  substitutePlayer: async (gameId: number, outPlayerId: number, inPlayerId: number, time: number, period?: number) => {
+    const outgoing = get().gamePlayers.find(gp => gp.id === outPlayerId && !gp.endTime);
+    
+    if (!outgoing) {
+      set({ error: 'Player is not on the field' });
+      return false;
+    }
+    
+    const incomingPlayer = get().players.find(p => p.id === inPlayerId)
+      || { id: inPlayerId, name: `Player #${inPlayerId}`, isActive: true };
+    
+    // The incoming player takes the same number and position; their
+    // gamePlayerId is filled in when the lineup reloads after syncing
+    const incoming: PlayerWithPosition = {
+      ...incomingPlayer,
+      gamePlayerId: 0,
+      number: outgoing.number,
+      position: outgoing.position,
+      isStarter: false,
+      startTime: time
+    };
+    
+    get().setGamePlayers([
+      ...get().gamePlayers.map(gp => gp === outgoing ? { ...gp, endTime: time } : gp),
+      incoming
+    ]);
+    
     try {
-      set({ isLoading: true, error: null });
-      
-      const substitutionData = {
-        outPlayerId,
-        inPlayerId,
-        time
-      };
+      const clientId = createClientId();
       
-      const response = await apiRequest('POST', `/api/games/${gameId}/substitutions`, substitutionData);
-      
-      if (!response.ok) {
-        throw new Error('Failed to substitute player');
-      }
+      await useSyncStore.getState().enqueue({
+        clientId,
+        kind: 'substitution',
+        method: 'POST',
+        url: `/api/games/${gameId}/substitutions`,
+        body: { gameId, outPlayerId, inPlayerId, time, period, clientId }
+      });
       
-      // Reload players for the game to get updated data
-      await get().loadPlayersForGame(gameId);
+      return true;
+    } catch (error) {
+      set({ 
+        error: error instanceof Error ? error.message : 'An unknown error occurred' 
+      });
+      return false;
+    }
+  },
+  
+  // Show a card - the player leaves the field at once and the card syncs when online
+  issueCard: async (gameId: number, playerId: number, type: CardType, clock: ClockState, sinBinMinutes = 10) => {
+    const { cards, activePlayers } = get();
+    
+    if (!activePlayers.some(p => p.id === playerId) && !(type === 'red' && isOffField(cards, playerId))) {
+      set({ error: 'Player is not on the field' });
+      return false;
+    }
+    
+    const clientId = createClientId();
+    const card: Card = {
+      gameId,
+      playerId,
+      type,
+      period: clock.period,
+      issuedAt: clock.playedSeconds,
+      durationSeconds: type === 'yellow' ? sinBinMinutes * 60 : null,
+      returnedAt: null,
+      clientId
+    };
+    
+    set({ cards: [...cards, card] });
+    get().setGamePlayers(get().gamePlayers);
+    
+    try {
+      await useSyncStore.getState().enqueue({
+        clientId,
+        kind: 'card',
+        method: 'POST',
+        url: `/api/games/${gameId}/cards`,
+        body: { playerId, type, clientId }
+      });
       
-      set({ isLoading: false });
       return true;
     } catch (error) {
       set({ 
-        isLoading: false, 
         error: error instanceof Error ? error.message : 'An unknown error occurred' 
       });
       return false;
     }
   },
   
+  // Bring a sin-binned player back onto the field
+  returnFromSinBin: async (card: Card, clock: ClockState) => {
+    const isSameCard = (other: Card) => card.id !== undefined ? other.id === card.id : other.clientId === card.clientId;
+    
+    set(state => ({
+      cards: state.cards.map(other => isSameCard(other) ? { ...other, returnedAt: clock.playedSeconds } : other)
+    }));
+    get().setGamePlayers(get().gamePlayers);
+    
+    // Until the card has synced the server finds it by its client id, and
+    // the return is queued behind it
+    const cardId = card.id ?? get().cards.find(other => other.clientId === card.clientId)?.id;
+    const url = cardId !== undefined
+      ? `/api/games/${card.gameId}/cards/${cardId}/return`
+      : `/api/games/${card.gameId}/cards/by-client-id/${card.clientId}/return`;
+    
+    try {
+      await useSyncStore.getState().enqueue({
+        clientId: createClientId(),
+        kind: 'card',
+        method: 'POST',
+        url
+      });
+    } catch (error) {
+      set({ 
+        error: error instanceof Error ? error.message : 'An unknown error occurred' 
+      });
+    }
+  },
+  
+  // Swap the optimistic copy of a card for the server's, keeping a return made in the meantime
+  markCardSynced: (clientId: string, card: Card) => {
+    set(state => ({
+      cards: state.cards.map(other => other.clientId === clientId
+        ? { ...card, returnedAt: other.returnedAt ?? card.returnedAt }
+        : other
+      )
+    }));
+  },
+  
   // Load all players and game players for a specific game
   loadPlayersForGame: async (gameId: number) => {
     try {
@@ -143,6 +264,21 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
       if (!gamePlayersResponse.ok) throw new Error('Failed to load game players');
       const gamePlayers = await gamePlayersResponse.json();
       
+      // Load cards, keeping ones shown on this device that haven't synced yet
+      const cardsResponse = await fetch(`/api/games/${gameId}/cards`);
+      if (!cardsResponse.ok) throw new Error('Failed to load cards');
+      const syncedCards: Card[] = await cardsResponse.json();
+      const syncedClientIds = new Set(syncedCards.map(card => card.clientId));
+      const cards = [...syncedCards];
+      for (const card of get().cards) {
+        if (card.gameId !== gameId || card.id !== undefined || syncedClientIds.has(card.clientId)) continue;
+        
+        // Cards the server rejected are no longer queued and should disappear
+        if (card.clientId && await getOperation(card.clientId)) {
+          cards.push(card);
+        }
+      }
+      
       // Combine player data with game player data to create PlayerWithPosition objects
       const playersWithPositions: PlayerWithPosition[] = gamePlayers.map((gp: GamePlayer) => {
         const player = players.find((p: Player) => p.id === gp.playerId);
@@ -173,7 +309,7 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
       });
       
       // Set players and game players
-      set({ players, isLoading: false });
+      set({ players, cards, isLoading: false });
       get().setGamePlayers(playersWithPositions);
     } catch (error) {
       set({ 
@@ -183,3 +319,36 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
     }
   }
 }));
+
+// Cards take their server id once synced; a red card also closes the player's stint
+onSynced('card', (operation, response) => {
+  if (operation.url.endsWith('/cards') && response) {
+    const card = response as Card;
+    usePlayerStore.getState().markCardSynced(operation.clientId, card);
+    
+    if (card.type === 'red') {
+      usePlayerStore.getState().loadPlayersForGame(card.gameId);
+    }
+  }
+});
+
+// Reload the lineup once a queued substitution reaches the server
+onSynced('substitution', (operation) => {
+  const gameId = Number(operation.body?.gameId);
+  if (gameId) {
+    usePlayerStore.getState().loadPlayersForGame(gameId);
+  }
+});
+
+// The game a queued request is for, from its /api/games/:id/... url
+const getOperationGameId = (operation: PendingOperation) => Number(operation.url.split('/')[3]);
+
+// A refused substitution, card or return leaves the lineup as the server has
+// it, so reload that; cards that never synced drop out as they're no longer queued
+onRejected('substitution', (operation) => {
+  usePlayerStore.getState().loadPlayersForGame(getOperationGameId(operation));
+});
+
+onRejected('card', (operation) => {
+  usePlayerStore.getState().loadPlayersForGame(getOperationGameId(operation));
+});
@@ -0,0 +1,175 @@
+import { create } from 'zustand';
+import {
+  PendingOperation,
+  SyncKind,
+  countOperations,
+  deleteOperation,
+  getOperation,
+  getOperations,
+  putOperation
+} from '@/lib/sync-queue';
+import { toast } from '@/hooks/use-toast';
+
+// How often to retry while operations are waiting and no 'online' event arrives
+const RETRY_INTERVAL_MS = 30000;
+
+type SyncHandler = (operation: PendingOperation, response: unknown) => void;
+
+// Callbacks run once the server has accepted an operation of a given kind
+const syncHandlers: Partial<Record<SyncKind, SyncHandler[]>> = {};
+
+export function onSynced(kind: SyncKind, handler: SyncHandler) {
+  syncHandlers[kind] = [...(syncHandlers[kind] || []), handler];
+}
+
+type RejectionHandler = (operation: PendingOperation, message: string) => void;
+
+// Callbacks run when the server turns an operation down for good, so
+// whatever was applied optimistically can be undone
+const rejectionHandlers: Partial<Record<SyncKind, RejectionHandler[]>> = {};
+
+export function onRejected(kind: SyncKind, handler: RejectionHandler) {
+  rejectionHandlers[kind] = [...(rejectionHandlers[kind] || []), handler];
+}
+
+const rejectionTitles: Record<SyncKind, string> = {
+  stat: 'Stat not saved',
+  substitution: 'Substitution not saved',
+  timer: 'Clock change not saved',
+  card: 'Card not saved'
+};
+
+// The server's reason for turning down a request
+async function getRejectionMessage(response: Response): Promise<string> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text).message || text;
+  } catch {
+    return text || response.statusText;
+  }
+}
+
+interface SyncState {
+  pendingCount: number;
+  isSyncing: boolean;
+  inFlightClientId: string | null;
+
+  // Queue management
+  enqueue: (operation: Omit<PendingOperation, 'createdAt'>) => Promise<void>;
+  amend: (clientId: string, changes: Record<string, unknown>) => Promise<boolean>;
+  discard: (clientId: string) => Promise<boolean>;
+
+  // Replay queued operations against the server
+  flush: () => Promise<void>;
+  refreshPendingCount: () => Promise<void>;
+}
+
+export const useSyncStore = create<SyncState>((set, get) => ({
+  pendingCount: 0,
+  isSyncing: false,
+  inFlightClientId: null,
+
+  // Persist the operation first, then try to send it straight away
+  enqueue: async (operation) => {
+    await putOperation({ ...operation, createdAt: Date.now() });
+    await get().refreshPendingCount();
+    await get().flush();
+  },
+
+  // Change the body of an operation that hasn't been sent yet
+  amend: async (clientId, changes) => {
+    if (get().inFlightClientId === clientId) return false;
+
+    const operation = await getOperation(clientId);
+    if (!operation) return false;
+
+    await putOperation({ ...operation, body: { ...operation.body, ...changes } });
+    return true;
+  },
+
+  // Drop an operation that hasn't been sent yet
+  discard: async (clientId) => {
+    if (get().inFlightClientId === clientId) return false;
+
+    const operation = await getOperation(clientId);
+    if (!operation) return false;
+
+    await deleteOperation(clientId);
+    await get().refreshPendingCount();
+    return true;
+  },
+
+  flush: async () => {
+    if (get().isSyncing) return;
+    set({ isSyncing: true });
+
+    try {
+      // Re-read the queue each time so operations added mid-flush are sent too
+      while (true) {
+        const [operation] = await getOperations();
+        if (!operation) break;
+
+        set({ inFlightClientId: operation.clientId });
+
+        let response: Response;
+        try {
+          response = await fetch(operation.url, {
+            method: operation.method,
+            headers: operation.body ? { 'Content-Type': 'application/json' } : {},
+            body: operation.body ? JSON.stringify(operation.body) : undefined,
+            credentials: 'include',
+          });
+        } catch (error) {
+          // Still offline - keep everything queued in order
+          break;
+        }
+
+        // Server trouble, or the session lapsed - try again later, once
+        // logged back in
+        if (response.status >= 500 || response.status === 401) break;
+
+        await deleteOperation(operation.clientId);
+
+        if (!response.ok) {
+          // The server rejected it outright, so replaying would never succeed
+          const message = await getRejectionMessage(response);
+          console.error(`Dropped queued ${operation.kind} operation:`, response.status, message);
+          rejectionHandlers[operation.kind]?.forEach(handler => handler(operation, message));
+          toast({
+            title: rejectionTitles[operation.kind],
+            description: message,
+            variant: 'destructive',
+          });
+          continue;
+        }
+
+        const body = response.status === 204 ? null : await response.json();
+        syncHandlers[operation.kind]?.forEach(handler => handler(operation, body));
+      }
+    } catch (error) {
+      console.error('Failed to sync pending operations:', error);
+    } finally {
+      set({ isSyncing: false, inFlightClientId: null });
+      await get().refreshPendingCount();
+    }
+  },
+
+  refreshPendingCount: async () => {
+    set({ pendingCount: await countOperations() });
+  }
+}));
+
+// Replay whatever a previous session left behind, and retry when connectivity returns
+if (typeof window !== 'undefined') {
+  useSyncStore.getState().flush();
+
+  window.addEventListener('online', () => {
+    useSyncStore.getState().flush();
+  });
+
+  setInterval(() => {
+    if (useSyncStore.getState().pendingCount > 0) {
+      useSyncStore.getState().flush();
+    }
+  }, RETRY_INTERVAL_MS);
+}
@@ -1,13 +1,41 @@
+import type { ClockEventType, ClockState } from '@shared/clock';
+import type { CardType } from '@shared/discipline';
+import type { ScoringType, SportFormatId } from '@shared/formats';
+import type { StatRates } from '@shared/minutes';
+import type { UserRole } from '@shared/roles';
+import type { StatAggregation, StatCategory, StatValueKind } from '@shared/stat-types';
+
 export interface Player {
   id: number;
   name: string;
   number?: number;
   position?: string;
+  dateOfBirth?: string | null;
   isActive: boolean;
 }
 
+export interface Team {
+  id: number;
+  name: string;
+  ageGroup: string;
+  description: string | null;
+  isActive: boolean;
+  format: SportFormatId;
+  maxBenchSize: number;
+}
+
+export interface Competition {
+  id: number;
+  name: string;
+  interchangeLimit: number | null;
+}
+
 export interface Game {
   id: number;
+  teamId?: number;
+  fixtureId?: number | null;
+  competitionId?: number | null;
+  format?: SportFormatId;
   opponent: string;
   date: string;
   location: string;
@@ -18,6 +46,9 @@ export interface Game {
   isCompleted: boolean;
   playerOfMatchId?: number;
   playerOfMatchComment?: string;
+  sinBinMinutes?: number;
+  statTemplateId?: number | null;
+  statTypeIds?: number[] | null; // the stats tracked live; null for the default types
 }
 
 export interface GamePlayer {
@@ -27,8 +58,9 @@ export interface GamePlayer {
   number: number;
   position: string;
   isStarter: boolean;
-  startTime?: number;
-  endTime?: number;
+  startTime?: number | null; // null for a bench player who hasn't come on
+  endTime?: number | null;
+  clientId?: string | null;
 }
 
 export interface PlayerWithPosition extends Player {
@@ -44,20 +76,56 @@ export interface Stat {
   id: number;
   gameId: number;
   playerId: number;
-  statType: string;
+  statTypeId: number | null;
+  statType: string; // the name it was recorded under
   value: number;
   gameTime?: number;
   period?: number;
+  clientId?: string | null;
+}
+
+export interface GameEvent {
+  id: number;
+  gameId: number;
+  type: string;
+  playerId?: number | null;
+  minute?: number | null;
+  period?: number;
+  isOpposition?: boolean;
+  points?: number;
+  notes?: string | null;
+  createdAt: string;
 }
 
 export interface StatType {
   id: number;
+  organisationId: number | null; // null for the built-in types
   name: string;
-  description?: string;
-  isActive: boolean;
+  description?: string | null;
+  isActive: boolean; // false once archived
   isDefault: boolean;
   color: string;
   icon: string;
+  points?: number;
+  scoringType?: ScoringType | null; // worth what the game's format says instead of points
+  category: StatCategory;
+  sortOrder: number;
+  valueKind: StatValueKind;
+  unit?: string | null; // shown after numeric values
+  minValue?: number | null;
+  maxValue?: number | null;
+}
+
+// What's sent to create a club's own stat type; the server places it last in its category,
+// and only the built-in types are tracked by default or score
+export type NewStatType = Omit<StatType, 'id' | 'organisationId' | 'sortOrder' | 'isDefault' | 'points' | 'scoringType'>;
+
+// A saved set of stat types to track in a game
+export interface StatTemplate {
+  id: number;
+  organisationId: number | null; // null for the built-in templates
+  name: string;
+  statTypeIds: number[];
 }
 
 export interface PlayerStat {
@@ -65,16 +133,56 @@ export interface PlayerStat {
   playerName: string;
   playerNumber: number;
   playerPosition: string;
+  statKey: string; // from getStatKey, so a renamed type stays one stat
   statType: string;
   total: number;
 }
 
-export interface TimerState {
-  isRunning: boolean;
-  currentHalf: number;
-  currentTime: number;
-  halfLength: number;
-  numberOfHalves: number;
+export interface StatTotal {
+  statTypeId: number | null;
+  statType: string; // the type's current name
+  total: number;
+  count: number;
+  aggregation: StatAggregation;
+  value: number; // the total, average or success percentage
+}
+
+export interface PlayerStatTotal extends StatTotal {
+  playerId: number;
+  rates?: StatRates;
+}
+
+export interface StatTotals {
+  byPlayer: PlayerStatTotal[];
+  byStatType: StatTotal[];
+}
+
+export interface ClockEvent {
+  id?: number; // unset until the event has synced
+  gameId: number;
+  type: ClockEventType;
+  period: number;
+  seconds?: number | null;
+  occurredAt: string;
+  clientId?: string | null;
+}
+
+export interface Card {
+  id?: number; // unset until the card has synced
+  gameId: number;
+  playerId: number;
+  type: CardType;
+  period?: number;
+  issuedAt: number;
+  durationSeconds?: number | null;
+  returnedAt?: number | null;
+  clientId?: string | null;
+}
+
+export interface GameClock {
+  events: ClockEvent[];
+  state: ClockState;
+  serverTime: string;
 }
 
 export interface SubstitutionData {
@@ -100,3 +208,17 @@ export interface ActivityLog {
   statType: string;
   value: number;
 }
+
+export interface User {
+  id: number;
+  username: string;
+  teamName?: string | null;
+  organisationId: number;
+  role: UserRole;
+}
+
+export interface Organisation {
+  id: number;
+  name: string;
+  createdAt: string;
+}
@@ -8,6 +8,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
+  // PGlite is pushed to in-process, the same way the app reaches it
+  ...(process.env.DATABASE_DRIVER === "pglite" ? { driver: "pglite" as const } : {}),
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
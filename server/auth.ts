@@ -0,0 +1,207 @@
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertUserSchema, type User as SelectUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/roles";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Passwords are stored as "<hash>.<salt>", never in plain text
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// What the client gets to see of a user
+export function toPublicUser(user: SelectUser) {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+export const usernameSchema = z.string().trim().min(3, "Username must be at least 3 characters");
+export const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+// Registering sets up a new club with its first admin; everyone else is
+// added to a club by one of its admins
+const registerSchema = insertUserSchema.pick({ teamName: true }).extend({
+  username: usernameSchema,
+  password: passwordSchema,
+  clubName: z.string().trim().min(1, "Club name is required")
+});
+
+let sessionMiddleware: RequestHandler | null = null;
+
+// Sessions, passport and the register/login/logout routes. Must run before
+// any protected routes are mounted.
+export function setupAuth(app: Express) {
+  // The default is public, so anyone could sign sessions with it
+  if (process.env.NODE_ENV === "production" && !process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET || "team-manager-dev-secret", // development only
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days
+    }
+  };
+
+  app.set("trust proxy", 1);
+  sessionMiddleware = session(sessionSettings);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    })
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validation = registerSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid registration data",
+          errors: validation.error.format()
+        });
+      }
+
+      const existingUser = await storage.getUserByUsername(validation.data.username);
+      if (existingUser) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      const { clubName, ...details } = validation.data;
+      const organisation = await storage.createOrganisation({ name: clubName });
+      const user = await storage.createUser({
+        ...details,
+        password: await hashPassword(details.password),
+        organisationId: organisation.id,
+        role: "admin"
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to register" });
+    }
+  });
+
+  app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => res.sendStatus(200));
+    });
+  });
+
+  app.get("/api/user", (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
+
+// Guard for every other /api route
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not logged in" });
+  }
+  next();
+}
+
+// Guard for routes that change data; reading is open to every club member
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ message: "You don't have permission to do that" });
+    }
+    next();
+  };
+}
+
+// The club the logged-in user belongs to; every query is scoped to it
+export function organisationOf(req: Request): number {
+  return req.user!.organisationId;
+}
+
+// The logged-in user behind a raw upgrade request (such as the live
+// WebSocket), if any
+export function getUpgradeUser(req: IncomingMessage): Promise<SelectUser | undefined> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) return resolve(undefined);
+
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, () => {
+      const passportSession = (request.session as { passport?: { user?: number } } | undefined)?.passport;
+      if (passportSession?.user == null) return resolve(undefined);
+
+      storage.getUser(passportSession.user).then(resolve, () => resolve(undefined));
+    });
+  });
+}
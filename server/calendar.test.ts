@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Team } from "@shared/schema";
+import { guessFixtureColumns, mapFixtureRow, parseIcs } from "@shared/fixture-import";
+import { buildFixtureCalendar } from "./calendar";
+import type { FixtureWithResult } from "./fixtures";
+
+const team: Team = {
+  id: 1,
+  organisationId: 1,
+  name: "Tigers",
+  ageGroup: "Open",
+  description: null,
+  isActive: true,
+  format: "union",
+  maxBenchSize: 8,
+  calendarToken: null
+};
+
+const fixture: FixtureWithResult = {
+  id: 7,
+  organisationId: 1,
+  teamId: 1,
+  opponent: "Lions",
+  date: new Date(Date.UTC(2026, 2, 14, 4)),
+  location: "Ōtaki Domain, Field 2",
+  isHome: true,
+  // Long enough to fold several times, with characters of two, three and four bytes
+  notes: "Kai after the game 🍉🍉 at the clubrooms; Māori and Pasifika teams welcome. Café open — bring the whānau 😀",
+  status: "scheduled",
+  gameId: null,
+  sequence: 0,
+  result: null
+};
+
+describe("buildFixtureCalendar", () => {
+  const feed = buildFixtureCalendar(team, [fixture]);
+
+  it("folds lines at 75 octets without splitting a character", () => {
+    const lines = feed.split("\r\n");
+
+    assert.ok(lines.some(line => line.startsWith(" ")));
+    for (const line of lines) {
+      assert.ok(Buffer.byteLength(line, "utf8") <= 75, line);
+      assert.equal(Buffer.from(line, "utf8").toString("utf8"), line);
+    }
+  });
+
+  it("reads back through the fixture import", () => {
+    const table = parseIcs(feed);
+    const imported = mapFixtureRow(table.rows[0], guessFixtureColumns(table.headers), team.name);
+
+    assert.equal(imported?.opponent, "Lions");
+    assert.equal(imported?.date, "2026-03-14T04:00:00.000Z");
+    assert.equal(imported?.location, fixture.location);
+    assert.equal(imported?.notes, `Home game\n${fixture.notes}`);
+  });
+});
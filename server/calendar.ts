@@ -0,0 +1,117 @@
+import { randomBytes } from "crypto";
+import type { Team } from "@shared/schema";
+import { fixtureOutcomeLabels, fixtureStatusLabels, getFixtureOutcome } from "@shared/fixtures";
+import { getSportFormat } from "@shared/formats";
+import { storage } from "./storage";
+import type { FixtureWithResult } from "./fixtures";
+
+const HALF_TIME_MINUTES = 15;
+
+// The secret in a team's subscription link, created the first time it's asked for
+export async function getCalendarToken(team: Team): Promise<string> {
+  if (team.calendarToken) return team.calendarToken;
+
+  const token = randomBytes(24).toString("hex");
+  await storage.setTeamCalendarToken(team.organisationId, team.id, token);
+  return token;
+}
+
+// Text values escape backslashes, separators and line breaks (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Long lines are folded onto continuation lines starting with a space. The
+// limit is 75 octets of UTF-8, and a character is never split across lines.
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, "utf8") <= 75) return line;
+
+  const chunks: string[] = [];
+  let chunk = "";
+  let chunkBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, "utf8");
+    // Continuation lines lose an octet to their leading space
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (chunkBytes + charBytes > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      chunkBytes = 0;
+    }
+    chunk += char;
+    chunkBytes += charBytes;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function describeFixture(fixture: FixtureWithResult): string {
+  const lines = [fixture.isHome ? "Home game" : "Away game"];
+
+  const outcome = fixture.result && getFixtureOutcome(fixture.result);
+  if (fixture.result && outcome) {
+    lines.push(`Result: ${fixtureOutcomeLabels[outcome]} ${fixture.result.homeScore}-${fixture.result.awayScore}`);
+  } else if (fixture.status !== "scheduled") {
+    lines.push(fixtureStatusLabels[fixture.status]);
+  }
+  if (fixture.notes) {
+    lines.push(fixture.notes);
+  }
+
+  return lines.join("\n");
+}
+
+function buildEvent(team: Team, fixture: FixtureWithResult, matchMinutes: number, stamp: string): string[] {
+  const start = new Date(fixture.date);
+  const end = new Date(start.getTime() + matchMinutes * 60 * 1000);
+  const title = fixture.isHome ? `${team.name} vs ${fixture.opponent}` : `${team.name} @ ${fixture.opponent}`;
+  const prefix = fixture.status === "cancelled" || fixture.status === "postponed"
+    ? `${fixtureStatusLabels[fixture.status].toUpperCase()}: `
+    : "";
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:fixture-${fixture.id}@team-manager`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${fixture.sequence}`,
+    `DTSTART:${formatDateTime(start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(prefix + title)}`,
+    `LOCATION:${escapeText(fixture.location)}`,
+    `DESCRIPTION:${escapeText(describeFixture(fixture))}`,
+    // Postponed fixtures stay in calendars until they're rearranged
+    `STATUS:${fixture.status === "cancelled" ? "CANCELLED" : fixture.status === "postponed" ? "TENTATIVE" : "CONFIRMED"}`,
+    "END:VEVENT"
+  ];
+}
+
+// A team's fixtures as an iCalendar feed. Calendar apps poll it, and match
+// events by UID, so moved or cancelled fixtures update in place.
+export function buildFixtureCalendar(team: Team, fixtures: FixtureWithResult[]): string {
+  const format = getSportFormat(team.format);
+  const matchMinutes = format.halfLength * format.numberOfHalves + HALF_TIME_MINUTES;
+  const stamp = formatDateTime(new Date());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Team Manager//Fixtures//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${team.name} fixtures`)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+    "X-PUBLISHED-TTL:PT6H",
+    ...fixtures.flatMap(fixture => buildEvent(team, fixture, matchMinutes, stamp)),
+    "END:VCALENDAR"
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,117 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Game } from "@shared/schema";
+import { deriveClockState, type ClockEventLike } from "@shared/clock";
+import { ClockTransitionError, recordClockEvent } from "./clock";
+import { storage } from "./storage";
+
+const kickOff = Date.UTC(2026, 0, 10, 15);
+const minutes = (count: number) => kickOff + count * 60 * 1000;
+
+const event = (type: string, period: number, at: number, id?: number): ClockEventLike => ({
+  id,
+  type,
+  period,
+  occurredAt: new Date(at)
+});
+
+// Forty minutes played in the first half, with a two-minute stoppage, then
+// ten minutes into the second
+const twoHalves = [
+  event("start", 1, minutes(0), 1),
+  event("pause", 1, minutes(10), 2),
+  event("resume", 1, minutes(12), 3),
+  event("end_period", 1, minutes(42), 4),
+  event("start", 2, minutes(50), 5)
+];
+
+describe("deriveClockState", () => {
+  it("runs the clock across pauses and halves", () => {
+    const state = deriveClockState(twoHalves, 40, 2, minutes(60));
+
+    assert.equal(state.period, 2);
+    assert.equal(state.isRunning, true);
+    assert.equal(state.isPeriodOver, false);
+    assert.equal(state.elapsedSeconds, 600);
+    assert.equal(state.matchSeconds, 40 * 60 + 600);
+    assert.equal(state.playedSeconds, 40 * 60 + 600);
+    assert.deepEqual(state.periodSeconds, [40 * 60, 600]);
+  });
+
+  it("stops the clock while paused", () => {
+    const state = deriveClockState(twoHalves.slice(0, 2), 40, 2, minutes(11));
+
+    assert.equal(state.isRunning, false);
+    assert.equal(state.elapsedSeconds, 600);
+  });
+
+  it("finishes once the last period ends", () => {
+    const state = deriveClockState([...twoHalves, event("end_period", 2, minutes(90), 6)], 40, 2, minutes(95));
+
+    assert.equal(state.isFinished, true);
+    assert.deepEqual(state.periodSeconds, [40 * 60, 40 * 60]);
+  });
+
+  it("ignores a second start while the period is in play", () => {
+    const state = deriveClockState([
+      event("start", 1, minutes(0), 1),
+      event("start", 1, minutes(5), 2)
+    ], 40, 2, minutes(10));
+
+    assert.equal(state.period, 1);
+    assert.equal(state.elapsedSeconds, 600);
+  });
+
+  it("orders events by when they happened, whatever order they arrive in", () => {
+    const shuffled = [twoHalves[3], twoHalves[0], twoHalves[4], twoHalves[2], twoHalves[1]];
+
+    assert.deepEqual(
+      deriveClockState(shuffled, 40, 2, minutes(60)),
+      deriveClockState(twoHalves, 40, 2, minutes(60))
+    );
+  });
+
+  it("counts added time towards the period's length", () => {
+    const state = deriveClockState([
+      event("start", 1, minutes(0), 1),
+      { ...event("added_time", 1, minutes(39), 2), seconds: 120 }
+    ], 40, 2, minutes(40));
+
+    assert.equal(state.periodLengthSeconds, 42 * 60);
+    assert.equal(state.remainingSeconds, 120);
+  });
+});
+
+describe("recordClockEvent", () => {
+  let game: Game;
+
+  before(async () => {
+    const organisation = await storage.createOrganisation({ name: "Eagles" });
+    const team = await storage.createTeam(organisation.id, { name: "Firsts", ageGroup: "Open" });
+    game = await storage.createGame(organisation.id, { teamId: team.id, opponent: "Hawks", location: "Home", halfLength: 40, numberOfHalves: 2 });
+  });
+
+  it("refuses events the clock's state doesn't allow", async () => {
+    await assert.rejects(recordClockEvent(game, { type: "resume" }), ClockTransitionError);
+    await assert.rejects(recordClockEvent(game, { type: "end_period" }), ClockTransitionError);
+  });
+
+  it("lets only one of two devices start the match at the same moment", async () => {
+    const results = await Promise.allSettled([
+      recordClockEvent(game, { type: "start", clientId: "device-1" }),
+      recordClockEvent(game, { type: "start", clientId: "device-2" })
+    ]);
+
+    assert.deepEqual(results.map(result => result.status), ["fulfilled", "rejected"]);
+    assert.ok((results[1] as PromiseRejectedResult).reason instanceof ClockTransitionError);
+    assert.deepEqual((await storage.getClockEvents(game.id)).map(clockEvent => clockEvent.type), ["start"]);
+  });
+
+  it("starts the next period once the current one has ended", async () => {
+    await recordClockEvent(game, { type: "end_period" });
+    const secondHalf = await recordClockEvent(game, { type: "start" });
+
+    assert.equal(secondHalf.period, 2);
+    await assert.rejects(recordClockEvent(game, { type: "start" }), ClockTransitionError);
+  });
+});
@@ -0,0 +1,80 @@
+import type { ClockEvent, Game, RecordClockEvent } from "@shared/schema";
+import { deriveClockState, getClockEventPeriod, getClockTransitionError, type ClockState } from "@shared/clock";
+import { storage } from "./storage";
+import { broadcast } from "./live";
+
+export interface GameClock {
+  events: ClockEvent[];
+  state: ClockState;
+  // Lets clients correct for their own clock drift when deriving elapsed time
+  serverTime: string;
+}
+
+export class ClockTransitionError extends Error {}
+
+// The latest clock write queued for each game. Writes run one after another,
+// so two devices can't both pass the transition check against the same state
+const pendingClockWrites = new Map<number, Promise<unknown>>();
+
+function queueClockWrite<T>(gameId: number, write: () => Promise<T>): Promise<T> {
+  const result = (pendingClockWrites.get(gameId) ?? Promise.resolve()).then(write);
+  const settled = result.catch(() => undefined);
+  pendingClockWrites.set(gameId, settled);
+  settled.then(() => {
+    if (pendingClockWrites.get(gameId) === settled) pendingClockWrites.delete(gameId);
+  });
+  return result;
+}
+
+export async function getGameClock(game: Game): Promise<GameClock> {
+  const events = await storage.getClockEvents(game.id);
+  const now = new Date();
+
+  return {
+    events,
+    state: deriveClockState(events, game.halfLength, game.numberOfHalves, now.getTime()),
+    serverTime: now.toISOString()
+  };
+}
+
+// Append a clock event if the clock is in a state that allows it. Events
+// recorded offline keep their device timestamp, clamped so they can never
+// land before the last stored event or in the future.
+export function recordClockEvent(game: Game, event: RecordClockEvent): Promise<ClockEvent> {
+  return queueClockWrite(game.id, () => appendClockEvent(game, event));
+}
+
+async function appendClockEvent(game: Game, event: RecordClockEvent): Promise<ClockEvent> {
+  const events = await storage.getClockEvents(game.id);
+  const now = Date.now();
+  const lastOccurredAt = events.length > 0 ? events[events.length - 1].occurredAt.getTime() : -Infinity;
+  const occurredAt = Math.min(now, Math.max(lastOccurredAt, event.occurredAt?.getTime() ?? now));
+
+  const state = deriveClockState(events, game.halfLength, game.numberOfHalves, occurredAt);
+  const transitionError = getClockTransitionError(state, event.type, game.numberOfHalves);
+
+  if (transitionError) {
+    throw new ClockTransitionError(transitionError);
+  }
+
+  const clockEvent = await storage.createClockEvent({
+    gameId: game.id,
+    type: event.type,
+    period: getClockEventPeriod(state, event.type),
+    seconds: event.type === "added_time" ? event.seconds ?? null : null,
+    occurredAt: new Date(occurredAt),
+    clientId: event.clientId ?? null
+  });
+
+  broadcast({ type: "clock_event", gameId: game.id, event: clockEvent });
+  return clockEvent;
+}
+
+// Stop the clock when a game is completed with a period still in play
+export async function stopGameClock(game: Game): Promise<void> {
+  const { state } = await getGameClock(game);
+
+  if (state.hasStarted && !state.isPeriodOver) {
+    await recordClockEvent(game, { type: "end_period" });
+  }
+}
@@ -0,0 +1,36 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzleNodePostgres } from "drizzle-orm/node-postgres";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { PGlite } from "@electric-sql/pglite";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Postgres-flavoured Drizzle database built with our schema (Neon in
+// production, node-postgres or PGlite when running locally)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// How DATABASE_URL is reached: Neon's serverless driver, node-postgres for
+// a local Postgres, or PGlite (Postgres in-process) with the URL as its data
+// directory, e.g. "./data/pglite" or "memory://"
+export const databaseDrivers = ["neon", "pg", "pglite"] as const;
+export type DatabaseDriver = typeof databaseDrivers[number];
+
+export function isDatabaseDriver(value: string): value is DatabaseDriver {
+  return (databaseDrivers as readonly string[]).includes(value);
+}
+
+export function createDatabase(connectionString: string, driver: DatabaseDriver = "neon"): Database {
+  switch (driver) {
+    case "pg":
+      return drizzleNodePostgres({ client: new pg.Pool({ connectionString }), schema });
+    case "pglite":
+      return drizzlePglite({ client: new PGlite(connectionString), schema });
+    default:
+      return drizzleNeon({ client: new NeonPool({ connectionString }), schema });
+  }
+}
@@ -0,0 +1,115 @@
+import type { Card, Game, IssueCard } from "@shared/schema";
+import { cardStatTypes, isOffField, isSentOff } from "@shared/discipline";
+import { hasOpenStint } from "@shared/interchange";
+import { storage } from "./storage";
+import { getGameClock } from "./clock";
+import { broadcast } from "./live";
+import { resolveStatType } from "./stat-types";
+
+export class CardError extends Error {}
+
+// Whether a player currently has an open stint in the game's lineup
+async function isInLineup(gameId: number, playerId: number): Promise<boolean> {
+  return hasOpenStint(await storage.getGamePlayers(gameId), playerId);
+}
+
+// Show a card, timed by the match clock. The card also goes on the match
+// timeline and the stat log; a red card ends the player's stint for good.
+export async function issueCard(game: Game, issue: IssueCard): Promise<Card> {
+  const existingCards = await storage.getCards(game.id);
+
+  if (isSentOff(existingCards, issue.playerId)) {
+    throw new CardError("The player has already been sent off");
+  }
+
+  if (!await isInLineup(game.id, issue.playerId)) {
+    throw new CardError("The player is not on the field");
+  }
+
+  // A sin-binned player can still be sent off, but not sin-binned twice
+  if (issue.type === "yellow" && isOffField(existingCards, issue.playerId)) {
+    throw new CardError("The player is already in the sin bin");
+  }
+
+  const { state: clock } = await getGameClock(game);
+  const minute = clock.matchSeconds / 60;
+
+  const card = await storage.createCard({
+    gameId: game.id,
+    playerId: issue.playerId,
+    type: issue.type,
+    period: clock.period,
+    issuedAt: clock.playedSeconds,
+    durationSeconds: issue.type === "yellow" ? game.sinBinMinutes * 60 : null,
+    returnedAt: null,
+    clientId: issue.clientId ?? null
+  });
+
+  await storage.createGameEvent({
+    gameId: game.id,
+    type: `${issue.type}_card`,
+    playerId: issue.playerId,
+    minute: Math.floor(minute),
+    period: clock.period
+  });
+
+  const statType = await resolveStatType(game.organisationId, { statType: cardStatTypes[issue.type] });
+  const stat = await storage.createStat({
+    gameId: game.id,
+    playerId: issue.playerId,
+    statTypeId: statType?.id ?? null,
+    statType: statType?.name ?? cardStatTypes[issue.type],
+    value: 1,
+    gameTime: minute,
+    period: clock.period
+  });
+  broadcast({ type: "stat_created", gameId: game.id, stat });
+
+  if (issue.type === "red") {
+    const gamePlayer = (await storage.getGamePlayers(game.id))
+      .find(gp => gp.playerId === issue.playerId && gp.endTime == null);
+
+    if (gamePlayer) {
+      await storage.updateGamePlayer(gamePlayer.id, { endTime: minute, endPeriod: clock.period });
+    }
+  }
+
+  broadcast({ type: "lineup_changed", gameId: game.id });
+  return card;
+}
+
+// Bring a sin-binned player back on
+export async function returnFromSinBin(game: Game, card: Card): Promise<Card> {
+  if (card.type !== "yellow") {
+    throw new CardError("Only sin-binned players can return");
+  }
+
+  if (card.returnedAt != null) return card;
+
+  if (isSentOff(await storage.getCards(game.id), card.playerId)) {
+    throw new CardError("The player has since been sent off");
+  }
+
+  const { state: clock } = await getGameClock(game);
+  const returnedCard = await storage.updateCard(card.id, { returnedAt: clock.playedSeconds });
+
+  broadcast({ type: "lineup_changed", gameId: game.id });
+  return returnedCard ?? card;
+}
+
+// Why a substitution can't go ahead because of a card, or null if it can
+export async function getSubstitutionCardError(gameId: number, outPlayerId: number, inPlayerId: number): Promise<string | null> {
+  const gameCards = await storage.getCards(gameId);
+
+  if (isSentOff(gameCards, outPlayerId)) {
+    return "The player was sent off, so their place can't be filled";
+  }
+  if (isOffField(gameCards, outPlayerId)) {
+    return "A sin-binned player can't be replaced until they return";
+  }
+  if (isSentOff(gameCards, inPlayerId)) {
+    return "A player who has been sent off can't come back on";
+  }
+
+  return null;
+}
@@ -0,0 +1,57 @@
+import { insertFixtureSchema, type InsertFixture } from "@shared/schema";
+import { fixtureImportFieldLabels, getFixtureKey } from "@shared/fixture-import";
+import { describeImportIssues, type ImportRowResult } from "@shared/import";
+import { storage } from "./storage";
+
+export interface CheckedFixtureImport {
+  rows: ImportRowResult[];
+  fixtures: InsertFixture[]; // the valid rows that aren't duplicates
+}
+
+const fieldLabels: Record<string, string> = {
+  opponent: fixtureImportFieldLabels.opponent,
+  date: fixtureImportFieldLabels.date,
+  location: fixtureImportFieldLabels.location,
+  isHome: fixtureImportFieldLabels.homeAway,
+  notes: fixtureImportFieldLabels.notes
+};
+
+// Each row is checked as a fixture of its own, and against the team's
+// schedule and the rows before it, so a draw can be imported again after
+// it's been updated without doubling up
+export async function checkFixtureImport(
+  organisationId: number,
+  teamId: number,
+  rows: Record<string, unknown>[]
+): Promise<CheckedFixtureImport> {
+  const existing = await storage.getTeamFixtures(organisationId, teamId);
+  const existingKeys = new Set(existing.map(fixture => getFixtureKey(teamId, fixture.opponent, fixture.date)));
+  const importedKeys = new Set<string>();
+
+  const results: ImportRowResult[] = [];
+  const fixtures: InsertFixture[] = [];
+
+  rows.forEach((row, index) => {
+    const validation = insertFixtureSchema.safeParse({ ...row, teamId, status: undefined });
+
+    if (!validation.success) {
+      results.push({
+        row: index,
+        errors: describeImportIssues(validation.error.issues, fieldLabels),
+        duplicateOf: null
+      });
+      return;
+    }
+
+    const key = getFixtureKey(teamId, validation.data.opponent, validation.data.date);
+    const duplicateOf = existingKeys.has(key) ? "existing" : importedKeys.has(key) ? "import" : null;
+    results.push({ row: index, errors: [], duplicateOf });
+
+    if (!duplicateOf) {
+      importedKeys.add(key);
+      fixtures.push(validation.data);
+    }
+  });
+
+  return { rows: results, fixtures };
+}
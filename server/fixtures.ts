@@ -0,0 +1,65 @@
+import type { Fixture, Game } from "@shared/schema";
+import { canStartGame, fixtureStatusLabels, type FixtureResult, type FixtureStatus } from "@shared/fixtures";
+import { storage } from "./storage";
+
+export class FixtureError extends Error {}
+
+export type FixtureWithResult = Fixture & { result: FixtureResult | null };
+
+// A fixture is played once, and not while it's postponed or called off
+export function checkCanStartGame(fixture: Fixture): void {
+  if (fixture.gameId != null) {
+    throw new FixtureError("A game has already been started from this fixture");
+  }
+  if (!canStartGame(fixture.status)) {
+    throw new FixtureError(`The fixture is ${fixtureStatusLabels[fixture.status].toLowerCase()}`);
+  }
+}
+
+// Once a game has been started from a fixture, its status follows the game
+export function checkStatusChange(fixture: Fixture, status: FixtureStatus | undefined): void {
+  if (status !== undefined && status !== fixture.status && fixture.gameId != null) {
+    throw new FixtureError("The status of a fixture with a game follows the game");
+  }
+}
+
+// Two devices can start the same fixture at once. Only the first game to
+// claim it is kept; the other is removed again.
+export async function linkGameToFixture(game: Game): Promise<void> {
+  if (game.fixtureId == null) return;
+
+  if (!await storage.claimFixture(game.organisationId, game.fixtureId, game.id)) {
+    await storage.deleteGame(game.organisationId, game.id);
+    throw new FixtureError("A game has already been started from this fixture");
+  }
+}
+
+export async function markFixturePlayed(game: Game): Promise<void> {
+  if (game.fixtureId == null) return;
+  await storage.setFixtureGame(game.organisationId, game.fixtureId, game.id, "played");
+}
+
+// A deleted game puts its fixture back on the schedule
+export async function unlinkGameFromFixture(game: Game): Promise<void> {
+  if (game.fixtureId == null) return;
+  await storage.setFixtureGame(game.organisationId, game.fixtureId, null, "scheduled");
+}
+
+// Fixtures with the score of the game played for each
+export async function withResults(organisationId: number, fixtures: Fixture[]): Promise<FixtureWithResult[]> {
+  const games = await storage.getGames(organisationId);
+  const gamesById = new Map(games.map(game => [game.id, game]));
+
+  return fixtures.map(fixture => {
+    const game = fixture.gameId != null ? gamesById.get(fixture.gameId) : undefined;
+    return {
+      ...fixture,
+      result: game ? {
+        gameId: game.id,
+        homeScore: game.homeScore ?? 0,
+        awayScore: game.awayScore ?? 0,
+        isCompleted: !!game.isCompleted
+      } : null
+    };
+  });
+}
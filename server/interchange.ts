@@ -0,0 +1,52 @@
+import type { Game } from "@shared/schema";
+import {
+  countInterchanges,
+  hasOpenStint,
+  isInterchangeLimitReached,
+  type InterchangeUsage
+} from "@shared/interchange";
+import { isBenchNomination } from "@shared/team-sheet";
+import { storage } from "./storage";
+
+export class InterchangeError extends Error {}
+
+// Interchanges made so far against the limit of the game's competition
+export async function getInterchangeUsage(game: Game): Promise<InterchangeUsage> {
+  const [lineup, competition] = await Promise.all([
+    storage.getGamePlayers(game.id),
+    game.competitionId != null ? storage.getCompetition(game.organisationId, game.competitionId) : undefined
+  ]);
+
+  return {
+    used: countInterchanges(lineup),
+    limit: competition?.interchangeLimit ?? null
+  };
+}
+
+// Throws if the competition's rules don't allow this interchange
+export async function checkInterchange(game: Game, outPlayerId: number, inPlayerId: number): Promise<void> {
+  const lineup = await storage.getGamePlayers(game.id);
+
+  if (outPlayerId === inPlayerId) {
+    throw new InterchangeError("A player can't replace themselves");
+  }
+  if (!hasOpenStint(lineup, outPlayerId)) {
+    throw new InterchangeError("The player going off isn't on the field");
+  }
+  if (hasOpenStint(lineup, inPlayerId)) {
+    throw new InterchangeError("The player coming on is already on the field");
+  }
+
+  // Once a bench has been named, only players on the team sheet can come on
+  const hasNamedBench = lineup.some(isBenchNomination);
+  if (hasNamedBench && !lineup.some(gp => gp.playerId === inPlayerId)) {
+    throw new InterchangeError("The player coming on isn't named on the team sheet");
+  }
+
+  const usage = await getInterchangeUsage(game);
+  if (isInterchangeLimitReached(usage)) {
+    throw new InterchangeError(usage.limit === 1
+      ? "The only interchange has been used"
+      : `All ${usage.limit} interchanges have been used`);
+  }
+}
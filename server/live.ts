@@ -0,0 +1,65 @@
+import type { IncomingMessage, Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { LIVE_SOCKET_PATH, type LiveMessage } from "@shared/live";
+
+// Open sockets by the game they follow
+const subscribers = new Map<number, Set<WebSocket>>();
+
+// Accept live sockets on the app's HTTP server from clients that `authorize`
+// lets follow the game. Other upgrade requests (such as Vite's HMR socket in
+// development) are left for their own handlers.
+export function attachLiveSync(httpServer: Server, authorize: (req: IncomingMessage, gameId: number) => Promise<boolean>) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const url = new URL(req.url ?? "", "http://localhost");
+    if (url.pathname !== LIVE_SOCKET_PATH) return;
+
+    const gameId = Number(url.searchParams.get("gameId"));
+    if (!Number.isInteger(gameId) || gameId <= 0) {
+      socket.destroy();
+      return;
+    }
+
+    // A failed session or storage lookup mustn't leave the socket hanging
+    let isAuthorized: boolean;
+    try {
+      isAuthorized = await authorize(req, gameId);
+    } catch (error) {
+      console.error("Failed to authorize live socket", error);
+      socket.write("HTTP/1.1 500 Internal Server Error\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    if (!isAuthorized) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const sockets = subscribers.get(gameId) ?? new Set<WebSocket>();
+      sockets.add(ws);
+      subscribers.set(gameId, sockets);
+
+      ws.on("close", () => {
+        sockets.delete(ws);
+        if (sockets.size === 0) subscribers.delete(gameId);
+      });
+    });
+  });
+}
+
+// Push an update to every device following the game
+export function broadcast(message: LiveMessage) {
+  const sockets = subscribers.get(message.gameId);
+  if (!sockets) return;
+
+  const payload = JSON.stringify(message);
+  sockets.forEach(ws => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(payload);
+    }
+  });
+}
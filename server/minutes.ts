@@ -0,0 +1,139 @@
+import type { Card, Game, GamePlayer, MinutesFilters, StatFilters, StatTotals } from "@shared/schema";
+import { deriveClockState, type ClockState } from "@shared/clock";
+import {
+  calculateMinutesPlayed,
+  calculateStatRates,
+  getPeriodLengths,
+  type PlayerMinutes,
+  type SeasonMinutes
+} from "@shared/minutes";
+import { storage } from "./storage";
+import { getGameClock } from "./clock";
+
+// Minutes for everyone in the game's lineup. Unfinished games count up to
+// the current match clock, with players still on the field counted to now.
+export async function getGameMinutes(game: Game): Promise<PlayerMinutes[]> {
+  const [gamePlayers, gameCards, { state: clock }] = await Promise.all([
+    storage.getGamePlayers(game.id),
+    storage.getCards(game.id),
+    getGameClock(game)
+  ]);
+
+  return calculateGameMinutes(game, gamePlayers, gameCards, clock);
+}
+
+function calculateGameMinutes(game: Game, gamePlayers: GamePlayer[], gameCards: Card[], clock: ClockState): PlayerMinutes[] {
+  const periodLengths = getPeriodLengths(
+    clock.periodSeconds,
+    game.halfLength,
+    game.numberOfHalves,
+    !!game.isCompleted
+  );
+
+  return calculateMinutesPlayed(gamePlayers, gameCards, periodLengths, game.halfLength);
+}
+
+// Each game's records, from one read across several games
+function groupByGame<T extends { gameId: number }>(records: T[]): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const record of records) {
+    const group = groups.get(record.gameId);
+    if (group) group.push(record);
+    else groups.set(record.gameId, [record]);
+  }
+  return groups;
+}
+
+// The part of a game's minutes a period filter asks for
+function minutesInScope(player: PlayerMinutes, period?: number) {
+  if (period === undefined) {
+    return {
+      minutes: player.minutes,
+      sinBinMinutes: player.sinBinMinutes,
+      stints: player.stints,
+      periods: player.stintsByPeriod.filter(stints => stints > 0).length
+    };
+  }
+
+  const stints = player.stintsByPeriod[period - 1] ?? 0;
+  return {
+    minutes: player.byPeriod[period - 1] ?? 0,
+    sinBinMinutes: player.sinBinByPeriod[period - 1] ?? 0,
+    stints,
+    periods: stints > 0 ? 1 : 0
+  };
+}
+
+export async function getSeasonMinutes(organisationId: number, filters: MinutesFilters = {}): Promise<SeasonMinutes[]> {
+  const games = (await storage.getGames(organisationId)).filter(game => {
+    if (filters.teamId !== undefined && game.teamId !== filters.teamId) return false;
+    if (filters.gameId !== undefined && game.id !== filters.gameId) return false;
+    if (filters.from && game.date < filters.from) return false;
+    if (filters.to && game.date > filters.to) return false;
+    return true;
+  });
+
+  // Read every game's lineup, cards and clock at once rather than game by game
+  const gameIds = games.map(game => game.id);
+  const [gamePlayers, gameCards, clockEvents] = await Promise.all([
+    storage.getGamePlayersForGames(gameIds),
+    storage.getCardsForGames(gameIds),
+    storage.getClockEventsForGames(gameIds)
+  ]);
+  const playersByGame = groupByGame(gamePlayers);
+  const cardsByGame = groupByGame(gameCards);
+  const clockEventsByGame = groupByGame(clockEvents);
+  const now = Date.now();
+
+  const totals = new Map<number, SeasonMinutes>();
+
+  for (const game of games) {
+    const clock = deriveClockState(clockEventsByGame.get(game.id) ?? [], game.halfLength, game.numberOfHalves, now);
+    const minutes = calculateGameMinutes(game, playersByGame.get(game.id) ?? [], cardsByGame.get(game.id) ?? [], clock);
+
+    for (const player of minutes) {
+      if (filters.playerId !== undefined && player.playerId !== filters.playerId) continue;
+
+      const share = minutesInScope(player, filters.period);
+      if (share.stints === 0) continue;
+
+      const total = totals.get(player.playerId) ?? { playerId: player.playerId, games: 0, starts: 0, minutes: 0, sinBinMinutes: 0, stints: 0, periods: 0 };
+      total.games++;
+      if (player.isStarter) total.starts++;
+      total.minutes += share.minutes;
+      total.sinBinMinutes += share.sinBinMinutes;
+      total.stints += share.stints;
+      total.periods += share.periods;
+      totals.set(player.playerId, total);
+    }
+  }
+
+  // Summing rounded minutes can leave float noise behind
+  return Array.from(totals.values()).map(total => ({
+    ...total,
+    minutes: Math.round(total.minutes * 10) / 10,
+    sinBinMinutes: Math.round(total.sinBinMinutes * 10) / 10
+  }));
+}
+
+// Adds per-80, per-stint and per-period rates to each player's totals, using
+// minutes from the same games and periods the stats were filtered to
+export async function withStatRates(
+  organisationId: number,
+  totals: StatTotals,
+  filters: StatFilters = {},
+  minMinutes?: number
+): Promise<StatTotals> {
+  const seasonMinutes = await getSeasonMinutes(organisationId, filters);
+  const noMinutes = { minutes: 0, stints: 0, periods: 0 };
+
+  return {
+    ...totals,
+    byPlayer: totals.byPlayer.map(total => {
+      const minutes = seasonMinutes.find(season => season.playerId === total.playerId) ?? noMinutes;
+      // Averages and success rates don't scale with time on the field
+      if (total.aggregation !== "sum") return total;
+      return { ...total, rates: calculateStatRates(total.total, minutes, minMinutes) };
+    })
+  };
+}
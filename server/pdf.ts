@@ -0,0 +1,184 @@
+// A small PDF writer for printable reports: text in the standard Helvetica
+// fonts, rules and shaded boxes on A4 pages. Positions are in points from
+// the top left of the page.
+
+const A4_WIDTH = 595;
+const A4_HEIGHT = 842;
+
+// Helvetica advance widths for printable ASCII (space to tilde), per 1000 units
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 128-159
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "–": 0x96, // en dash
+  "—": 0x97, // em dash
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95, // bullet
+  "€": 0x80
+};
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "right" | "center";
+  gray?: number; // 0 is black, 1 white
+}
+
+// Bold glyphs run a little wider than regular ones
+export function textWidth(value: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+// Cuts text down to fit a width, ending it with an ellipsis
+export function fitText(value: string, size: number, maxWidth: number, bold = false): string {
+  if (textWidth(value, size, bold) <= maxWidth) return value;
+
+  let fitted = value;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+// Breaks text into lines that fit a width, on spaces where it can
+export function wrapText(value: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of value.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = fitText(word, size, maxWidth);
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// A string literal in WinAnsi bytes, with the delimiters escaped
+function encodeText(value: string): string {
+  let encoded = "";
+  for (const char of value) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+    const byte = code <= 255 ? String.fromCharCode(code) : "?";
+    encoded += byte === "(" || byte === ")" || byte === "\\" ? `\\${byte}` : byte;
+  }
+  return `(${encoded})`;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export class PdfDocument {
+  readonly width = A4_WIDTH;
+  readonly height = A4_HEIGHT;
+  private pages: string[][] = [];
+  private current = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  // Goes back to an earlier page, e.g. to number the pages once they're all laid out
+  goToPage(index: number): void {
+    this.current = Math.max(0, Math.min(index, this.pages.length - 1));
+  }
+
+  private get content(): string[] {
+    return this.pages[this.current];
+  }
+
+  // y is the top of the text
+  text(x: number, y: number, value: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const width = textWidth(value, size, options.bold);
+    const left = options.align === "right" ? x - width : options.align === "center" ? x - width / 2 : x;
+    const baseline = this.height - y - size * 0.8;
+
+    this.content.push(
+      `${formatNumber(options.gray ?? 0)} g BT /${options.bold ? "F2" : "F1"} ${size} Tf ` +
+      `${formatNumber(left)} ${formatNumber(baseline)} Td ${encodeText(value)} Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5, gray = 0.6): void {
+    this.content.push(
+      `${formatNumber(gray)} G ${formatNumber(lineWidth)} w ` +
+      `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, gray = 0.92): void {
+    this.content.push(
+      `${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(this.height - y - height)} ` +
+      `${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const fontIds = [3, 4];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+    objects[fontIds[0]] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[fontIds[1]] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+    this.pages.forEach((content, index) => {
+      const pageId = pageIds[index];
+      const stream = content.join("\n");
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 ${fontIds[0]} 0 R /F2 ${fontIds[1]} 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+    });
+
+    // Byte offsets for the cross-reference table; everything is written as Latin-1
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, "latin1");
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, "latin1");
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, "latin1");
+  }
+}
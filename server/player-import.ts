@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { insertPlayerSchema, type InsertPlayer, type Player, type Team } from "@shared/schema";
+import { getPlayerKey, playerImportFieldLabels, playerImportFields } from "@shared/player-import";
+import { describeImportIssues, getCalendarDay, normaliseName, type ImportRowResult } from "@shared/import";
+import { toCsv } from "@shared/csv";
+import { storage } from "./storage";
+
+export interface CheckedPlayerImport {
+  rows: ImportRowResult[];
+  players: InsertPlayer[]; // the valid rows that aren't duplicates
+}
+
+// Spreadsheet cells are checked more closely than the player form's fields
+const importedPlayerSchema = insertPlayerSchema.extend({
+  name: z.string().trim().min(1, { message: "Required" }),
+  number: z.number({ invalid_type_error: "Expected a whole number" }).int().min(0).nullish(),
+  email: z.string().trim().email().nullish(),
+  dateOfBirth: z.coerce.date().refine(date => date <= new Date(), { message: "Can't be in the future" }).nullish(),
+});
+
+const fieldLabels: Record<string, string> = {
+  ...playerImportFieldLabels,
+  teamId: playerImportFieldLabels.team
+};
+
+// Each row is checked as a player of its own, and against the pool and the
+// rows before it, so the same roster can be imported again without
+// doubling up
+export async function checkPlayerImport(organisationId: number, rows: Record<string, unknown>[]): Promise<CheckedPlayerImport> {
+  const [existing, teams] = await Promise.all([storage.getPlayers(organisationId), storage.getTeams(organisationId)]);
+  const existingKeys = new Set(existing.map(player => getPlayerKey(player.name, player.dateOfBirth)));
+  const importedKeys = new Set<string>();
+  const teamsByName = new Map(teams.map(team => [normaliseName(team.name), team]));
+
+  const results: ImportRowResult[] = [];
+  const players: InsertPlayer[] = [];
+
+  rows.forEach((row, index) => {
+    const { team: teamName, ...player } = row;
+    const errors: string[] = [];
+
+    let teamId: number | null = null;
+    if (typeof teamName === "string" && teamName.trim() !== "") {
+      const team = teamsByName.get(normaliseName(teamName));
+      if (team) {
+        teamId = team.id;
+      } else {
+        errors.push(`${playerImportFieldLabels.team}: No team called "${teamName}"`);
+      }
+    }
+
+    const validation = importedPlayerSchema.safeParse({ ...player, teamId, isActive: true });
+    if (!validation.success) {
+      errors.push(...describeImportIssues(validation.error.issues, fieldLabels));
+    }
+
+    if (!validation.success || errors.length > 0) {
+      results.push({ row: index, errors, duplicateOf: null });
+      return;
+    }
+
+    const key = getPlayerKey(validation.data.name, validation.data.dateOfBirth);
+    const duplicateOf = existingKeys.has(key) ? "existing" : importedKeys.has(key) ? "import" : null;
+    results.push({ row: index, errors: [], duplicateOf });
+
+    if (!duplicateOf) {
+      importedKeys.add(key);
+      players.push(validation.data);
+    }
+  });
+
+  return { rows: results, players };
+}
+
+// The pool as a spreadsheet, in the columns the import reads
+export function buildPlayerCsv(players: Player[], teams: Team[]): string {
+  const teamNames = new Map(teams.map(team => [team.id, team.name]));
+
+  return toCsv([
+    playerImportFields.map(field => playerImportFieldLabels[field]),
+    ...players.map(player => [
+      player.name,
+      player.number,
+      player.position,
+      player.dateOfBirth ? getCalendarDay(player.dateOfBirth) : null,
+      player.email,
+      player.phone,
+      player.teamId != null ? teamNames.get(player.teamId) : null
+    ])
+  ]);
+}
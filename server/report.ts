@@ -0,0 +1,429 @@
+import type { Game, Stat } from "@shared/schema";
+import { getSportFormat } from "@shared/formats";
+import { toCsv } from "@shared/csv";
+import {
+  aggregateStatValues,
+  compareStatTypes,
+  formatStatAggregate,
+  getStatAggregateUnit,
+  getStatKey,
+  getStatName,
+  statAggregations,
+  type StatValueKind
+} from "@shared/stat-types";
+import { storage } from "./storage";
+import { getGameMinutes } from "./minutes";
+import { getPointsByStatType, getStatScore } from "./scoring";
+import { PdfDocument, fitText, wrapText } from "./pdf";
+
+export interface ReportPlayer {
+  playerId: number;
+  name: string;
+  number: number | null;
+  position: string | null;
+  isStarter: boolean;
+  minutes: number;
+  totals: Record<string, number>; // by stat key: the total, average or success rate
+}
+
+export interface ReportScoringEvent {
+  period: number;
+  minute: number | null;
+  isOpposition: boolean;
+  description: string;
+  points: number;
+  homeScore: number; // the score after it
+  awayScore: number;
+}
+
+export interface ReportStat extends Stat {
+  playerName: string;
+  statName: string; // the type's current name
+}
+
+export interface ReportStatColumn {
+  key: string; // from getStatKey
+  name: string;
+  valueKind: StatValueKind;
+  unit: string | null;
+}
+
+// Everything the match report shows, gathered once for the PDF and CSVs
+export interface GameReport {
+  game: Game;
+  teamName: string;
+  competitionName: string | null;
+  statTypes: ReportStatColumn[]; // the stat types recorded, in the club's order
+  players: ReportPlayer[]; // the team sheet in number order
+  stats: ReportStat[]; // in the order they happened
+  scoring: ReportScoringEvent[];
+  playerOfMatch: { name: string; comment: string | null } | null;
+}
+
+function byMatchTime(a: { period: number | null; minute: number | null }, b: { period: number | null; minute: number | null }): number {
+  return (a.period ?? 1) - (b.period ?? 1) || (a.minute ?? 0) - (b.minute ?? 0);
+}
+
+export async function buildGameReport(game: Game): Promise<GameReport> {
+  const [team, competition, clubPlayers, gamePlayers, stats, events, statTypes, minutes] = await Promise.all([
+    storage.getTeam(game.organisationId, game.teamId),
+    game.competitionId != null ? storage.getCompetition(game.organisationId, game.competitionId) : undefined,
+    storage.getPlayers(game.organisationId),
+    storage.getGamePlayers(game.id),
+    storage.getGameStats(game.id),
+    storage.getGameEvents(game.id),
+    storage.getStatTypes(game.organisationId),
+    getGameMinutes(game)
+  ]);
+
+  const names = new Map(clubPlayers.map(player => [player.id, player.name]));
+  const nameOf = (playerId: number) => names.get(playerId) ?? "Unknown player";
+
+  const statName = (stat: Stat) => getStatName(stat, statTypes);
+
+  // Stats whose type has since been deleted go after the rest
+  const columns = new Map<string, ReportStatColumn>();
+  for (const statType of [...statTypes].sort(compareStatTypes)) {
+    const key = getStatKey({ statTypeId: statType.id, statType: statType.name });
+    if (stats.some(stat => getStatKey(stat) === key)) {
+      columns.set(key, { key, name: statType.name, valueKind: statType.valueKind, unit: statType.unit });
+    }
+  }
+  for (const stat of stats) {
+    const key = getStatKey(stat);
+    if (!columns.has(key)) columns.set(key, { key, name: statName(stat), valueKind: "count", unit: null });
+  }
+
+  // A player coming back on has a stint of their own; the first is their place on the sheet
+  const players: ReportPlayer[] = [];
+  for (const gamePlayer of gamePlayers) {
+    if (players.some(player => player.playerId === gamePlayer.playerId)) continue;
+    players.push({
+      playerId: gamePlayer.playerId,
+      name: nameOf(gamePlayer.playerId),
+      number: gamePlayer.number,
+      position: gamePlayer.position,
+      isStarter: !!gamePlayer.isStarter,
+      minutes: minutes.find(played => played.playerId === gamePlayer.playerId)?.minutes ?? 0,
+      totals: {}
+    });
+  }
+  // Stats for anyone since taken off the sheet still count
+  const sums = new Map<string, { total: number; count: number }>(); // by player and stat key
+  for (const stat of stats) {
+    if (!players.some(player => player.playerId === stat.playerId)) {
+      players.push({ playerId: stat.playerId, name: nameOf(stat.playerId), number: null, position: null, isStarter: false, minutes: 0, totals: {} });
+    }
+    const key = `${stat.playerId}:${getStatKey(stat)}`;
+    const sum = sums.get(key) ?? { total: 0, count: 0 };
+    sum.total += stat.value ?? 1;
+    sum.count++;
+    sums.set(key, sum);
+  }
+  for (const player of players) {
+    for (const column of Array.from(columns.values())) {
+      const sum = sums.get(`${player.playerId}:${column.key}`);
+      if (sum) player.totals[column.key] = aggregateStatValues(statAggregations[column.valueKind], sum.total, sum.count);
+    }
+  }
+  players.sort((a, b) => (a.number ?? Infinity) - (b.number ?? Infinity));
+
+  // Our points come from the stat log, theirs from the timeline, as in the score
+  const pointsByStatType = getPointsByStatType(game, statTypes);
+  const scoringMoments = [
+    ...stats
+      .map(stat => ({
+        period: stat.period ?? 1,
+        minute: stat.gameTime != null ? Math.floor(stat.gameTime) : null,
+        isOpposition: false,
+        description: `${statName(stat)} – ${nameOf(stat.playerId)}`,
+        points: getStatScore(pointsByStatType, statTypes, stat)
+      }))
+      .filter(moment => moment.points > 0), // a missed kick puts nothing on the board
+    ...events
+      .filter(event => event.isOpposition && (event.points ?? 0) > 0)
+      .map(event => ({
+        period: event.period ?? 1,
+        minute: event.minute,
+        isOpposition: true,
+        description: `${event.type} – ${game.opponent}`,
+        points: event.points ?? 0
+      }))
+  ].sort(byMatchTime);
+
+  let homeScore = 0;
+  let awayScore = 0;
+  const scoring = scoringMoments.map(moment => {
+    if (moment.isOpposition) awayScore += moment.points;
+    else homeScore += moment.points;
+    return { ...moment, homeScore, awayScore };
+  });
+
+  const playerOfMatch = game.playerOfMatchId != null
+    ? { name: nameOf(game.playerOfMatchId), comment: game.playerOfMatchComment }
+    : null;
+
+  return {
+    game,
+    teamName: team?.name ?? "Our team",
+    competitionName: competition?.name ?? null,
+    statTypes: Array.from(columns.values()),
+    players,
+    stats: stats
+      .map(stat => ({ ...stat, playerName: nameOf(stat.playerId), statName: statName(stat) }))
+      .sort((a, b) => byMatchTime({ period: a.period, minute: a.gameTime }, { period: b.period, minute: b.gameTime })),
+    scoring,
+    playerOfMatch
+  };
+}
+
+// "2026-03-14-vs-lions", for file names
+export function getReportFileName(game: Game, suffix: string): string {
+  const opponent = game.opponent.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${new Date(game.date).toISOString().slice(0, 10)}-vs-${opponent || "opponent"}-${suffix}`;
+}
+
+function formatMinute(minute: number | null): string {
+  return minute == null ? "–" : `${minute}'`;
+}
+
+// Every stat recorded, one row each
+export function buildStatsCsv(report: GameReport): string {
+  const numbers = new Map(report.players.map(player => [player.playerId, player.number]));
+
+  return toCsv([
+    ["Period", "Minute", "Number", "Player", "Stat", "Value"],
+    ...report.stats.map(stat => [
+      stat.period ?? 1,
+      stat.gameTime != null ? Number(stat.gameTime.toFixed(1)) : null,
+      numbers.get(stat.playerId),
+      stat.playerName,
+      stat.statName,
+      stat.value ?? 1
+    ])
+  ]);
+}
+
+// "Meters (m)", "Goal Kicks (%)", "Work Rate (avg)"
+function columnHeader(column: ReportStatColumn): string {
+  const unit = getStatAggregateUnit(column);
+  return unit ? `${column.name} (${unit})` : column.name;
+}
+
+// A player's figure for a column; players without a rating or attempt have none, rather than 0
+function columnValue(column: ReportStatColumn, player: ReportPlayer): number | null {
+  return player.totals[column.key] ?? (statAggregations[column.valueKind] === "sum" ? 0 : null);
+}
+
+// Each player's minutes and stat totals
+export function buildTotalsCsv(report: GameReport): string {
+  return toCsv([
+    ["Number", "Player", "Position", "Started", "Minutes", ...report.statTypes.map(columnHeader)],
+    ...report.players.map(player => [
+      player.number,
+      player.name,
+      player.position,
+      player.isStarter ? "Yes" : "No",
+      Math.round(player.minutes),
+      ...report.statTypes.map(column => columnValue(column, player))
+    ])
+  ]);
+}
+
+const MARGIN = 40;
+const ROW_HEIGHT = 16;
+const FOOTER_SPACE = 30;
+
+interface Column {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+// Lays out the report top to bottom, starting new pages as they fill
+class ReportLayout {
+  y = MARGIN;
+
+  constructor(readonly doc: PdfDocument) {}
+
+  get contentWidth(): number {
+    return this.doc.width - MARGIN * 2;
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y + height > this.doc.height - MARGIN - FOOTER_SPACE) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  heading(text: string): void {
+    this.ensureSpace(ROW_HEIGHT * 3);
+    this.y += 10;
+    this.doc.text(MARGIN, this.y, text, { size: 13, bold: true });
+    this.y += 20;
+  }
+
+  paragraph(text: string, size = 10, gray = 0): void {
+    for (const line of wrapText(text, size, this.contentWidth)) {
+      this.ensureSpace(size + 4);
+      this.doc.text(MARGIN, this.y, line, { size, gray });
+      this.y += size + 4;
+    }
+  }
+
+  // The header row repeats at the top of each page the table runs onto
+  table(columns: Column[], rows: string[][]): void {
+    const drawHeader = () => {
+      this.doc.fillRect(MARGIN, this.y - 3, this.contentWidth, ROW_HEIGHT);
+      let x = MARGIN;
+      for (const column of columns) {
+        const text = fitText(column.header, 9, column.width - 6, true);
+        this.doc.text(column.align === "right" ? x + column.width - 3 : x + 3, this.y, text, { size: 9, bold: true, align: column.align });
+        x += column.width;
+      }
+      this.y += ROW_HEIGHT;
+    };
+
+    this.ensureSpace(ROW_HEIGHT * 2);
+    drawHeader();
+
+    for (const row of rows) {
+      if (this.y + ROW_HEIGHT > this.doc.height - MARGIN - FOOTER_SPACE) {
+        this.doc.addPage();
+        this.y = MARGIN;
+        drawHeader();
+      }
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        const text = fitText(row[index] ?? "", 9, column.width - 6);
+        this.doc.text(column.align === "right" ? x + column.width - 3 : x + 3, this.y, text, { size: 9, align: column.align });
+        x += column.width;
+      });
+      this.doc.line(MARGIN, this.y + ROW_HEIGHT - 4, MARGIN + this.contentWidth, this.y + ROW_HEIGHT - 4, 0.25, 0.85);
+      this.y += ROW_HEIGHT;
+    }
+  }
+}
+
+const STAT_COLUMN_WIDTH = 52;
+
+// Stat columns are split across tables when there are more than fit
+function statTables(layout: ReportLayout, report: GameReport): void {
+  const nameWidth = 150;
+  const perTable = Math.max(1, Math.floor((layout.contentWidth - 30 - nameWidth) / STAT_COLUMN_WIDTH));
+
+  for (let start = 0; start < report.statTypes.length; start += perTable) {
+    const columns = report.statTypes.slice(start, start + perTable);
+    layout.table(
+      [
+        { header: "#", width: 30 },
+        { header: "Player", width: nameWidth },
+        ...columns.map(column => ({ header: column.name, width: STAT_COLUMN_WIDTH, align: "right" as const }))
+      ],
+      report.players
+        .filter(player => Object.keys(player.totals).length > 0)
+        .map(player => [
+          player.number?.toString() ?? "",
+          player.name,
+          ...columns.map(column => {
+            const value = columnValue(column, player);
+            return value == null ? "–" : formatStatAggregate(column, value);
+          })
+        ])
+    );
+    layout.y += 8;
+  }
+}
+
+export function buildReportPdf(report: GameReport): Buffer {
+  const { game } = report;
+  const doc = new PdfDocument();
+  const layout = new ReportLayout(doc);
+  const format = getSportFormat(game.format);
+
+  doc.text(MARGIN, layout.y, fitText(`${report.teamName} vs ${game.opponent}`, 18, layout.contentWidth, true), { size: 18, bold: true });
+  layout.y += 26;
+
+  const date = new Date(game.date).toLocaleDateString("en-GB", { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+  layout.paragraph([date, game.location, format.name, report.competitionName].filter(Boolean).join(" • "), 10, 0.35);
+  layout.y += 8;
+
+  // The score
+  doc.fillRect(MARGIN, layout.y, layout.contentWidth, 56);
+  const middle = doc.width / 2;
+  doc.text(middle - 40, layout.y + 10, fitText(report.teamName, 12, middle - MARGIN - 60), { size: 12, bold: true, align: "right" });
+  doc.text(middle + 40, layout.y + 10, fitText(game.opponent, 12, middle - MARGIN - 60), { size: 12, bold: true });
+  doc.text(middle, layout.y + 8, `${game.homeScore ?? 0} – ${game.awayScore ?? 0}`, { size: 24, bold: true, align: "center" });
+  doc.text(middle, layout.y + 38, game.isCompleted ? "Full time" : "In progress", { size: 9, align: "center", gray: 0.35 });
+  layout.y += 66;
+
+  if (report.playerOfMatch) {
+    layout.heading("Player of the Match");
+    layout.paragraph(report.playerOfMatch.name);
+    if (report.playerOfMatch.comment) {
+      layout.paragraph(report.playerOfMatch.comment, 10, 0.35);
+    }
+  }
+
+  layout.heading("Scoring");
+  if (report.scoring.length === 0) {
+    layout.paragraph("No points scored.", 10, 0.35);
+  } else {
+    layout.table(
+      [
+        { header: "Period", width: 50 },
+        { header: "Min", width: 40 },
+        { header: "Team", width: 110 },
+        { header: "Score", width: 205 },
+        { header: "Points", width: 50, align: "right" },
+        { header: "Running", width: 60, align: "right" }
+      ],
+      report.scoring.map(event => [
+        event.period.toString(),
+        formatMinute(event.minute),
+        event.isOpposition ? game.opponent : report.teamName,
+        event.description,
+        event.points.toString(),
+        `${event.homeScore}–${event.awayScore}`
+      ])
+    );
+  }
+
+  layout.heading("Lineup");
+  if (report.players.length === 0) {
+    layout.paragraph("No team sheet was entered.", 10, 0.35);
+  } else {
+    layout.table(
+      [
+        { header: "#", width: 30 },
+        { header: "Player", width: 170 },
+        { header: "Position", width: 150 },
+        { header: "Started", width: 70 },
+        { header: "Minutes", width: 95, align: "right" }
+      ],
+      report.players.map(player => [
+        player.number?.toString() ?? "",
+        player.name,
+        player.position ?? "",
+        player.isStarter ? "Yes" : "Bench",
+        Math.round(player.minutes).toString()
+      ])
+    );
+  }
+
+  layout.heading("Player Stats");
+  if (report.statTypes.length === 0) {
+    layout.paragraph("No stats recorded.", 10, 0.35);
+  } else {
+    statTables(layout, report);
+  }
+
+  // Page numbers, once the page count is known
+  for (let index = 0; index < doc.pageCount; index++) {
+    doc.goToPage(index);
+    doc.text(doc.width - MARGIN, doc.height - MARGIN, `Page ${index + 1} of ${doc.pageCount}`, { size: 8, align: "right", gray: 0.5 });
+  }
+
+  return doc.toBuffer();
+}
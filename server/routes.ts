@@ -1,26 +1,170 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { Router } from "express";
-import { storage } from "./storage";
+import { DuplicateClientIdError, storage } from "./storage";
+import { calculateGameScore, getStatTypePoints, isScoringStat, recalculateGameScore, withOppositionPoints } from "./scoring";
+import { ClockTransitionError, getGameClock, recordClockEvent, stopGameClock } from "./clock";
+import { CardError, getSubstitutionCardError, issueCard, returnFromSinBin } from "./discipline";
+import { attachLiveSync, broadcast } from "./live";
+import { getGameMinutes, getSeasonMinutes, withStatRates } from "./minutes";
+import { TeamSheetError, checkLineupAddition, submitTeamSheet } from "./team-sheet";
+import { InterchangeError, checkInterchange, getInterchangeUsage } from "./interchange";
+import {
+  FixtureError,
+  checkCanStartGame,
+  checkStatusChange,
+  linkGameToFixture,
+  markFixturePlayed,
+  unlinkGameFromFixture,
+  withResults
+} from "./fixtures";
+import { buildFixtureCalendar, getCalendarToken } from "./calendar";
+import { checkFixtureImport } from "./fixture-import";
+import { buildPlayerCsv, checkPlayerImport } from "./player-import";
+import { buildGameReport, buildReportPdf, buildStatsCsv, buildTotalsCsv, getReportFileName } from "./report";
+import {
+  StatTypeError,
+  checkCanRecordStatType,
+  createStatType,
+  deleteStatTemplate,
+  reorderStatTypes,
+  resolveStatType,
+  retireStatType,
+  updateStatTemplate,
+  updateStatType
+} from "./stat-types";
+import {
+  getUpgradeUser,
+  hashPassword,
+  organisationOf,
+  passwordSchema,
+  requireAuth,
+  requirePermission,
+  setupAuth,
+  toPublicUser,
+  usernameSchema
+} from "./auth";
 import { z } from "zod";
+import { getSportFormat, sportFormatIds } from "@shared/formats";
+import { checkStatValue } from "@shared/stat-types";
 import {
   insertTeamSchema,
   insertPlayerSchema,
+  playerImportSchema,
   insertFixtureSchema,
+  fixtureImportSchema,
+  insertCompetitionSchema,
   insertGameSchema,
+  updateGameSchema,
   insertGamePlayerSchema,
+  teamSheetSchema,
   insertStatSchema,
-  insertStatTypeSchema
+  recordStatSchema,
+  insertGameEventSchema,
+  recordClockEventSchema,
+  issueCardSchema,
+  insertStatTypeSchema,
+  reorderStatTypesSchema,
+  insertStatTemplateSchema,
+  trackedStatsSchema,
+  statFiltersSchema,
+  minutesFiltersSchema,
+  statRateOptionsSchema,
+  createMemberSchema,
+  updateMemberSchema,
+  type Game,
+  type Stat
 } from "@shared/schema";
 
+// Whether a team id sent by a client is one of the club's teams
+async function isOwnTeam(organisationId: number, teamId: number | null | undefined): Promise<boolean> {
+  return teamId == null || !!await storage.getTeam(organisationId, teamId);
+}
+
+async function isOwnCompetition(organisationId: number, competitionId: number | null | undefined): Promise<boolean> {
+  return competitionId == null || !!await storage.getCompetition(organisationId, competitionId);
+}
+
+// Whether every player id sent by a client is one of the club's players
+async function areOwnPlayers(organisationId: number, playerIds: number[]): Promise<boolean> {
+  const players = await Promise.all(playerIds.map(id => storage.getPlayer(organisationId, id)));
+  return players.every(Boolean);
+}
+
+// Whether every player id sent by a client is one of the club's players in
+// the game's lineup, named on its team sheet or brought on since
+async function areGamePlayers(organisationId: number, gameId: number, playerIds: number[]): Promise<boolean> {
+  if (!await areOwnPlayers(organisationId, playerIds)) return false;
+  
+  const lineupIds = new Set((await storage.getGamePlayers(gameId)).map(gamePlayer => gamePlayer.playerId));
+  return playerIds.every(id => lineupIds.has(id));
+}
+
+// The stat a correction is aimed at, with its game, if that's one of the
+// club's. A device that recorded the stat offline may only know the client id
+// it gave it, so those corrections name the game and that id instead
+async function findStat(organisationId: number, params: Record<string, string>): Promise<{ stat: Stat; game: Game } | undefined> {
+  if (params.clientId !== undefined) {
+    const game = await storage.getGame(organisationId, Number(params.gameId));
+    const stat = game && await storage.getStatByClientId(game.id, params.clientId);
+    return stat && game ? { stat, game } : undefined;
+  }
+  
+  const stat = await storage.getStat(Number(params.id));
+  const game = stat && await storage.getGame(organisationId, stat.gameId);
+  return stat && game ? { stat, game } : undefined;
+}
+
+// Whether every stat type id sent by a client is the club's own or a built-in one
+async function areVisibleStatTypes(organisationId: number, statTypeIds: number[]): Promise<boolean> {
+  const visibleIds = new Set((await storage.getStatTypes(organisationId)).map(statType => statType.id));
+  return statTypeIds.every(id => visibleIds.has(id));
+}
+
+async function isVisibleStatTemplate(organisationId: number, statTemplateId: number | null | undefined): Promise<boolean> {
+  return statTemplateId == null || !!await storage.getStatTemplate(organisationId, statTemplateId);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Create router for API routes
+  // Sessions and the register/login/logout routes
+  setupAuth(app);
+  
+  // A team's fixture feed. Calendar apps subscribing to it can't log in, so
+  // the token in the subscription link stands in for a session.
+  app.get("/api/teams/:id/fixtures.ics", async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      const token = typeof req.query.token === "string" ? req.query.token : undefined;
+      
+      if (!token && !req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not logged in" });
+      }
+      
+      const team = token
+        ? await storage.getTeamByCalendarToken(token)
+        : await storage.getTeam(organisationOf(req), id);
+      
+      if (!team || team.id !== id) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const fixtures = await storage.getTeamFixtures(team.organisationId, team.id);
+      
+      res.type("text/calendar; charset=utf-8");
+      res.send(buildFixtureCalendar(team, await withResults(team.organisationId, fixtures)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build fixture calendar" });
+    }
+  });
+  
+  // Create router for API routes; everything on it needs a logged-in user
   const apiRouter = Router();
+  apiRouter.use(requireAuth);
 
   // Teams API
   apiRouter.get("/teams", async (req: Request, res: Response) => {
     try {
-      const teams = await storage.getTeams();
+      const teams = await storage.getTeams(organisationOf(req));
       res.json(teams);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch teams" });
@@ -30,7 +174,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   apiRouter.get("/teams/:id", async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
-      const team = await storage.getTeam(id);
+      const team = await storage.getTeam(organisationOf(req), id);
       
       if (!team) {
         return res.status(404).json({ message: "Team not found" });
@@ -42,7 +186,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  apiRouter.post("/teams", async (req: Request, res: Response) => {
+  apiRouter.post("/teams", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       const validation = insertTeamSchema.safeParse(req.body);
       
@@ -50,14 +194,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid team data", errors: validation.error.format() });
       }
       
-      const team = await storage.createTeam(validation.data);
+      // The bench defaults to the size the team's format allows
+      const team = await storage.createTeam(organisationOf(req), {
+        ...validation.data,
+        maxBenchSize: validation.data.maxBenchSize ?? getSportFormat(validation.data.format).maxBenchSize
+      });
       res.status(201).json(team);
     } catch (error) {
       res.status(500).json({ message: "Failed to create team" });
     }
   });
 
-  apiRouter.put("/teams/:id", async (req: Request, res: Response) => {
+  apiRouter.put("/teams/:id", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
       const validation = insertTeamSchema.partial().safeParse(req.body);
@@ -66,7 +214,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid team data", errors: validation.error.format() });
       }
       
-      const team = await storage.updateTeam(id, validation.data);
+      const team = await storage.updateTeam(organisationOf(req), id, validation.data);
       
       if (!team) {
         return res.status(404).json({ message: "Team not found" });
@@ -78,10 +226,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  apiRouter.delete("/teams/:id", async (req: Request, res: Response) => {
+  apiRouter.delete("/teams/:id", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
-      const success = await storage.deleteTeam(id);
+      const success = await storage.deleteTeam(organisationOf(req), id);
       
       if (!success) {
         return res.status(404).json({ message: "Team not found" });
@@ -96,7 +244,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   apiRouter.get("/teams/:id/players", async (req: Request, res: Response) => {
     try {
       const teamId = Number(req.params.id);
-      const players = await storage.getPlayersByTeam(teamId);
+      const players = await storage.getPlayersByTeam(organisationOf(req), teamId);
       res.json(players);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch team players" });
@@ -106,17 +254,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   apiRouter.get("/teams/:id/fixtures", async (req: Request, res: Response) => {
     try {
       const teamId = Number(req.params.id);
-      const fixtures = await storage.getTeamFixtures(teamId);
-      res.json(fixtures);
+      const fixtures = await storage.getTeamFixtures(organisationOf(req), teamId);
+      res.json(await withResults(organisationOf(req), fixtures));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch team fixtures" });
     }
   });
 
+  // The subscription link for a team's fixture feed, for any club member to share
+  apiRouter.post("/teams/:id/calendar-link", async (req: Request, res: Response) => {
+    try {
+      const team = await storage.getTeam(organisationOf(req), Number(req.params.id));
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const token = await getCalendarToken(team);
+      res.json({ url: `${req.protocol}://${req.get("host")}/api/teams/${team.id}/fixtures.ics?token=${token}` });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create calendar link" });
+    }
+  });
+
   apiRouter.get("/teams/:id/games", async (req: Request, res: Response) => {
     try {
       const teamId = Number(req.params.id);
-      const games = await storage.getTeamGames(teamId);
+      const games = await storage.getTeamGames(organisationOf(req), teamId);
       res.json(games);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch team games" });
@@ -126,8 +290,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Fixtures API
   apiRouter.get("/fixtures", async (req: Request, res: Response) => {
     try {
-      const fixtures = await storage.getFixtures();
-      res.json(fixtures);
+      const fixtures = await storage.getFixtures(organisationOf(req));
+      res.json(await withResults(organisationOf(req), fixtures));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch fixtures" });
     }
@@ -136,19 +300,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   apiRouter.get("/fixtures/:id", async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
-      const fixture = await storage.getFixture(id);
+      const fixture = await storage.getFixture(organisationOf(req), id);
       
       if (!fixture) {
         return res.status(404).json({ message: "Fixture not found" });
       }
       
-      res.json(fixture);
+      const [fixtureWithResult] = await withResults(organisationOf(req), [fixture]);
+      res.json(fixtureWithResult);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch fixture" });
     }
   });
 
-  apiRouter.post("/fixtures", async (req: Request, res: Response) => {
+  apiRouter.post("/fixtures", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       // Create a custom validation schema that handles the date as a string
       const fixtureCreateSchema = z.object({
@@ -166,14 +331,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid fixture data", errors: validation.error.format() });
       }
       
-      const fixture = await storage.createFixture(validation.data);
+      if (!await isOwnTeam(organisationOf(req), validation.data.teamId)) {
+        return res.status(400).json({ message: "Team not found" });
+      }
+      
+      const fixture = await storage.createFixture(organisationOf(req), validation.data);
       res.status(201).json(fixture);
     } catch (error) {
       res.status(500).json({ message: "Failed to create fixture" });
     }
   });
 
-  apiRouter.put("/fixtures/:id", async (req: Request, res: Response) => {
+  // Previews a season draw with dryRun, then creates its new fixtures together
+  apiRouter.post("/fixtures/import", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const validation = fixtureImportSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid import data", errors: validation.error.format() });
+      }
+      
+      const { teamId, rows, dryRun } = validation.data;
+      
+      if (!await storage.getTeam(organisationOf(req), teamId)) {
+        return res.status(400).json({ message: "Team not found" });
+      }
+      
+      const checked = await checkFixtureImport(organisationOf(req), teamId, rows);
+      
+      if (dryRun) {
+        return res.json({ rows: checked.rows, created: 0 });
+      }
+      
+      if (checked.rows.some(row => row.errors.length > 0)) {
+        return res.status(400).json({ message: "Some rows can't be imported", rows: checked.rows });
+      }
+      
+      const created = await storage.createFixtures(organisationOf(req), checked.fixtures);
+      res.status(201).json({ rows: checked.rows, created: created.length });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to import fixtures" });
+    }
+  });
+
+  apiRouter.put("/fixtures/:id", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
       const validation = insertFixtureSchema.partial().safeParse(req.body);
@@ -182,22 +383,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid fixture data", errors: validation.error.format() });
       }
       
-      const fixture = await storage.updateFixture(id, validation.data);
+      if (!await isOwnTeam(organisationOf(req), validation.data.teamId)) {
+        return res.status(400).json({ message: "Team not found" });
+      }
+      
+      const existingFixture = await storage.getFixture(organisationOf(req), id);
       
-      if (!fixture) {
+      if (!existingFixture) {
         return res.status(404).json({ message: "Fixture not found" });
       }
       
+      checkStatusChange(existingFixture, validation.data.status);
+      
+      const fixture = await storage.updateFixture(organisationOf(req), id, validation.data);
       res.json(fixture);
     } catch (error) {
+      if (error instanceof FixtureError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update fixture" });
     }
   });
 
-  apiRouter.delete("/fixtures/:id", async (req: Request, res: Response) => {
+  apiRouter.delete("/fixtures/:id", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
-      const success = await storage.deleteFixture(id);
+      const success = await storage.deleteFixture(organisationOf(req), id);
       
       if (!success) {
         return res.status(404).json({ message: "Fixture not found" });
@@ -209,20 +420,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Competitions API
+  apiRouter.get("/competitions", async (req: Request, res: Response) => {
+    try {
+      const competitions = await storage.getCompetitions(organisationOf(req));
+      res.json(competitions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch competitions" });
+    }
+  });
+
+  apiRouter.post("/competitions", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const validation = insertCompetitionSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid competition data", errors: validation.error.format() });
+      }
+      
+      const competition = await storage.createCompetition(organisationOf(req), validation.data);
+      res.status(201).json(competition);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create competition" });
+    }
+  });
+
+  apiRouter.put("/competitions/:id", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      const validation = insertCompetitionSchema.partial().safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid competition data", errors: validation.error.format() });
+      }
+      
+      const competition = await storage.updateCompetition(organisationOf(req), id, validation.data);
+      
+      if (!competition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+      
+      res.json(competition);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update competition" });
+    }
+  });
+
+  apiRouter.delete("/competitions/:id", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      const success = await storage.deleteCompetition(organisationOf(req), id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete competition" });
+    }
+  });
+
   // Players API
   apiRouter.get("/players", async (req: Request, res: Response) => {
     try {
-      const players = await storage.getPlayers();
+      const players = await storage.getPlayers(organisationOf(req));
       res.json(players);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch players" });
     }
   });
 
+  // The pool as a CSV file, in the columns the import reads
+  apiRouter.get("/players/export", async (req: Request, res: Response) => {
+    try {
+      const [players, teams] = await Promise.all([
+        storage.getPlayers(organisationOf(req)),
+        storage.getTeams(organisationOf(req))
+      ]);
+      
+      res.type("text/csv");
+      res.attachment("players.csv");
+      res.send(buildPlayerCsv(players, teams));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export players" });
+    }
+  });
+
   apiRouter.get("/players/:id", async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
-      const player = await storage.getPlayer(id);
+      const player = await storage.getPlayer(organisationOf(req), id);
       
       if (!player) {
         return res.status(404).json({ message: "Player not found" });
@@ -234,7 +522,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  apiRouter.post("/players", async (req: Request, res: Response) => {
+  apiRouter.post("/players", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       const validation = insertPlayerSchema.safeParse(req.body);
       
@@ -242,14 +530,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid player data", errors: validation.error.format() });
       }
       
-      const player = await storage.createPlayer(validation.data);
+      if (!await isOwnTeam(organisationOf(req), validation.data.teamId)) {
+        return res.status(400).json({ message: "Team not found" });
+      }
+      
+      const player = await storage.createPlayer(organisationOf(req), validation.data);
       res.status(201).json(player);
     } catch (error) {
       res.status(500).json({ message: "Failed to create player" });
     }
   });
 
-  apiRouter.put("/players/:id", async (req: Request, res: Response) => {
+  // Previews a roster with dryRun, then adds its new players together
+  apiRouter.post("/players/import", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const validation = playerImportSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid import data", errors: validation.error.format() });
+      }
+      
+      const checked = await checkPlayerImport(organisationOf(req), validation.data.rows);
+      
+      if (validation.data.dryRun) {
+        return res.json({ rows: checked.rows, created: 0 });
+      }
+      
+      if (checked.rows.some(row => row.errors.length > 0)) {
+        return res.status(400).json({ message: "Some rows can't be imported", rows: checked.rows });
+      }
+      
+      const created = await storage.createPlayers(organisationOf(req), checked.players);
+      res.status(201).json({ rows: checked.rows, created: created.length });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to import players" });
+    }
+  });
+
+  apiRouter.put("/players/:id", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
       const validation = insertPlayerSchema.partial().safeParse(req.body);
@@ -258,7 +576,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid player data", errors: validation.error.format() });
       }
       
-      const player = await storage.updatePlayer(id, validation.data);
+      if (!await isOwnTeam(organisationOf(req), validation.data.teamId)) {
+        return res.status(400).json({ message: "Team not found" });
+      }
+      
+      const player = await storage.updatePlayer(organisationOf(req), id, validation.data);
       
       if (!player) {
         return res.status(404).json({ message: "Player not found" });
@@ -270,10 +592,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  apiRouter.delete("/players/:id", async (req: Request, res: Response) => {
+  apiRouter.delete("/players/:id", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
-      const success = await storage.deletePlayer(id);
+      const success = await storage.deletePlayer(organisationOf(req), id);
       
       if (!success) {
         return res.status(404).json({ message: "Player not found" });
@@ -288,7 +610,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Games API
   apiRouter.get("/games", async (req: Request, res: Response) => {
     try {
-      const games = await storage.getGames();
+      const games = await storage.getGames(organisationOf(req));
       res.json(games);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch games" });
@@ -298,7 +620,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   apiRouter.get("/games/:id", async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
-      const game = await storage.getGame(id);
+      const game = await storage.getGame(organisationOf(req), id);
       
       if (!game) {
         return res.status(404).json({ message: "Game not found" });
@@ -310,17 +632,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  apiRouter.post("/games", async (req: Request, res: Response) => {
+  apiRouter.post("/games", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       console.log('Game creation request body:', JSON.stringify(req.body));
       
       // Create a custom validation schema that handles the date as a string
       const gameCreateSchema = z.object({
+        // A game started from a fixture is played by the fixture's team
+        teamId: z.number().int().optional(),
+        fixtureId: z.number().int().nullish(),
         opponent: z.string(),
         location: z.string(),
         date: z.string().transform(val => new Date(val)),
-        halfLength: z.number(),
-        numberOfHalves: z.number()
+        // Defaults to the team's format
+        format: z.enum(sportFormatIds).optional(),
+        // Match length and sin-bins default to the format's
+        halfLength: z.number().optional(),
+        numberOfHalves: z.number().optional(),
+        sinBinMinutes: z.number().int().positive().optional(),
+        competitionId: z.number().int().nullish()
       });
       
       const validation = gameCreateSchema.safeParse(req.body);
@@ -330,24 +660,119 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid game data", errors: validation.error.format() });
       }
       
-      const game = await storage.createGame(validation.data);
+      if (!await isOwnCompetition(organisationOf(req), validation.data.competitionId)) {
+        return res.status(400).json({ message: "Competition not found" });
+      }
+      
+      const fixture = validation.data.fixtureId != null
+        ? await storage.getFixture(organisationOf(req), validation.data.fixtureId)
+        : undefined;
+      
+      if (validation.data.fixtureId != null && !fixture) {
+        return res.status(400).json({ message: "Fixture not found" });
+      }
+      
+      if (fixture) {
+        checkCanStartGame(fixture);
+      }
+      
+      const teamId = fixture?.teamId ?? validation.data.teamId;
+      const team = teamId != null ? await storage.getTeam(organisationOf(req), teamId) : undefined;
+      
+      if (!team) {
+        return res.status(400).json({ message: "Team not found" });
+      }
+      
+      const format = getSportFormat(validation.data.format ?? team.format);
+      const game = await storage.createGame(organisationOf(req), {
+        ...validation.data,
+        teamId: team.id,
+        format: format.id,
+        halfLength: validation.data.halfLength ?? format.halfLength,
+        numberOfHalves: validation.data.numberOfHalves ?? format.numberOfHalves,
+        sinBinMinutes: validation.data.sinBinMinutes ?? format.sinBinMinutes
+      });
+      
+      await linkGameToFixture(game);
       res.status(201).json(game);
     } catch (error) {
+      if (error instanceof FixtureError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error('Game creation error:', error);
       res.status(500).json({ message: "Failed to create game" });
     }
   });
 
-  apiRouter.put("/games/:id", async (req: Request, res: Response) => {
+  apiRouter.put("/games/:id", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      // Games are linked to fixtures when they're created from them
+      const validation = insertGameSchema.omit({ fixtureId: true }).partial().safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid game data", errors: validation.error.format() });
+      }
+      
+      if (!await isOwnTeam(organisationOf(req), validation.data.teamId)) {
+        return res.status(400).json({ message: "Team not found" });
+      }
+      
+      if (!await isOwnCompetition(organisationOf(req), validation.data.competitionId)) {
+        return res.status(400).json({ message: "Competition not found" });
+      }
+      
+      const game = await storage.updateGame(organisationOf(req), id, validation.data);
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      res.json(game);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update game" });
+    }
+  });
+
+  apiRouter.patch("/games/:id", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
-      const validation = insertGameSchema.partial().safeParse(req.body);
+      // Scores are derived from the stat log and opposition events, never patched
+      // directly; games are completed through /games/:id/complete, which stops
+      // the clock and marks the fixture played; the tracked stats are checked
+      // through /games/:id/tracked-stats
+      const gamePatchSchema = updateGameSchema.omit({
+        homeScore: true,
+        awayScore: true,
+        isCompleted: true,
+        fixtureId: true,
+        statTemplateId: true,
+        statTypeIds: true
+      }).extend({
+        date: z.string().transform(val => new Date(val)).optional()
+      });
+      
+      const validation = gamePatchSchema.safeParse(req.body);
       
       if (!validation.success) {
         return res.status(400).json({ message: "Invalid game data", errors: validation.error.format() });
       }
       
-      const game = await storage.updateGame(id, validation.data);
+      if (!await isOwnTeam(organisationOf(req), validation.data.teamId)) {
+        return res.status(400).json({ message: "Team not found" });
+      }
+      
+      if (!await isOwnCompetition(organisationOf(req), validation.data.competitionId)) {
+        return res.status(400).json({ message: "Competition not found" });
+      }
+      
+      const { playerOfMatchId } = validation.data;
+      
+      if (playerOfMatchId != null && !await areGamePlayers(organisationOf(req), id, [playerOfMatchId])) {
+        return res.status(400).json({ message: "Player not in this game" });
+      }
+      
+      const game = await storage.updateGame(organisationOf(req), id, validation.data);
       
       if (!game) {
         return res.status(404).json({ message: "Game not found" });
@@ -359,12 +784,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  apiRouter.post("/games/:id/complete", async (req: Request, res: Response) => {
+  apiRouter.post("/games/:id/complete", requirePermission("record"), async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
       const completeGameSchema = z.object({
-        homeScore: z.number(),
-        awayScore: z.number(),
+        homeScore: z.number().optional(),
+        awayScore: z.number().optional(),
         playerOfMatchId: z.number().optional(),
         playerOfMatchComment: z.string().optional()
       });
@@ -375,29 +800,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid completion data", errors: validation.error.format() });
       }
       
-      const { homeScore, awayScore, playerOfMatchId, playerOfMatchComment } = validation.data;
+      const { playerOfMatchId, playerOfMatchComment } = validation.data;
+      
+      const existingGame = await storage.getGame(organisationOf(req), id);
+      
+      if (!existingGame) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      if (playerOfMatchId != null && !await areGamePlayers(organisationOf(req), id, [playerOfMatchId])) {
+        return res.status(400).json({ message: "Player not in this game" });
+      }
+      
+      await stopGameClock(existingGame);
       
-      const game = await storage.completeGame(id, homeScore, awayScore, playerOfMatchId, playerOfMatchComment);
+      // A tracked game's score always comes from its records; the submitted
+      // score is only used for games entered after the fact
+      const derivedScore = await calculateGameScore(existingGame);
+      const homeScore = derivedScore.hasScoringRecords ? derivedScore.homeScore : validation.data.homeScore ?? 0;
+      const awayScore = derivedScore.hasScoringRecords ? derivedScore.awayScore : validation.data.awayScore ?? 0;
+      
+      const game = await storage.completeGame(organisationOf(req), id, homeScore, awayScore, playerOfMatchId, playerOfMatchComment);
       
       if (!game) {
         return res.status(404).json({ message: "Game not found" });
       }
       
+      await markFixturePlayed(game);
+      
+      broadcast({ type: "score", gameId: id, homeScore, awayScore });
       res.json(game);
     } catch (error) {
       res.status(500).json({ message: "Failed to complete game" });
     }
   });
 
-  apiRouter.delete("/games/:id", async (req: Request, res: Response) => {
+  apiRouter.delete("/games/:id", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
-      const id = Number(req.params.id);
-      const success = await storage.deleteGame(id);
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
       
-      if (!success) {
+      if (!game) {
         return res.status(404).json({ message: "Game not found" });
       }
       
+      await storage.deleteGame(game.organisationId, game.id);
+      await unlinkGameFromFixture(game);
+      
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete game" });
@@ -407,18 +855,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // GamePlayers API
   apiRouter.get("/games/:id/players", async (req: Request, res: Response) => {
     try {
-      const gameId = Number(req.params.id);
-      const gamePlayers = await storage.getGamePlayers(gameId);
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const gamePlayers = await storage.getGamePlayers(game.id);
       res.json(gamePlayers);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch game players" });
     }
   });
 
-  apiRouter.post("/games/:id/players", async (req: Request, res: Response) => {
+  apiRouter.post("/games/:id/players", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
-      const gameId = Number(req.params.id);
-      const gamePlayerData = { ...req.body, gameId };
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const gamePlayerData = { ...req.body, gameId: game.id };
       
       const validation = insertGamePlayerSchema.safeParse(gamePlayerData);
       
@@ -426,90 +884,720 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid game player data", errors: validation.error.format() });
       }
       
+      if (!await areOwnPlayers(organisationOf(req), [validation.data.playerId])) {
+        return res.status(400).json({ message: "Player not found" });
+      }
+      
+      await checkLineupAddition(game, validation.data);
+      
       const gamePlayer = await storage.createGamePlayer(validation.data);
       res.status(201).json(gamePlayer);
     } catch (error) {
+      if (error instanceof TeamSheetError) {
+        return res.status(400).json({ message: error.message, issues: error.issues });
+      }
+      if (error instanceof DuplicateClientIdError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create game player" });
     }
   });
 
-  apiRouter.post("/games/:id/substitutions", async (req: Request, res: Response) => {
+  // Replaces the lineup with a full team sheet, up until kick-off
+  apiRouter.post("/games/:id/team-sheet", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
-      const gameId = Number(req.params.id);
-      const substitutionSchema = z.object({
-        outPlayerId: z.number(),
-        inPlayerId: z.number(),
-        time: z.number()
-      });
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
       
-      const validation = substitutionSchema.safeParse(req.body);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const validation = teamSheetSchema.safeParse(req.body);
       
       if (!validation.success) {
-        return res.status(400).json({ message: "Invalid substitution data", errors: validation.error.format() });
+        return res.status(400).json({ message: "Invalid team sheet", errors: validation.error.format() });
       }
       
-      const { outPlayerId, inPlayerId, time } = validation.data;
-      
-      const success = await storage.substitutePlayer(gameId, outPlayerId, inPlayerId, time);
+      const playerIds = validation.data.players.map(entry => entry.playerId);
+      if (!await areOwnPlayers(organisationOf(req), playerIds)) {
+        return res.status(400).json({ message: "Player not found" });
+      }
       
-      if (!success) {
-        return res.status(400).json({ message: "Failed to substitute player" });
+      const clockEvents = await storage.getClockEvents(game.id);
+      if (game.isCompleted || clockEvents.length > 0) {
+        return res.status(409).json({ message: "The team sheet can't be changed after kick-off" });
       }
       
-      res.status(200).json({ message: "Substitution completed successfully" });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to substitute player" });
-    }
-  });
-
-  // Stats API
-  apiRouter.get("/games/:id/stats", async (req: Request, res: Response) => {
-    try {
-      const gameId = Number(req.params.id);
-      const stats = await storage.getGameStats(gameId);
-      res.json(stats);
+      const lineup = await submitTeamSheet(game, validation.data.players);
+      broadcast({ type: "lineup_changed", gameId: game.id });
+      res.status(201).json(lineup);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch game stats" });
+      if (error instanceof TeamSheetError) {
+        return res.status(400).json({ message: error.message, issues: error.issues });
+      }
+      res.status(500).json({ message: "Failed to save the team sheet" });
     }
   });
 
-  apiRouter.get("/games/:gameId/players/:playerId/stats", async (req: Request, res: Response) => {
+  // The stat buttons the live screen shows for this game
+  apiRouter.put("/games/:id/tracked-stats", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
-      const gameId = Number(req.params.gameId);
-      const playerId = Number(req.params.playerId);
-      const stats = await storage.getPlayerGameStats(gameId, playerId);
-      res.json(stats);
+      const validation = trackedStatsSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid tracked stats", errors: validation.error.format() });
+      }
+      
+      const { statTemplateId, statTypeIds } = validation.data;
+      
+      if (!await isVisibleStatTemplate(organisationOf(req), statTemplateId)) {
+        return res.status(400).json({ message: "Stat template not found" });
+      }
+      
+      if (!await areVisibleStatTypes(organisationOf(req), statTypeIds)) {
+        return res.status(400).json({ message: "Stat type not found" });
+      }
+      
+      const game = await storage.updateGame(organisationOf(req), Number(req.params.id), {
+        statTemplateId,
+        statTypeIds: Array.from(new Set(statTypeIds))
+      });
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      res.json(game);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch player game stats" });
+      res.status(500).json({ message: "Failed to save the tracked stats" });
     }
   });
 
-  apiRouter.post("/stats", async (req: Request, res: Response) => {
+  apiRouter.post("/games/:id/substitutions", requirePermission("record"), async (req: Request, res: Response) => {
     try {
-      const validation = insertStatSchema.safeParse(req.body);
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
       
-      if (!validation.success) {
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const gameId = game.id;
+      const substitutionSchema = z.object({
+        outPlayerId: z.number(),
+        inPlayerId: z.number(),
+        time: z.number(),
+        period: z.number().int().positive().optional(),
+        clientId: z.string().optional()
+      });
+      
+      const validation = substitutionSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid substitution data", errors: validation.error.format() });
+      }
+      
+      const { outPlayerId, inPlayerId, time, period, clientId } = validation.data;
+      
+      // A replayed offline substitution has already been applied
+      if (clientId && await storage.getGamePlayerByClientId(gameId, clientId)) {
+        return res.status(200).json({ message: "Substitution completed successfully" });
+      }
+      
+      if (!await areOwnPlayers(organisationOf(req), [outPlayerId, inPlayerId])) {
+        return res.status(400).json({ message: "Player not found" });
+      }
+      
+      const cardError = await getSubstitutionCardError(gameId, outPlayerId, inPlayerId);
+      
+      if (cardError) {
+        return res.status(409).json({ message: cardError });
+      }
+      
+      await checkInterchange(game, outPlayerId, inPlayerId);
+      
+      const success = await storage.substitutePlayer(gameId, outPlayerId, inPlayerId, time, clientId, period);
+      
+      if (!success) {
+        return res.status(400).json({ message: "Failed to substitute player" });
+      }
+      
+      broadcast({ type: "lineup_changed", gameId });
+      res.status(200).json({ message: "Substitution completed successfully" });
+    } catch (error) {
+      if (error instanceof InterchangeError || error instanceof DuplicateClientIdError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to substitute player" });
+    }
+  });
+
+  apiRouter.get("/games/:id/interchanges", async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      res.json(await getInterchangeUsage(game));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch interchanges" });
+    }
+  });
+
+  // Stats API
+  apiRouter.get("/games/:id/stats", async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const stats = await storage.getGameStats(game.id);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch game stats" });
+    }
+  });
+
+  apiRouter.get("/games/:gameId/players/:playerId/stats", async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.gameId));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const playerId = Number(req.params.playerId);
+      const stats = await storage.getPlayerGameStats(game.id, playerId);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch player game stats" });
+    }
+  });
+
+  apiRouter.get("/stats", async (req: Request, res: Response) => {
+    try {
+      const { aggregate, minMinutes, ...filters } = req.query;
+      const validation = statFiltersSchema.safeParse(filters);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid stat filters", errors: validation.error.format() });
+      }
+      
+      // Aggregate mode returns per-player and per-stat totals instead of raw
+      // rows, with player rates against minutes played
+      if (aggregate === "true") {
+        const options = statRateOptionsSchema.safeParse({ minMinutes });
+        
+        if (!options.success) {
+          return res.status(400).json({ message: "Invalid stat filters", errors: options.error.format() });
+        }
+        
+        const totals = await storage.getStatTotals(organisationOf(req), validation.data);
+        return res.json(await withStatRates(organisationOf(req), totals, validation.data, options.data.minMinutes));
+      }
+      
+      const stats = await storage.getStats(organisationOf(req), validation.data);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stats" });
+    }
+  });
+
+  apiRouter.post("/stats", requirePermission("record"), async (req: Request, res: Response) => {
+    try {
+      const validation = recordStatSchema.safeParse(req.body);
+      
+      if (!validation.success) {
         return res.status(400).json({ message: "Invalid stat data", errors: validation.error.format() });
       }
       
-      const stat = await storage.createStat(validation.data);
+      const game = await storage.getGame(organisationOf(req), validation.data.gameId);
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      // A replayed offline stat returns the copy we already have
+      if (validation.data.clientId) {
+        const existingStat = await storage.getStatByClientId(game.id, validation.data.clientId);
+        
+        if (existingStat) {
+          return res.status(200).json(existingStat);
+        }
+      }
+      
+      if (!await areGamePlayers(organisationOf(req), game.id, [validation.data.playerId])) {
+        return res.status(400).json({ message: "Player not in this game" });
+      }
+      
+      const statType = await resolveStatType(organisationOf(req), validation.data);
+      
+      if (!statType) {
+        return res.status(400).json({ message: "Stat type not found" });
+      }
+      
+      checkCanRecordStatType(statType);
+      
+      const valueIssue = checkStatValue(statType, validation.data.value);
+      
+      if (valueIssue) {
+        return res.status(400).json({ message: valueIssue });
+      }
+      
+      const stat = await storage.createStat({
+        ...validation.data,
+        statTypeId: statType.id,
+        statType: statType.name,
+        value: validation.data.value ?? 1 // only counts get here without a value
+      });
+      broadcast({ type: "stat_created", gameId: stat.gameId, stat });
+      
+      if (await isScoringStat(game, stat)) {
+        await recalculateGameScore(game);
+      }
+      
       res.status(201).json(stat);
     } catch (error) {
+      if (error instanceof StatTypeError || error instanceof DuplicateClientIdError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create stat" });
     }
   });
 
+  apiRouter.patch(["/stats/:id", "/games/:gameId/stats/by-client-id/:clientId"], requirePermission("record"), async (req: Request, res: Response) => {
+    try {
+      const statPatchSchema = insertStatSchema.pick({
+        playerId: true,
+        statTypeId: true,
+        statType: true,
+        value: true,
+        gameTime: true,
+        period: true
+      }).partial();
+      
+      const validation = statPatchSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid stat data", errors: validation.error.format() });
+      }
+      
+      const found = await findStat(organisationOf(req), req.params);
+      
+      if (!found) {
+        return res.status(404).json({ message: "Stat not found" });
+      }
+      
+      const { stat: existingStat, game } = found;
+      const { playerId } = validation.data;
+      
+      if (playerId !== undefined && !await areGamePlayers(organisationOf(req), game.id, [playerId])) {
+        return res.status(400).json({ message: "Player not in this game" });
+      }
+      
+      const changes = { ...validation.data };
+      let statType = existingStat.statTypeId != null
+        ? await storage.getStatType(organisationOf(req), existingStat.statTypeId)
+        : undefined;
+      
+      // A new type is looked up like a new stat's, and both fields follow it
+      if (changes.statTypeId != null || changes.statType !== undefined) {
+        statType = await resolveStatType(organisationOf(req), changes);
+      
+        if (!statType) {
+          return res.status(400).json({ message: "Stat type not found" });
+        }
+      
+        if (statType.id !== existingStat.statTypeId) {
+          checkCanRecordStatType(statType);
+        }
+      
+        changes.statTypeId = statType.id;
+        changes.statType = statType.name;
+      }
+      
+      // A new value or type has to suit the type the stat ends up with
+      const isRevalued = changes.value !== undefined || changes.statTypeId != null;
+      const valueIssue = isRevalued && statType
+        && checkStatValue(statType, changes.value !== undefined ? changes.value : existingStat.value);
+      
+      if (valueIssue) {
+        return res.status(400).json({ message: valueIssue });
+      }
+      
+      // Only a count gets here with its value cleared, which records it once
+      if (changes.value === null) {
+        changes.value = 1;
+      }
+      
+      const stat = await storage.updateStat(existingStat.id, changes);
+      
+      if (stat) {
+        broadcast({ type: "stat_updated", gameId: stat.gameId, stat });
+      }
+      
+      // Re-score if the stat was or has become a scoring stat
+      if (await isScoringStat(game, existingStat) || (stat && await isScoringStat(game, stat))) {
+        await recalculateGameScore(game);
+      }
+      
+      res.json(stat);
+    } catch (error) {
+      if (error instanceof StatTypeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update stat" });
+    }
+  });
+
+  apiRouter.delete(["/stats/:id", "/games/:gameId/stats/by-client-id/:clientId"], requirePermission("record"), async (req: Request, res: Response) => {
+    try {
+      const found = await findStat(organisationOf(req), req.params);
+      
+      if (!found) {
+        return res.status(404).json({ message: "Stat not found" });
+      }
+      
+      const { stat: existingStat, game } = found;
+      await storage.deleteStat(existingStat.id);
+      broadcast({ type: "stat_deleted", gameId: existingStat.gameId, statId: existingStat.id });
+      
+      if (await isScoringStat(game, existingStat)) {
+        await recalculateGameScore(game);
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete stat" });
+    }
+  });
+
+  // GameEvents API
+  apiRouter.get("/games/:id/events", async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const events = await storage.getGameEvents(game.id);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch game events" });
+    }
+  });
+
+  apiRouter.post("/games/:id/events", requirePermission("record"), async (req: Request, res: Response) => {
+    try {
+      const gameId = Number(req.params.id);
+      const game = await storage.getGame(organisationOf(req), gameId);
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const validation = insertGameEventSchema.safeParse({ ...req.body, gameId });
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid game event data", errors: validation.error.format() });
+      }
+      
+      const { playerId } = validation.data;
+      
+      if (playerId != null && !await areGamePlayers(organisationOf(req), game.id, [playerId])) {
+        return res.status(400).json({ message: "Player not in this game" });
+      }
+      
+      const event = await storage.createGameEvent(await withOppositionPoints(game, validation.data));
+      
+      if (event.isOpposition) {
+        await recalculateGameScore(game);
+      }
+      
+      res.status(201).json(event);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create game event" });
+    }
+  });
+
+  apiRouter.patch("/games/:gameId/events/:eventId", requirePermission("record"), async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.gameId));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const gameId = game.id;
+      const eventId = Number(req.params.eventId);
+      const validation = insertGameEventSchema.omit({ gameId: true }).partial().safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid game event data", errors: validation.error.format() });
+      }
+      
+      const existingEvent = await storage.getGameEvent(eventId);
+      
+      if (!existingEvent || existingEvent.gameId !== gameId) {
+        return res.status(404).json({ message: "Game event not found" });
+      }
+      
+      const { playerId } = validation.data;
+      
+      if (playerId != null && !await areGamePlayers(organisationOf(req), gameId, [playerId])) {
+        return res.status(400).json({ message: "Player not in this game" });
+      }
+      
+      const changes = { ...validation.data };
+      const isOpposition = changes.isOpposition ?? existingEvent.isOpposition;
+      
+      // Re-price an opposition event when its type changes or it becomes an opposition event
+      if (isOpposition && changes.points == null && (changes.type || changes.isOpposition)) {
+        changes.points = await getStatTypePoints(game, changes.type ?? existingEvent.type);
+      }
+      
+      const event = await storage.updateGameEvent(eventId, changes);
+      
+      if (existingEvent.isOpposition || event?.isOpposition) {
+        await recalculateGameScore(game);
+      }
+      
+      res.json(event);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update game event" });
+    }
+  });
+
+  apiRouter.delete("/games/:gameId/events/:eventId", requirePermission("record"), async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.gameId));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const gameId = game.id;
+      const eventId = Number(req.params.eventId);
+      const existingEvent = await storage.getGameEvent(eventId);
+      
+      if (!existingEvent || existingEvent.gameId !== gameId) {
+        return res.status(404).json({ message: "Game event not found" });
+      }
+      
+      await storage.deleteGameEvent(eventId);
+      
+      if (existingEvent.isOpposition) {
+        await recalculateGameScore(game);
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete game event" });
+    }
+  });
+
+  // Match clock API
+  apiRouter.get("/games/:id/clock", async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      res.json(await getGameClock(game));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch match clock" });
+    }
+  });
+
+  apiRouter.post("/games/:id/clock", requirePermission("record"), async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const validation = recordClockEventSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid clock event data", errors: validation.error.format() });
+      }
+      
+      // A replayed offline clock event returns the copy we already have
+      if (validation.data.clientId) {
+        const existingEvent = await storage.getClockEventByClientId(game.id, validation.data.clientId);
+        
+        if (existingEvent) {
+          return res.status(200).json(existingEvent);
+        }
+      }
+      
+      const event = await recordClockEvent(game, validation.data);
+      res.status(201).json(event);
+    } catch (error) {
+      if (error instanceof ClockTransitionError || error instanceof DuplicateClientIdError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to record clock event" });
+    }
+  });
+
+  // Cards API
+  apiRouter.get("/games/:id/cards", async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const gameCards = await storage.getCards(game.id);
+      res.json(gameCards);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch cards" });
+    }
+  });
+
+  apiRouter.post("/games/:id/cards", requirePermission("record"), async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const validation = issueCardSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid card data", errors: validation.error.format() });
+      }
+      
+      // A replayed offline card returns the copy we already have
+      if (validation.data.clientId) {
+        const existingCard = await storage.getCardByClientId(game.id, validation.data.clientId);
+        
+        if (existingCard) {
+          return res.status(200).json(existingCard);
+        }
+      }
+      
+      const card = await issueCard(game, validation.data);
+      res.status(201).json(card);
+    } catch (error) {
+      if (error instanceof CardError || error instanceof DuplicateClientIdError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to issue card" });
+    }
+  });
+
+  // A card still queued on the device that showed it is named by its client id
+  apiRouter.post(["/games/:gameId/cards/:cardId/return", "/games/:gameId/cards/by-client-id/:clientId/return"], requirePermission("record"), async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.gameId));
+      const card = !game ? undefined : req.params.clientId !== undefined
+        ? await storage.getCardByClientId(game.id, req.params.clientId)
+        : await storage.getCard(Number(req.params.cardId));
+      
+      if (!game || !card || card.gameId !== game.id) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      
+      res.json(await returnFromSinBin(game, card));
+    } catch (error) {
+      if (error instanceof CardError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to return player from the sin bin" });
+    }
+  });
+
+  // Minutes played API
+  apiRouter.get("/games/:id/minutes", async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      res.json(await getGameMinutes(game));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch minutes played" });
+    }
+  });
+
+  // Match report downloads
+  apiRouter.get("/games/:id/report.pdf", async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      const report = await buildGameReport(game);
+      res.type("application/pdf");
+      res.attachment(getReportFileName(game, "report.pdf"));
+      res.send(buildReportPdf(report));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build match report" });
+    }
+  });
+
+  // The raw stat log, or each player's totals
+  apiRouter.get("/games/:id/report/:data.csv", async (req: Request, res: Response) => {
+    try {
+      const game = await storage.getGame(organisationOf(req), Number(req.params.id));
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      if (req.params.data !== "stats" && req.params.data !== "totals") {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      
+      const report = await buildGameReport(game);
+      res.type("text/csv");
+      res.attachment(getReportFileName(game, `${req.params.data}.csv`));
+      res.send(req.params.data === "stats" ? buildStatsCsv(report) : buildTotalsCsv(report));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build match report" });
+    }
+  });
+
+  apiRouter.get("/minutes", async (req: Request, res: Response) => {
+    try {
+      const validation = minutesFiltersSchema.safeParse(req.query);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid minutes filters", errors: validation.error.format() });
+      }
+      
+      res.json(await getSeasonMinutes(organisationOf(req), validation.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch minutes played" });
+    }
+  });
+
   // StatTypes API
   apiRouter.get("/stat-types", async (req: Request, res: Response) => {
     try {
-      const statTypes = await storage.getStatTypes();
+      const statTypes = await storage.getStatTypes(organisationOf(req));
       res.json(statTypes);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch stat types" });
     }
   });
 
-  apiRouter.post("/stat-types", async (req: Request, res: Response) => {
+  apiRouter.post("/stat-types", requirePermission("manage"), async (req: Request, res: Response) => {
     try {
       const validation = insertStatTypeSchema.safeParse(req.body);
       
@@ -517,17 +1605,268 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid stat type data", errors: validation.error.format() });
       }
       
-      const statType = await storage.createStatType(validation.data);
+      const statType = await createStatType(organisationOf(req), validation.data);
       res.status(201).json(statType);
     } catch (error) {
+      if (error instanceof StatTypeError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create stat type" });
     }
   });
+
+  // Registered before /stat-types/:id so "order" isn't taken for an id
+  apiRouter.put("/stat-types/order", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const validation = reorderStatTypesSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid stat type order", errors: validation.error.format() });
+      }
+      
+      const statTypes = await reorderStatTypes(organisationOf(req), validation.data.ids);
+      res.json(statTypes);
+    } catch (error) {
+      if (error instanceof StatTypeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reorder stat types" });
+    }
+  });
+
+  apiRouter.put("/stat-types/:id", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      const validation = insertStatTypeSchema.partial().safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid stat type data", errors: validation.error.format() });
+      }
+      
+      const existingStatType = await storage.getStatType(organisationOf(req), id);
+      
+      if (!existingStatType) {
+        return res.status(404).json({ message: "Stat type not found" });
+      }
+      
+      const statType = await updateStatType(existingStatType, validation.data);
+      res.json(statType);
+    } catch (error) {
+      if (error instanceof StatTypeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update stat type" });
+    }
+  });
+
+  // Answers 200 with the archived type when stats still use it, 204 when it's gone
+  apiRouter.delete("/stat-types/:id", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      const statType = await storage.getStatType(organisationOf(req), id);
+      
+      if (!statType) {
+        return res.status(404).json({ message: "Stat type not found" });
+      }
+      
+      const { archived } = await retireStatType(statType);
+      
+      if (archived) {
+        return res.json(archived);
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof StatTypeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete stat type" });
+    }
+  });
+
+  // StatTemplates API
+  apiRouter.get("/stat-templates", async (req: Request, res: Response) => {
+    try {
+      const statTemplates = await storage.getStatTemplates(organisationOf(req));
+      res.json(statTemplates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stat templates" });
+    }
+  });
+
+  apiRouter.post("/stat-templates", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const validation = insertStatTemplateSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid stat template data", errors: validation.error.format() });
+      }
+      
+      if (!await areVisibleStatTypes(organisationOf(req), validation.data.statTypeIds)) {
+        return res.status(400).json({ message: "Stat type not found" });
+      }
+      
+      const statTemplate = await storage.createStatTemplate(organisationOf(req), validation.data);
+      res.status(201).json(statTemplate);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create stat template" });
+    }
+  });
+
+  apiRouter.put("/stat-templates/:id", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      const validation = insertStatTemplateSchema.partial().safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid stat template data", errors: validation.error.format() });
+      }
+      
+      if (!await areVisibleStatTypes(organisationOf(req), validation.data.statTypeIds ?? [])) {
+        return res.status(400).json({ message: "Stat type not found" });
+      }
+      
+      const existingStatTemplate = await storage.getStatTemplate(organisationOf(req), id);
+      
+      if (!existingStatTemplate) {
+        return res.status(404).json({ message: "Stat template not found" });
+      }
+      
+      const statTemplate = await updateStatTemplate(existingStatTemplate, validation.data);
+      res.json(statTemplate);
+    } catch (error) {
+      if (error instanceof StatTypeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update stat template" });
+    }
+  });
+
+  apiRouter.delete("/stat-templates/:id", requirePermission("manage"), async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      const statTemplate = await storage.getStatTemplate(organisationOf(req), id);
+      
+      if (!statTemplate) {
+        return res.status(404).json({ message: "Stat template not found" });
+      }
+      
+      await deleteStatTemplate(statTemplate);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof StatTypeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete stat template" });
+    }
+  });
+
+  // Organisation API
+  apiRouter.get("/organisation", async (req: Request, res: Response) => {
+    try {
+      const organisation = await storage.getOrganisation(organisationOf(req));
+      
+      if (!organisation) {
+        return res.status(404).json({ message: "Organisation not found" });
+      }
+      
+      res.json(organisation);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch organisation" });
+    }
+  });
+
+  apiRouter.get("/organisation/members", requirePermission("members"), async (req: Request, res: Response) => {
+    try {
+      const members = await storage.getUsers(organisationOf(req));
+      res.json(members.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch members" });
+    }
+  });
+
+  apiRouter.post("/organisation/members", requirePermission("members"), async (req: Request, res: Response) => {
+    try {
+      const validation = createMemberSchema.extend({
+        username: usernameSchema,
+        password: passwordSchema
+      }).safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid member data", errors: validation.error.format() });
+      }
+      
+      if (await storage.getUserByUsername(validation.data.username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      
+      const member = await storage.createUser({
+        ...validation.data,
+        password: await hashPassword(validation.data.password),
+        organisationId: organisationOf(req)
+      });
+      res.status(201).json(toPublicUser(member));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add member" });
+    }
+  });
+
+  apiRouter.patch("/organisation/members/:id", requirePermission("members"), async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      const validation = updateMemberSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid member data", errors: validation.error.format() });
+      }
+      
+      // Stops the last admin locking everyone out of member management
+      if (id === req.user!.id) {
+        return res.status(409).json({ message: "You can't change your own role" });
+      }
+      
+      const member = await storage.updateUser(organisationOf(req), id, validation.data);
+      
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      
+      res.json(toPublicUser(member));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update member" });
+    }
+  });
+
+  apiRouter.delete("/organisation/members/:id", requirePermission("members"), async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      
+      if (id === req.user!.id) {
+        return res.status(409).json({ message: "You can't remove yourself" });
+      }
+      
+      const success = await storage.deleteUser(organisationOf(req), id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
   
   // Mount the router to the app
   app.use('/api', apiRouter);
 
   const httpServer = createServer(app);
+  
+  // Live match updates for every device following a game
+  attachLiveSync(httpServer, async (req, gameId) => {
+    const user = await getUpgradeUser(req);
+    return !!user && !!await storage.getGame(user.organisationId, gameId);
+  });
 
   return httpServer;
 }
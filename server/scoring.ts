@@ -0,0 +1,87 @@
+import type { Game, InsertGameEvent, Stat, StatType } from "@shared/schema";
+import { getScoringValue, getSportFormat } from "@shared/formats";
+import { findStatTypeByName, getScoringCount } from "@shared/stat-types";
+import { storage } from "./storage";
+import { broadcast } from "./live";
+
+export interface GameScore {
+  homeScore: number;
+  awayScore: number;
+  // Whether anything on the stat log or timeline carries points
+  hasScoringRecords: boolean;
+}
+
+// Points for each of the club's stat types, by id, under the game's format
+export function getPointsByStatType(game: Game, statTypes: StatType[]): Map<number, number> {
+  const format = getSportFormat(game.format);
+  return new Map(statTypes.map(statType => [statType.id, getScoringValue(format, statType)]));
+}
+
+// Points a recorded stat puts on the board, before its value
+export function getStatPoints(pointsByStatType: Map<number, number>, stat: Pick<Stat, "statTypeId">): number {
+  return stat.statTypeId != null ? pointsByStatType.get(stat.statTypeId) ?? 0 : 0;
+}
+
+// Points a recorded stat puts on the board, once its value is taken into account
+export function getStatScore(
+  pointsByStatType: Map<number, number>,
+  statTypes: StatType[],
+  stat: Pick<Stat, "statTypeId" | "value">
+): number {
+  const valueKind = statTypes.find(statType => statType.id === stat.statTypeId)?.valueKind;
+  return getStatPoints(pointsByStatType, stat) * getScoringCount(valueKind, stat.value);
+}
+
+// Whether a recorded stat counts towards the score in its game
+export async function isScoringStat(game: Game, stat: Pick<Stat, "statTypeId">): Promise<boolean> {
+  const statTypes = await storage.getStatTypes(game.organisationId);
+  return getStatPoints(getPointsByStatType(game, statTypes), stat) > 0;
+}
+
+// Points for one of the club's stat types by name in a game (0 for anything that isn't a scoring stat)
+export async function getStatTypePoints(game: Game, statTypeName: string): Promise<number> {
+  const statType = findStatTypeByName(await storage.getStatTypes(game.organisationId), statTypeName);
+  return statType ? getScoringValue(getSportFormat(game.format), statType) : 0;
+}
+
+// Our score is the sum of scoring stats, the opposition's the sum of their scoring events
+export async function calculateGameScore(game: Game): Promise<GameScore> {
+  const [stats, events, statTypes] = await Promise.all([
+    storage.getGameStats(game.id),
+    storage.getGameEvents(game.id),
+    storage.getStatTypes(game.organisationId)
+  ]);
+
+  const pointsByStatType = getPointsByStatType(game, statTypes);
+
+  const scoringStats = stats.filter(stat => getStatPoints(pointsByStatType, stat) > 0);
+  const oppositionScoring = events.filter(event => event.isOpposition && (event.points ?? 0) > 0);
+
+  const homeScore = scoringStats.reduce(
+    (total, stat) => total + getStatScore(pointsByStatType, statTypes, stat),
+    0
+  );
+  const awayScore = oppositionScoring.reduce((total, event) => total + (event.points ?? 0), 0);
+
+  return {
+    homeScore,
+    awayScore,
+    hasScoringRecords: scoringStats.length > 0 || oppositionScoring.length > 0
+  };
+}
+
+// Write the derived score back onto the game so the scoreboard matches the stat log
+export async function recalculateGameScore(game: Game): Promise<Game | undefined> {
+  const { homeScore, awayScore } = await calculateGameScore(game);
+  const updatedGame = await storage.updateGame(game.organisationId, game.id, { homeScore, awayScore });
+
+  broadcast({ type: "score", gameId: game.id, homeScore, awayScore });
+  return updatedGame;
+}
+
+// Opposition scoring events default to the points of the matching stat type
+export async function withOppositionPoints<T extends Partial<InsertGameEvent>>(game: Game, event: T): Promise<T> {
+  if (!event.isOpposition || event.points != null || !event.type) return event;
+
+  return { ...event, points: await getStatTypePoints(game, event.type) };
+}
@@ -0,0 +1,113 @@
+import type { InsertStatTemplate, InsertStatType, StatTemplate, StatType } from "@shared/schema";
+import { findStatTypeByName } from "@shared/stat-types";
+import { storage } from "./storage";
+
+export class StatTypeError extends Error {}
+
+// Built-in types are shared by every club, so only a club's own can change
+export function checkCanChangeStatType(statType: StatType): void {
+  if (statType.organisationId == null) {
+    throw new StatTypeError("Built-in stat types can't be changed");
+  }
+}
+
+// Limits only apply to counts and numbers, and have to leave some values allowed
+export function checkStatValueLimits(statType: Pick<InsertStatType, "valueKind" | "minValue" | "maxValue">): void {
+  const hasLimits = statType.minValue != null || statType.maxValue != null;
+  if (hasLimits && statType.valueKind !== undefined && statType.valueKind !== "count" && statType.valueKind !== "numeric") {
+    throw new StatTypeError("Only counts and numbers can have a minimum or maximum value");
+  }
+  if (statType.minValue != null && statType.maxValue != null && statType.minValue > statType.maxValue) {
+    throw new StatTypeError("The minimum value can't be more than the maximum");
+  }
+}
+
+export async function createStatType(organisationId: number, statType: InsertStatType): Promise<StatType> {
+  checkStatValueLimits(statType);
+  return storage.createStatType(organisationId, statType);
+}
+
+export async function updateStatType(statType: StatType, changes: Partial<InsertStatType>): Promise<StatType | undefined> {
+  checkCanChangeStatType(statType);
+  checkStatValueLimits({ ...statType, ...changes });
+
+  // Recorded values would change meaning, e.g. a count of 3 read as a rating
+  if (changes.valueKind !== undefined && changes.valueKind !== statType.valueKind) {
+    const recorded = await storage.getStats(statType.organisationId!, { statTypeId: statType.id });
+    if (recorded.length > 0) {
+      throw new StatTypeError("The kind of value can't change once stats have been recorded");
+    }
+  }
+
+  return storage.updateStatType(statType.organisationId!, statType.id, changes);
+}
+
+// A type with stats recorded against it is archived rather than deleted, so
+// those stats keep their meaning; it can be restored later
+export async function retireStatType(statType: StatType): Promise<{ archived: StatType | null }> {
+  checkCanChangeStatType(statType);
+  const organisationId = statType.organisationId!;
+
+  const recorded = await storage.getStats(organisationId, { statTypeId: statType.id });
+  if (recorded.length > 0) {
+    const archived = await storage.updateStatType(organisationId, statType.id, { isActive: false });
+    return { archived: archived ?? null };
+  }
+
+  await storage.deleteStatType(organisationId, statType.id);
+  return { archived: null };
+}
+
+// The type a client means by a stat: its id, or its name from devices that
+// only send that. The id wins when both are sent.
+export async function resolveStatType(
+  organisationId: number,
+  stat: { statTypeId?: number | null; statType?: string }
+): Promise<StatType | undefined> {
+  if (stat.statTypeId != null) return storage.getStatType(organisationId, stat.statTypeId);
+  if (stat.statType === undefined) return undefined;
+  return findStatTypeByName(await storage.getStatTypes(organisationId), stat.statType);
+}
+
+// Archived types keep the stats they have but take no new ones
+export function checkCanRecordStatType(statType: StatType): void {
+  if (statType.isActive === false) {
+    throw new StatTypeError(`${statType.name} is archived, so no new stats can be recorded against it`);
+  }
+}
+
+// The ids must be the club's own types, each once
+export async function reorderStatTypes(organisationId: number, ids: number[]): Promise<StatType[]> {
+  const ownIds = new Set(
+    (await storage.getStatTypes(organisationId))
+      .filter(statType => statType.organisationId === organisationId)
+      .map(statType => statType.id)
+  );
+
+  if (new Set(ids).size !== ids.length || ids.some(id => !ownIds.has(id))) {
+    throw new StatTypeError("Only the club's own stat types can be reordered, each once");
+  }
+
+  return storage.reorderStatTypes(organisationId, ids);
+}
+
+// Templates follow the same rule: the built-in ones are shared, so read-only
+export function checkCanChangeStatTemplate(statTemplate: StatTemplate): void {
+  if (statTemplate.organisationId == null) {
+    throw new StatTypeError("Built-in stat templates can't be changed");
+  }
+}
+
+export async function updateStatTemplate(
+  statTemplate: StatTemplate,
+  changes: Partial<InsertStatTemplate>
+): Promise<StatTemplate | undefined> {
+  checkCanChangeStatTemplate(statTemplate);
+  return storage.updateStatTemplate(statTemplate.organisationId!, statTemplate.id, changes);
+}
+
+// Games keep their own copy of the template's types, so deleting one leaves them as they were
+export async function deleteStatTemplate(statTemplate: StatTemplate): Promise<boolean> {
+  checkCanChangeStatTemplate(statTemplate);
+  return storage.deleteStatTemplate(statTemplate.organisationId!, statTemplate.id);
+}
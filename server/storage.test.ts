@@ -0,0 +1,175 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import session from "express-session";
+import { sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import { createDatabase } from "./db";
+import { DrizzleStorage, DuplicateClientIdError, MemStorage, type IStorage } from "./storage";
+
+// drizzle-kit's ESM build can't be loaded through tsx, so its CommonJS one is
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// A fresh in-process Postgres with the schema pushed to it
+async function createPgliteStorage(): Promise<IStorage> {
+  const db = createDatabase("memory://", "pglite");
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await db.execute(sql.raw(statement));
+  }
+  return new DrizzleStorage(db, new session.MemoryStore());
+}
+
+const stores: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DrizzleStorage on PGlite", createPgliteStorage]
+];
+
+for (const [name, createStore] of stores) {
+  describe(name, () => {
+    let storage: IStorage;
+    let clubId: number;
+    let otherClubId: number;
+
+    before(async () => {
+      storage = await createStore();
+      clubId = (await storage.createOrganisation({ name: "Eagles" })).id;
+      otherClubId = (await storage.createOrganisation({ name: "Hawks" })).id;
+    });
+
+    it("seeds the built-in stat types and templates", async () => {
+      const statTypes = await storage.getStatTypes(clubId);
+      const statTemplates = await storage.getStatTemplates(clubId);
+
+      assert.ok(statTypes.length > 0);
+      assert.ok(statTypes.every(statType => statType.organisationId === null));
+      assert.equal(statTypes.find(statType => statType.name === "Try")?.scoringType, "try");
+      assert.deepEqual(statTemplates.map(statTemplate => statTemplate.name), ["Full analysis", "Junior basic", "Defence only"]);
+    });
+
+    it("keeps each club's records to itself", async () => {
+      const team = await storage.createTeam(clubId, { name: "Firsts", ageGroup: "Open" });
+      const statType = await storage.createStatType(clubId, { name: "Offload" });
+
+      assert.equal(await storage.getTeam(otherClubId, team.id), undefined);
+      assert.deepEqual((await storage.getTeams(otherClubId)).map(other => other.id), []);
+      assert.equal(await storage.getStatType(otherClubId, statType.id), undefined);
+      assert.equal(await storage.updateStatType(otherClubId, statType.id, { name: "Taken" }), undefined);
+    });
+
+    it("refuses to change the built-in stat types", async () => {
+      const [builtIn] = await storage.getStatTypes(clubId);
+
+      assert.equal(await storage.updateStatType(clubId, builtIn.id, { name: "Renamed" }), undefined);
+      assert.equal(await storage.deleteStatType(clubId, builtIn.id), false);
+    });
+
+    it("adds up stats the way each kind of value calls for", async () => {
+      const team = await storage.createTeam(clubId, { name: "Seconds", ageGroup: "Open" });
+      const game = await storage.createGame(clubId, { teamId: team.id, opponent: "Hawks", location: "Home", halfLength: 40, numberOfHalves: 2 });
+      const metres = await storage.createStatType(clubId, { name: "Kick Metres", valueKind: "numeric", unit: "m" });
+      const goalKicks = await storage.createStatType(clubId, { name: "Goal Kicks", valueKind: "success" });
+      const effort = await storage.createStatType(clubId, { name: "Effort", valueKind: "rating" });
+
+      const values: [typeof metres, number][] = [
+        [metres, 22.5], [metres, 10],
+        [goalKicks, 1], [goalKicks, 0], [goalKicks, 1], [goalKicks, 1],
+        [effort, 4], [effort, 3]
+      ];
+      for (const [statType, value] of values) {
+        await storage.createStat({ gameId: game.id, playerId: 1, statTypeId: statType.id, statType: statType.name, value });
+      }
+
+      const { byStatType } = await storage.getStatTotals(clubId, { gameId: game.id });
+      const valueOf = (statTypeId: number) => byStatType.find(total => total.statTypeId === statTypeId)?.value;
+
+      assert.equal(valueOf(metres.id), 32.5);
+      assert.equal(valueOf(goalKicks.id), 75);
+      assert.equal(valueOf(effort.id), 3.5);
+      assert.deepEqual((await storage.getStatTotals(otherClubId, { gameId: game.id })).byStatType, []);
+    });
+
+    it("gives a fixture to the first game that claims it", async () => {
+      const team = await storage.createTeam(clubId, { name: "Colts", ageGroup: "U19" });
+      const fixture = await storage.createFixture(clubId, { teamId: team.id, opponent: "Hawks", date: new Date(), location: "Home" });
+      const game = { teamId: team.id, fixtureId: fixture.id, opponent: "Hawks", location: "Home", halfLength: 40, numberOfHalves: 2 };
+      const [first, second] = await Promise.all([storage.createGame(clubId, game), storage.createGame(clubId, game)]);
+
+      const claims = await Promise.all([
+        storage.claimFixture(clubId, fixture.id, first.id),
+        storage.claimFixture(clubId, fixture.id, second.id)
+      ]);
+
+      assert.equal(claims[0]?.gameId, first.id);
+      assert.equal(claims[0]?.status, "in_progress");
+      assert.equal(claims[1], undefined);
+      assert.equal((await storage.getFixture(clubId, fixture.id))?.gameId, first.id);
+      assert.equal(await storage.claimFixture(otherClubId, fixture.id, second.id), undefined);
+    });
+
+    it("deletes everything recorded in a game along with it", async () => {
+      const team = await storage.createTeam(clubId, { name: "Fourths", ageGroup: "Open" });
+      const game = await storage.createGame(clubId, { teamId: team.id, opponent: "Hawks", location: "Home", halfLength: 40, numberOfHalves: 2 });
+      const keptGame = await storage.createGame(clubId, { teamId: team.id, opponent: "Ravens", location: "Away", halfLength: 40, numberOfHalves: 2 });
+
+      for (const gameId of [game.id, keptGame.id]) {
+        await storage.createGamePlayer({ gameId, playerId: 1, number: 1, position: "Prop", isStarter: true, startTime: 0 });
+        await storage.createStat({ gameId, playerId: 1, statType: "Tackles" });
+        await storage.createGameEvent({ gameId, type: "try", isOpposition: true, points: 5 });
+        await storage.createClockEvent({ gameId, type: "start", period: 1 });
+        await storage.createCard({ gameId, playerId: 1, type: "yellow", issuedAt: 60 });
+      }
+
+      assert.equal(await storage.deleteGame(otherClubId, game.id), false);
+      assert.equal(await storage.deleteGame(clubId, game.id), true);
+
+      const counts = async (gameId: number) => [
+        (await storage.getGamePlayers(gameId)).length,
+        (await storage.getStats(clubId, { gameId })).length,
+        (await storage.getGameEvents(gameId)).length,
+        (await storage.getClockEvents(gameId)).length,
+        (await storage.getCards(gameId)).length
+      ];
+      assert.deepEqual(await counts(game.id), [0, 0, 0, 0, 0]);
+      assert.deepEqual(await counts(keptGame.id), [1, 1, 1, 1, 1]);
+    });
+
+    it("reads lineups, clock events and cards for several games at once", async () => {
+      const team = await storage.createTeam(clubId, { name: "Fifths", ageGroup: "Open" });
+      const games = await Promise.all(["Hawks", "Ravens", "Kites"].map(opponent =>
+        storage.createGame(clubId, { teamId: team.id, opponent, location: "Home", halfLength: 40, numberOfHalves: 2 })
+      ));
+
+      for (const { id: gameId } of games) {
+        await storage.createGamePlayer({ gameId, playerId: 1, number: 1, position: "Prop", isStarter: true, startTime: 0 });
+        await storage.createClockEvent({ gameId, type: "start", period: 1 });
+        await storage.createCard({ gameId, playerId: 1, type: "yellow", issuedAt: 60 });
+      }
+
+      const gameIds = [games[0].id, games[2].id];
+      const readGameIds = async () => [
+        (await storage.getGamePlayersForGames(gameIds)).map(gamePlayer => gamePlayer.gameId),
+        (await storage.getClockEventsForGames(gameIds)).map(event => event.gameId),
+        (await storage.getCardsForGames(gameIds)).map(card => card.gameId)
+      ];
+      assert.deepEqual(await readGameIds(), [gameIds, gameIds, gameIds]);
+      assert.deepEqual(await storage.getCardsForGames([]), []);
+    });
+
+    it("keeps offline replay ids unique within each game", async () => {
+      const team = await storage.createTeam(clubId, { name: "Thirds", ageGroup: "Open" });
+      const game = await storage.createGame(clubId, { teamId: team.id, opponent: "Hawks", location: "Home", halfLength: 40, numberOfHalves: 2 });
+      const nextGame = await storage.createGame(clubId, { teamId: team.id, opponent: "Ravens", location: "Away", halfLength: 40, numberOfHalves: 2 });
+      const stat = { playerId: 1, statType: "Tackles", clientId: "offline-1" };
+
+      const recorded = await storage.createStat({ ...stat, gameId: game.id });
+      const recordedNext = await storage.createStat({ ...stat, gameId: nextGame.id });
+      await storage.createClockEvent({ gameId: game.id, type: "start", period: 1, clientId: "clock-1" });
+
+      assert.equal((await storage.getStatByClientId(game.id, "offline-1"))?.id, recorded.id);
+      assert.equal((await storage.getStatByClientId(nextGame.id, "offline-1"))?.id, recordedNext.id);
+      await assert.rejects(storage.createStat({ ...stat, gameId: game.id }), DuplicateClientIdError);
+      await assert.rejects(storage.createClockEvent({ gameId: game.id, type: "pause", period: 1, clientId: "clock-1" }), DuplicateClientIdError);
+    });
+  });
+}
@@ -1,4 +1,7 @@
 import { 
+  organisations,
+  type Organisation,
+  type InsertOrganisation,
   players, 
   type Player, 
   type InsertPlayer,
@@ -8,175 +11,439 @@ import {
   fixtures,
   type Fixture,
   type InsertFixture,
+  competitions,
+  type Competition,
+  type InsertCompetition,
   games,
   type Game,
   type InsertGame,
+  type UpdateGame,
   gamePlayers,
   type GamePlayer,
   type InsertGamePlayer,
   stats,
   type Stat,
   type InsertStat,
+  type StatFilters,
+  type StatTotal,
+  type StatTotals,
+  gameEvents,
+  type GameEvent,
+  type InsertGameEvent,
+  clockEvents,
+  type ClockEvent,
+  type InsertClockEvent,
+  cards,
+  type Card,
+  type InsertCard,
   statTypes,
   type StatType,
   type InsertStatType,
+  statTemplates,
+  type StatTemplate,
+  type InsertStatTemplate,
   users,
   type User,
   type InsertUser
 } from "@shared/schema";
+import { and, asc, eq, gte, inArray, isNotNull, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import { createDatabase, isDatabaseDriver, type Database } from "./db";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { isBenchNomination } from "@shared/team-sheet";
+import type { FixtureStatus } from "@shared/fixtures";
+import { DEFAULT_SPORT_FORMAT, getSportFormat } from "@shared/formats";
+import { aggregateStatValues, findStatTypeByName, getStatKey, getStatName, statAggregations } from "@shared/stat-types";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// The built-in types also set the fields clubs can't
+type BuiltInStatType = InsertStatType & Partial<Pick<StatType, "isDefault" | "points" | "scoringType">>;
+
+// Stat types seeded into every fresh store
+const defaultStatTypes: BuiltInStatType[] = [
+  // General stats
+  { name: "Tackles", description: "Successful tackles made", isActive: true, isDefault: true, color: "#2563EB", icon: "sports_kabaddi", category: "defence" },
+  { name: "Carries", description: "Ball carries", isActive: true, isDefault: true, color: "#16A34A", icon: "directions_run", category: "attack" },
+  { name: "Meters", description: "Meters gained", isActive: true, isDefault: true, color: "#CA8A04", icon: "straighten", category: "attack" },
+  { name: "Passes", description: "Successful passes made", isActive: true, isDefault: true, color: "#4F46E5", icon: "sports_handball", category: "attack" },
+  
+  // Scoring stats - what they're worth comes from the game's format
+  { name: "Try", description: "Try scored", isActive: true, isDefault: true, color: "#9333EA", icon: "emoji_events", scoringType: "try", category: "scoring" },
+  { name: "Conversion", description: "Conversion kick", isActive: true, isDefault: true, color: "#DC2626", icon: "sports_soccer", scoringType: "conversion", category: "scoring" },
+  { name: "Penalty Goal", description: "Penalty kick", isActive: true, isDefault: true, color: "#E11D48", icon: "gps_fixed", scoringType: "penalty_goal", category: "scoring" },
+  { name: "Field Goal", description: "Field goal or drop goal", isActive: true, isDefault: true, color: "#FB923C", icon: "sports", scoringType: "field_goal", category: "scoring" },
+  
+  // Discipline stats
+  { name: "Yellow Card", description: "Player sin-binned for 10 minutes", isActive: true, isDefault: true, color: "#FBBF24", icon: "credit_card", category: "discipline" },
+  { name: "Red Card", description: "Player sent off for the remainder of the game", isActive: true, isDefault: true, color: "#B91C1C", icon: "credit_card", category: "discipline" },
+  
+  // Errors and penalties
+  { name: "Penalty Conceded", description: "Penalty given away", isActive: true, isDefault: true, color: "#64748B", icon: "flag", category: "discipline" },
+  { name: "Error", description: "Handling error or mistake", isActive: true, isDefault: true, color: "#94A3B8", icon: "error", category: "attack" }
+];
+
+// Stat templates seeded alongside them, listing the built-in types by name
+const defaultStatTemplates: { name: string; statTypes: string[] }[] = [
+  { name: "Full analysis", statTypes: defaultStatTypes.map(statType => statType.name) },
+  { name: "Junior basic", statTypes: ["Tackles", "Carries", "Try", "Conversion"] },
+  { name: "Defence only", statTypes: ["Tackles", "Penalty Conceded", "Yellow Card", "Red Card"] }
+];
+
+// The built-in templates with the ids the built-in types were given
+function getDefaultStatTemplates(builtInStatTypes: StatType[]): InsertStatTemplate[] {
+  const idsByName = new Map(builtInStatTypes.map(statType => [statType.name, statType.id]));
+  return defaultStatTemplates.map(({ name, statTypes }) => ({
+    name,
+    statTypeIds: statTypes.flatMap(statType => idsByName.get(statType) ?? [])
+  }));
+}
+
+// Column defaults for an in-memory stat type
+function withStatTypeDefaults(insertStatType: BuiltInStatType): Omit<StatType, "id" | "organisationId"> {
+  return {
+    description: null,
+    isActive: true,
+    isDefault: false,
+    color: "#1E3A8A",
+    icon: "sports_rugby",
+    points: 0,
+    scoringType: null,
+    category: "attack",
+    sortOrder: 0,
+    valueKind: "count",
+    unit: null,
+    minValue: null,
+    maxValue: null,
+    ...insertStatType
+  };
+}
+
+type SummedStats = Omit<StatTotal, "aggregation" | "value">;
+
+// A sum of stat values under its type's current name, with the total,
+// average or success rate its type's kind calls for
+function withStatAggregate<T extends SummedStats>(summed: T, statTypeList: StatType[]): T & StatTotal {
+  const statType = statTypeList.find(statType => statType.id === summed.statTypeId);
+  const aggregation = statAggregations[statType?.valueKind ?? "count"];
+  return {
+    ...summed,
+    statType: getStatName(summed, statTypeList),
+    aggregation,
+    value: aggregateStatValues(aggregation, summed.total, summed.count)
+  };
+}
+
+// Sum stat values per player/stat type and per stat type
+function summarizeStats(statList: Stat[], statTypeList: StatType[]): StatTotals {
+  const byPlayer = new Map<string, SummedStats & { playerId: number }>();
+  const byStatType = new Map<string, SummedStats>();
+  
+  statList.forEach(stat => {
+    const value = stat.value ?? 1;
+    const statKey = getStatKey(stat);
+    const playerKey = `${stat.playerId}:${statKey}`;
+    const statType = { statTypeId: stat.statTypeId, statType: stat.statType };
+    
+    const playerTotal = byPlayer.get(playerKey) ?? { playerId: stat.playerId, ...statType, total: 0, count: 0 };
+    playerTotal.total += value;
+    playerTotal.count++;
+    byPlayer.set(playerKey, playerTotal);
+    
+    const statTypeTotal = byStatType.get(statKey) ?? { ...statType, total: 0, count: 0 };
+    statTypeTotal.total += value;
+    statTypeTotal.count++;
+    byStatType.set(statKey, statTypeTotal);
+  });
+  
+  return {
+    byPlayer: Array.from(byPlayer.values()).map(total => withStatAggregate(total, statTypeList)),
+    byStatType: Array.from(byStatType.values()).map(total => withStatAggregate(total, statTypeList))
+  };
+}
 
 // modify the interface with any CRUD methods
 // you might need
+//
+// Everything a club owns is scoped by organisation id. Game-level records
+// (lineups, stats, events, clock, cards) are reached through their game, so
+// callers load the game for the organisation before touching them.
 export interface IStorage {
+  // Organisation methods
+  getOrganisation(id: number): Promise<Organisation | undefined>;
+  createOrganisation(organisation: InsertOrganisation): Promise<Organisation>;
+  
   // Team methods
-  getTeam(id: number): Promise<Team | undefined>;
-  getTeams(): Promise<Team[]>;
-  createTeam(team: InsertTeam): Promise<Team>;
-  updateTeam(id: number, team: Partial<InsertTeam>): Promise<Team | undefined>;
-  deleteTeam(id: number): Promise<boolean>;
+  getTeam(organisationId: number, id: number): Promise<Team | undefined>;
+  getTeams(organisationId: number): Promise<Team[]>;
+  createTeam(organisationId: number, team: InsertTeam): Promise<Team>;
+  updateTeam(organisationId: number, id: number, team: Partial<InsertTeam>): Promise<Team | undefined>;
+  deleteTeam(organisationId: number, id: number): Promise<boolean>;
+  // Calendar feeds are fetched without a login, so the token alone finds the team
+  getTeamByCalendarToken(token: string): Promise<Team | undefined>;
+  setTeamCalendarToken(organisationId: number, id: number, token: string): Promise<Team | undefined>;
   
   // Player methods
-  getPlayer(id: number): Promise<Player | undefined>;
-  getPlayers(): Promise<Player[]>;
-  getPlayersByTeam(teamId: number): Promise<Player[]>;
-  createPlayer(player: InsertPlayer): Promise<Player>;
-  updatePlayer(id: number, player: Partial<InsertPlayer>): Promise<Player | undefined>;
-  deletePlayer(id: number): Promise<boolean>;
+  getPlayer(organisationId: number, id: number): Promise<Player | undefined>;
+  getPlayers(organisationId: number): Promise<Player[]>;
+  getPlayersByTeam(organisationId: number, teamId: number): Promise<Player[]>;
+  createPlayer(organisationId: number, player: InsertPlayer): Promise<Player>;
+  createPlayers(organisationId: number, players: InsertPlayer[]): Promise<Player[]>;
+  updatePlayer(organisationId: number, id: number, player: Partial<InsertPlayer>): Promise<Player | undefined>;
+  deletePlayer(organisationId: number, id: number): Promise<boolean>;
   
   // Fixture methods
-  getFixture(id: number): Promise<Fixture | undefined>;
-  getFixtures(): Promise<Fixture[]>;
-  getTeamFixtures(teamId: number): Promise<Fixture[]>;
-  createFixture(fixture: InsertFixture): Promise<Fixture>;
-  updateFixture(id: number, fixture: Partial<InsertFixture>): Promise<Fixture | undefined>;
-  deleteFixture(id: number): Promise<boolean>;
+  getFixture(organisationId: number, id: number): Promise<Fixture | undefined>;
+  getFixtures(organisationId: number): Promise<Fixture[]>;
+  getTeamFixtures(organisationId: number, teamId: number): Promise<Fixture[]>;
+  createFixture(organisationId: number, fixture: InsertFixture): Promise<Fixture>;
+  createFixtures(organisationId: number, fixtures: InsertFixture[]): Promise<Fixture[]>;
+  updateFixture(organisationId: number, id: number, fixture: Partial<InsertFixture>): Promise<Fixture | undefined>;
+  setFixtureGame(organisationId: number, id: number, gameId: number | null, status: FixtureStatus): Promise<Fixture | undefined>;
+  // Links a newly started game only if the fixture has no game yet
+  claimFixture(organisationId: number, id: number, gameId: number): Promise<Fixture | undefined>;
+  deleteFixture(organisationId: number, id: number): Promise<boolean>;
+  
+  // Competition methods
+  getCompetition(organisationId: number, id: number): Promise<Competition | undefined>;
+  getCompetitions(organisationId: number): Promise<Competition[]>;
+  createCompetition(organisationId: number, competition: InsertCompetition): Promise<Competition>;
+  updateCompetition(organisationId: number, id: number, competition: Partial<InsertCompetition>): Promise<Competition | undefined>;
+  deleteCompetition(organisationId: number, id: number): Promise<boolean>;
   
   // Game methods
-  getGame(id: number): Promise<Game | undefined>;
-  getGames(): Promise<Game[]>;
-  getTeamGames(teamId: number): Promise<Game[]>;
-  createGame(game: InsertGame): Promise<Game>;
-  updateGame(id: number, game: Partial<InsertGame>): Promise<Game | undefined>;
-  completeGame(id: number, homeScore: number, awayScore: number, playerOfMatchId?: number, playerOfMatchComment?: string): Promise<Game | undefined>;
-  deleteGame(id: number): Promise<boolean>;
+  getGame(organisationId: number, id: number): Promise<Game | undefined>;
+  getGames(organisationId: number): Promise<Game[]>;
+  getTeamGames(organisationId: number, teamId: number): Promise<Game[]>;
+  createGame(organisationId: number, game: InsertGame): Promise<Game>;
+  updateGame(organisationId: number, id: number, game: UpdateGame): Promise<Game | undefined>;
+  completeGame(organisationId: number, id: number, homeScore: number, awayScore: number, playerOfMatchId?: number, playerOfMatchComment?: string): Promise<Game | undefined>;
+  deleteGame(organisationId: number, id: number): Promise<boolean>;
   
   // GamePlayer methods
   getGamePlayer(id: number): Promise<GamePlayer | undefined>;
   getGamePlayers(gameId: number): Promise<GamePlayer[]>;
+  getGamePlayersForGames(gameIds: number[]): Promise<GamePlayer[]>; // several games' lineups in one read
   createGamePlayer(gamePlayer: InsertGamePlayer): Promise<GamePlayer>;
   updateGamePlayer(id: number, gamePlayer: Partial<InsertGamePlayer>): Promise<GamePlayer | undefined>;
-  substitutePlayer(gameId: number, outPlayerId: number, inPlayerId: number, time: number): Promise<boolean>;
+  getGamePlayerByClientId(gameId: number, clientId: string): Promise<GamePlayer | undefined>;
+  substitutePlayer(gameId: number, outPlayerId: number, inPlayerId: number, time: number, clientId?: string, period?: number): Promise<boolean>;
   deleteGamePlayer(id: number): Promise<boolean>;
+  setGameLineup(gameId: number, lineup: InsertGamePlayer[]): Promise<GamePlayer[]>; // replaces the whole lineup
   
   // Stat methods
   getStat(id: number): Promise<Stat | undefined>;
+  getStatByClientId(gameId: number, clientId: string): Promise<Stat | undefined>;
+  getStats(organisationId: number, filters?: StatFilters): Promise<Stat[]>;
+  getStatTotals(organisationId: number, filters?: StatFilters): Promise<StatTotals>;
   getGameStats(gameId: number): Promise<Stat[]>;
-  getPlayerStats(playerId: number): Promise<Stat[]>;
+  getPlayerStats(organisationId: number, playerId: number): Promise<Stat[]>;
   getPlayerGameStats(gameId: number, playerId: number): Promise<Stat[]>;
   createStat(stat: InsertStat): Promise<Stat>;
+  updateStat(id: number, stat: Partial<InsertStat>): Promise<Stat | undefined>;
   deleteStat(id: number): Promise<boolean>;
   
-  // StatType methods
-  getStatType(id: number): Promise<StatType | undefined>;
-  getStatTypes(): Promise<StatType[]>;
-  createStatType(statType: InsertStatType): Promise<StatType>;
-  updateStatType(id: number, statType: Partial<InsertStatType>): Promise<StatType | undefined>;
-  deleteStatType(id: number): Promise<boolean>;
+  // GameEvent methods
+  getGameEvent(id: number): Promise<GameEvent | undefined>;
+  getGameEvents(gameId: number): Promise<GameEvent[]>;
+  createGameEvent(gameEvent: InsertGameEvent): Promise<GameEvent>;
+  updateGameEvent(id: number, gameEvent: Partial<InsertGameEvent>): Promise<GameEvent | undefined>;
+  deleteGameEvent(id: number): Promise<boolean>;
+  
+  // ClockEvent methods
+  getClockEvents(gameId: number): Promise<ClockEvent[]>;
+  getClockEventsForGames(gameIds: number[]): Promise<ClockEvent[]>;
+  getClockEventByClientId(gameId: number, clientId: string): Promise<ClockEvent | undefined>;
+  createClockEvent(clockEvent: InsertClockEvent): Promise<ClockEvent>;
+  
+  // Card methods
+  getCard(id: number): Promise<Card | undefined>;
+  getCards(gameId: number): Promise<Card[]>;
+  getCardsForGames(gameIds: number[]): Promise<Card[]>;
+  getCardByClientId(gameId: number, clientId: string): Promise<Card | undefined>;
+  createCard(card: InsertCard): Promise<Card>;
+  updateCard(id: number, card: Partial<InsertCard>): Promise<Card | undefined>;
+  
+  // StatType methods - the built-in types are shared by every club and read-only
+  getStatType(organisationId: number, id: number): Promise<StatType | undefined>;
+  getStatTypes(organisationId: number): Promise<StatType[]>;
+  createStatType(organisationId: number, statType: InsertStatType): Promise<StatType>;
+  updateStatType(organisationId: number, id: number, statType: Partial<InsertStatType>): Promise<StatType | undefined>;
+  reorderStatTypes(organisationId: number, ids: number[]): Promise<StatType[]>;
+  deleteStatType(organisationId: number, id: number): Promise<boolean>;
+  
+  // StatTemplate methods - as with stat types, the built-in templates are shared and read-only
+  getStatTemplate(organisationId: number, id: number): Promise<StatTemplate | undefined>;
+  getStatTemplates(organisationId: number): Promise<StatTemplate[]>;
+  createStatTemplate(organisationId: number, statTemplate: InsertStatTemplate): Promise<StatTemplate>;
+  updateStatTemplate(organisationId: number, id: number, statTemplate: Partial<InsertStatTemplate>): Promise<StatTemplate | undefined>;
+  deleteStatTemplate(organisationId: number, id: number): Promise<boolean>;
   
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(organisationId: number): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(organisationId: number, id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(organisationId: number, id: number): Promise<boolean>;
+  
+  // Login sessions are kept alongside the data they protect
+  sessionStore: session.Store;
+}
+
+// A record if it belongs to the organisation, otherwise undefined
+function ownedBy<T extends { organisationId: number | null }>(record: T | undefined, organisationId: number): T | undefined {
+  return record && record.organisationId === organisationId ? record : undefined;
+}
+
+// A game already has a record with the client id being saved, e.g. when two
+// replays of the same offline change race each other
+export class DuplicateClientIdError extends Error {
+  constructor() {
+    super("This change has already been recorded for the game");
+    this.name = "DuplicateClientIdError";
+  }
+}
+
+// Runs an insert, reporting a broken (game, client id) unique constraint as a
+// DuplicateClientIdError; Postgres gives unique violations the code 23505
+async function insertOnce<T>(insert: () => Promise<T>): Promise<T> {
+  try {
+    return await insert();
+  } catch (error) {
+    if ((error as { code?: unknown }).code === "23505") throw new DuplicateClientIdError();
+    throw error;
+  }
 }
 
 export class MemStorage implements IStorage {
+  private organisations: Map<number, Organisation>;
   private teams: Map<number, Team>;
   private players: Map<number, Player>;
   private fixtures: Map<number, Fixture>;
+  private competitions: Map<number, Competition>;
   private games: Map<number, Game>;
   private gamePlayers: Map<number, GamePlayer>;
   private stats: Map<number, Stat>;
+  private gameEvents: Map<number, GameEvent>;
+  private clockEvents: Map<number, ClockEvent>;
+  private cards: Map<number, Card>;
   private statTypes: Map<number, StatType>;
+  private statTemplates: Map<number, StatTemplate>;
   private users: Map<number, User>;
   
+  private currentOrganisationId: number;
   private currentTeamId: number;
   private currentPlayerId: number;
   private currentFixtureId: number;
+  private currentCompetitionId: number;
   private currentGameId: number;
   private currentGamePlayerId: number;
   private currentStatId: number;
+  private currentGameEventId: number;
+  private currentClockEventId: number;
+  private currentCardId: number;
   private currentStatTypeId: number;
+  private currentStatTemplateId: number;
   private currentUserId: number;
+  
+  sessionStore: session.Store;
 
   constructor() {
+    this.organisations = new Map();
     this.teams = new Map();
     this.players = new Map();
     this.fixtures = new Map();
+    this.competitions = new Map();
     this.games = new Map();
     this.gamePlayers = new Map();
     this.stats = new Map();
+    this.gameEvents = new Map();
+    this.clockEvents = new Map();
+    this.cards = new Map();
     this.statTypes = new Map();
+    this.statTemplates = new Map();
     this.users = new Map();
     
+    this.currentOrganisationId = 1;
     this.currentTeamId = 1;
     this.currentPlayerId = 1;
     this.currentFixtureId = 1;
+    this.currentCompetitionId = 1;
     this.currentGameId = 1;
     this.currentGamePlayerId = 1;
     this.currentStatId = 1;
+    this.currentGameEventId = 1;
+    this.currentClockEventId = 1;
+    this.currentCardId = 1;
     this.currentStatTypeId = 1;
+    this.currentStatTemplateId = 1;
     this.currentUserId = 1;
     
-    // Initialize default stat types
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // prune expired sessions daily
+    });
+    
+    // Initialize default stat types and the templates made from them
     this.initializeDefaultStatTypes();
+    this.initializeDefaultStatTemplates();
   }
   
   private initializeDefaultStatTypes() {
-    const defaultStatTypes: InsertStatType[] = [
-      // General stats
-      { name: "Tackles", description: "Successful tackles made", isActive: true, isDefault: true, color: "#2563EB", icon: "sports_kabaddi" },
-      { name: "Carries", description: "Ball carries", isActive: true, isDefault: true, color: "#16A34A", icon: "directions_run" },
-      { name: "Meters", description: "Meters gained", isActive: true, isDefault: true, color: "#CA8A04", icon: "straighten" },
-      { name: "Passes", description: "Successful passes made", isActive: true, isDefault: true, color: "#4F46E5", icon: "sports_handball" },
-      
-      // Scoring stats
-      { name: "Try", description: "Try scored (5 points)", isActive: true, isDefault: true, color: "#9333EA", icon: "emoji_events" },
-      { name: "Conversion", description: "Conversion kick (2 points)", isActive: true, isDefault: true, color: "#DC2626", icon: "sports_soccer" },
-      { name: "Penalty Goal", description: "Penalty kick (2 points)", isActive: true, isDefault: true, color: "#E11D48", icon: "gps_fixed" },
-      { name: "Field Goal", description: "Field goal (1 point)", isActive: true, isDefault: true, color: "#FB923C", icon: "sports" },
-      
-      // Discipline stats
-      { name: "Yellow Card", description: "Player sin-binned for 10 minutes", isActive: true, isDefault: true, color: "#FBBF24", icon: "credit_card" },
-      { name: "Red Card", description: "Player sent off for the remainder of the game", isActive: true, isDefault: true, color: "#B91C1C", icon: "credit_card" },
-      
-      // Errors and penalties
-      { name: "Penalty Conceded", description: "Penalty given away", isActive: true, isDefault: true, color: "#64748B", icon: "flag" },
-      { name: "Error", description: "Handling error or mistake", isActive: true, isDefault: true, color: "#94A3B8", icon: "error" }
-    ];
-    
-    defaultStatTypes.forEach(statType => {
-      this.createStatType(statType);
+    defaultStatTypes.forEach(insertStatType => {
+      const id = this.currentStatTypeId++;
+      this.statTypes.set(id, { ...withStatTypeDefaults(insertStatType), organisationId: null, id });
+    });
+  }
+  
+  private initializeDefaultStatTemplates() {
+    getDefaultStatTemplates(Array.from(this.statTypes.values())).forEach(insertStatTemplate => {
+      const id = this.currentStatTemplateId++;
+      this.statTemplates.set(id, { ...insertStatTemplate, organisationId: null, id });
     });
   }
 
+  // Organisation methods
+  async getOrganisation(id: number): Promise<Organisation | undefined> {
+    return this.organisations.get(id);
+  }
+  
+  async createOrganisation(insertOrganisation: InsertOrganisation): Promise<Organisation> {
+    const id = this.currentOrganisationId++;
+    const organisation: Organisation = { ...insertOrganisation, id, createdAt: new Date() };
+    this.organisations.set(id, organisation);
+    return organisation;
+  }
+
   // Team methods
-  async getTeam(id: number): Promise<Team | undefined> {
-    return this.teams.get(id);
+  async getTeam(organisationId: number, id: number): Promise<Team | undefined> {
+    return ownedBy(this.teams.get(id), organisationId);
   }
   
-  async getTeams(): Promise<Team[]> {
-    return Array.from(this.teams.values());
+  async getTeams(organisationId: number): Promise<Team[]> {
+    return Array.from(this.teams.values()).filter(team => team.organisationId === organisationId);
   }
   
-  async createTeam(insertTeam: InsertTeam): Promise<Team> {
+  async createTeam(organisationId: number, insertTeam: InsertTeam): Promise<Team> {
     const id = this.currentTeamId++;
-    const team: Team = { ...insertTeam, id };
+    const team: Team = {
+      description: null,
+      isActive: true,
+      format: DEFAULT_SPORT_FORMAT,
+      maxBenchSize: getSportFormat(insertTeam.format).maxBenchSize,
+      calendarToken: null,
+      ...insertTeam,
+      organisationId,
+      id
+    };
     this.teams.set(id, team);
     return team;
   }
   
-  async updateTeam(id: number, team: Partial<InsertTeam>): Promise<Team | undefined> {
-    const existingTeam = this.teams.get(id);
+  async updateTeam(organisationId: number, id: number, team: Partial<InsertTeam>): Promise<Team | undefined> {
+    const existingTeam = await this.getTeam(organisationId, id);
     if (!existingTeam) return undefined;
     
     const updatedTeam = { ...existingTeam, ...team };
@@ -184,71 +451,169 @@ export class MemStorage implements IStorage {
     return updatedTeam;
   }
   
-  async deleteTeam(id: number): Promise<boolean> {
+  async deleteTeam(organisationId: number, id: number): Promise<boolean> {
+    if (!await this.getTeam(organisationId, id)) return false;
     return this.teams.delete(id);
   }
+  
+  async getTeamByCalendarToken(token: string): Promise<Team | undefined> {
+    return Array.from(this.teams.values()).find(team => team.calendarToken === token);
+  }
+  
+  async setTeamCalendarToken(organisationId: number, id: number, token: string): Promise<Team | undefined> {
+    const existingTeam = await this.getTeam(organisationId, id);
+    if (!existingTeam) return undefined;
+    
+    const updatedTeam = { ...existingTeam, calendarToken: token };
+    this.teams.set(id, updatedTeam);
+    return updatedTeam;
+  }
 
   // Player methods with team-related additions
-  async getPlayersByTeam(teamId: number): Promise<Player[]> {
-    return Array.from(this.players.values()).filter(player => player.teamId === teamId);
+  async getPlayersByTeam(organisationId: number, teamId: number): Promise<Player[]> {
+    return (await this.getPlayers(organisationId)).filter(player => player.teamId === teamId);
   }
 
   // Fixture methods
-  async getFixture(id: number): Promise<Fixture | undefined> {
-    return this.fixtures.get(id);
+  async getFixture(organisationId: number, id: number): Promise<Fixture | undefined> {
+    return ownedBy(this.fixtures.get(id), organisationId);
   }
   
-  async getFixtures(): Promise<Fixture[]> {
-    return Array.from(this.fixtures.values());
+  async getFixtures(organisationId: number): Promise<Fixture[]> {
+    return Array.from(this.fixtures.values()).filter(fixture => fixture.organisationId === organisationId);
   }
   
-  async getTeamFixtures(teamId: number): Promise<Fixture[]> {
-    return Array.from(this.fixtures.values()).filter(fixture => fixture.teamId === teamId);
+  async getTeamFixtures(organisationId: number, teamId: number): Promise<Fixture[]> {
+    return (await this.getFixtures(organisationId)).filter(fixture => fixture.teamId === teamId);
   }
   
-  async createFixture(insertFixture: InsertFixture): Promise<Fixture> {
+  async createFixture(organisationId: number, insertFixture: InsertFixture): Promise<Fixture> {
     const id = this.currentFixtureId++;
-    const fixture: Fixture = { ...insertFixture, id };
+    const fixture: Fixture = {
+      isHome: true,
+      notes: null,
+      status: "scheduled",
+      ...insertFixture,
+      gameId: null,
+      sequence: 0,
+      organisationId,
+      id
+    };
     this.fixtures.set(id, fixture);
     return fixture;
   }
   
-  async updateFixture(id: number, fixture: Partial<InsertFixture>): Promise<Fixture | undefined> {
-    const existingFixture = this.fixtures.get(id);
+  async createFixtures(organisationId: number, insertFixtures: InsertFixture[]): Promise<Fixture[]> {
+    return Promise.all(insertFixtures.map(fixture => this.createFixture(organisationId, fixture)));
+  }
+  
+  async updateFixture(organisationId: number, id: number, fixture: Partial<InsertFixture>): Promise<Fixture | undefined> {
+    const existingFixture = await this.getFixture(organisationId, id);
     if (!existingFixture) return undefined;
     
-    const updatedFixture = { ...existingFixture, ...fixture };
+    const updatedFixture = { ...existingFixture, ...fixture, sequence: existingFixture.sequence + 1 };
+    this.fixtures.set(id, updatedFixture);
+    return updatedFixture;
+  }
+  
+  async setFixtureGame(organisationId: number, id: number, gameId: number | null, status: FixtureStatus): Promise<Fixture | undefined> {
+    const existingFixture = await this.getFixture(organisationId, id);
+    if (!existingFixture) return undefined;
+    
+    const updatedFixture = { ...existingFixture, gameId, status, sequence: existingFixture.sequence + 1 };
+    this.fixtures.set(id, updatedFixture);
+    return updatedFixture;
+  }
+  
+  async claimFixture(organisationId: number, id: number, gameId: number): Promise<Fixture | undefined> {
+    // Checked and set without yielding, so a second claim sees this one
+    const existingFixture = ownedBy(this.fixtures.get(id), organisationId);
+    if (!existingFixture || existingFixture.gameId != null) return undefined;
+    
+    const updatedFixture: Fixture = { ...existingFixture, gameId, status: "in_progress", sequence: existingFixture.sequence + 1 };
     this.fixtures.set(id, updatedFixture);
     return updatedFixture;
   }
   
-  async deleteFixture(id: number): Promise<boolean> {
+  async deleteFixture(organisationId: number, id: number): Promise<boolean> {
+    if (!await this.getFixture(organisationId, id)) return false;
     return this.fixtures.delete(id);
   }
   
+  // Competition methods
+  async getCompetition(organisationId: number, id: number): Promise<Competition | undefined> {
+    return ownedBy(this.competitions.get(id), organisationId);
+  }
+  
+  async getCompetitions(organisationId: number): Promise<Competition[]> {
+    return Array.from(this.competitions.values()).filter(competition => competition.organisationId === organisationId);
+  }
+  
+  async createCompetition(organisationId: number, insertCompetition: InsertCompetition): Promise<Competition> {
+    const id = this.currentCompetitionId++;
+    const competition: Competition = {
+      interchangeLimit: null,
+      ...insertCompetition,
+      organisationId,
+      id
+    };
+    this.competitions.set(id, competition);
+    return competition;
+  }
+  
+  async updateCompetition(organisationId: number, id: number, competition: Partial<InsertCompetition>): Promise<Competition | undefined> {
+    const existingCompetition = await this.getCompetition(organisationId, id);
+    if (!existingCompetition) return undefined;
+    
+    const updatedCompetition = { ...existingCompetition, ...competition };
+    this.competitions.set(id, updatedCompetition);
+    return updatedCompetition;
+  }
+  
+  async deleteCompetition(organisationId: number, id: number): Promise<boolean> {
+    if (!await this.getCompetition(organisationId, id)) return false;
+    return this.competitions.delete(id);
+  }
+  
   // Game methods with team-related additions
-  async getTeamGames(teamId: number): Promise<Game[]> {
-    return Array.from(this.games.values()).filter(game => game.teamId === teamId);
+  async getTeamGames(organisationId: number, teamId: number): Promise<Game[]> {
+    return (await this.getGames(organisationId)).filter(game => game.teamId === teamId);
   }
 
   // Player methods
-  async getPlayer(id: number): Promise<Player | undefined> {
-    return this.players.get(id);
+  async getPlayer(organisationId: number, id: number): Promise<Player | undefined> {
+    return ownedBy(this.players.get(id), organisationId);
   }
   
-  async getPlayers(): Promise<Player[]> {
-    return Array.from(this.players.values());
+  async getPlayers(organisationId: number): Promise<Player[]> {
+    return Array.from(this.players.values()).filter(player => player.organisationId === organisationId);
   }
   
-  async createPlayer(insertPlayer: InsertPlayer): Promise<Player> {
+  async createPlayer(organisationId: number, insertPlayer: InsertPlayer): Promise<Player> {
     const id = this.currentPlayerId++;
-    const player: Player = { ...insertPlayer, id };
+    const player: Player = {
+      number: null,
+      position: null,
+      dateOfBirth: null,
+      teamId: null,
+      email: null,
+      phone: null,
+      notes: null,
+      isActive: true,
+      ...insertPlayer,
+      organisationId,
+      id
+    };
     this.players.set(id, player);
     return player;
   }
   
-  async updatePlayer(id: number, player: Partial<InsertPlayer>): Promise<Player | undefined> {
-    const existingPlayer = this.players.get(id);
+  async createPlayers(organisationId: number, insertPlayers: InsertPlayer[]): Promise<Player[]> {
+    return Promise.all(insertPlayers.map(player => this.createPlayer(organisationId, player)));
+  }
+  
+  async updatePlayer(organisationId: number, id: number, player: Partial<InsertPlayer>): Promise<Player | undefined> {
+    const existingPlayer = await this.getPlayer(organisationId, id);
     if (!existingPlayer) return undefined;
     
     const updatedPlayer = { ...existingPlayer, ...player };
@@ -256,36 +621,45 @@ export class MemStorage implements IStorage {
     return updatedPlayer;
   }
   
-  async deletePlayer(id: number): Promise<boolean> {
+  async deletePlayer(organisationId: number, id: number): Promise<boolean> {
+    if (!await this.getPlayer(organisationId, id)) return false;
     return this.players.delete(id);
   }
   
   // Game methods
-  async getGame(id: number): Promise<Game | undefined> {
-    return this.games.get(id);
+  async getGame(organisationId: number, id: number): Promise<Game | undefined> {
+    return ownedBy(this.games.get(id), organisationId);
   }
   
-  async getGames(): Promise<Game[]> {
-    return Array.from(this.games.values());
+  async getGames(organisationId: number): Promise<Game[]> {
+    return Array.from(this.games.values()).filter(game => game.organisationId === organisationId);
   }
   
-  async createGame(insertGame: InsertGame): Promise<Game> {
+  async createGame(organisationId: number, insertGame: InsertGame): Promise<Game> {
     const id = this.currentGameId++;
     const game: Game = { 
+      fixtureId: null,
+      competitionId: null,
+      format: DEFAULT_SPORT_FORMAT,
+      date: new Date(),
+      sinBinMinutes: 10,
       ...insertGame, 
+      organisationId,
       id, 
       homeScore: 0, 
       awayScore: 0, 
       isCompleted: false,
       playerOfMatchId: null,
-      playerOfMatchComment: null
+      playerOfMatchComment: null,
+      statTemplateId: null,
+      statTypeIds: null
     };
     this.games.set(id, game);
     return game;
   }
   
-  async updateGame(id: number, game: Partial<InsertGame>): Promise<Game | undefined> {
-    const existingGame = this.games.get(id);
+  async updateGame(organisationId: number, id: number, game: UpdateGame): Promise<Game | undefined> {
+    const existingGame = await this.getGame(organisationId, id);
     if (!existingGame) return undefined;
     
     const updatedGame = { ...existingGame, ...game };
@@ -293,8 +667,8 @@ export class MemStorage implements IStorage {
     return updatedGame;
   }
   
-  async completeGame(id: number, homeScore: number, awayScore: number, playerOfMatchId?: number, playerOfMatchComment?: string): Promise<Game | undefined> {
-    const existingGame = this.games.get(id);
+  async completeGame(organisationId: number, id: number, homeScore: number, awayScore: number, playerOfMatchId?: number, playerOfMatchComment?: string): Promise<Game | undefined> {
+    const existingGame = await this.getGame(organisationId, id);
     if (!existingGame) return undefined;
     
     const updatedGame = { 
@@ -310,7 +684,16 @@ export class MemStorage implements IStorage {
     return updatedGame;
   }
   
-  async deleteGame(id: number): Promise<boolean> {
+  async deleteGame(organisationId: number, id: number): Promise<boolean> {
+    if (!await this.getGame(organisationId, id)) return false;
+    
+    // Everything recorded in the game goes with it
+    const records: Map<number, { gameId: number }>[] = [this.gamePlayers, this.stats, this.gameEvents, this.clockEvents, this.cards];
+    for (const map of records) {
+      Array.from(map.entries())
+        .filter(([, record]) => record.gameId === id)
+        .forEach(([recordId]) => map.delete(recordId));
+    }
     return this.games.delete(id);
   }
   
@@ -323,9 +706,27 @@ export class MemStorage implements IStorage {
     return Array.from(this.gamePlayers.values()).filter(gp => gp.gameId === gameId);
   }
   
+  async getGamePlayersForGames(gameIds: number[]): Promise<GamePlayer[]> {
+    const ids = new Set(gameIds);
+    return Array.from(this.gamePlayers.values()).filter(gp => ids.has(gp.gameId));
+  }
+  
   async createGamePlayer(insertGamePlayer: InsertGamePlayer): Promise<GamePlayer> {
+    if (insertGamePlayer.clientId && await this.getGamePlayerByClientId(insertGamePlayer.gameId, insertGamePlayer.clientId)) {
+      throw new DuplicateClientIdError();
+    }
+    
     const id = this.currentGamePlayerId++;
-    const gamePlayer: GamePlayer = { ...insertGamePlayer, id };
+    const gamePlayer: GamePlayer = {
+      isStarter: false,
+      startTime: null,
+      endTime: null,
+      startPeriod: null,
+      endPeriod: null,
+      clientId: null,
+      ...insertGamePlayer,
+      id
+    };
     this.gamePlayers.set(id, gamePlayer);
     return gamePlayer;
   }
@@ -339,16 +740,25 @@ export class MemStorage implements IStorage {
     return updatedGamePlayer;
   }
   
-  async substitutePlayer(gameId: number, outPlayerId: number, inPlayerId: number, time: number): Promise<boolean> {
+  async getGamePlayerByClientId(gameId: number, clientId: string): Promise<GamePlayer | undefined> {
+    return Array.from(this.gamePlayers.values()).find(gp => gp.gameId === gameId && gp.clientId === clientId);
+  }
+  
+  async substitutePlayer(gameId: number, outPlayerId: number, inPlayerId: number, time: number, clientId?: string, period?: number): Promise<boolean> {
+    if (clientId && await this.getGamePlayerByClientId(gameId, clientId)) {
+      throw new DuplicateClientIdError();
+    }
+    
     // Find the outgoing player's record
     const outPlayerRecord = Array.from(this.gamePlayers.values()).find(
-      gp => gp.gameId === gameId && gp.playerId === outPlayerId && !gp.endTime
+      gp => gp.gameId === gameId && gp.playerId === outPlayerId && !gp.endTime && !isBenchNomination(gp)
     );
     
     if (!outPlayerRecord) return false;
     
     // Update the outgoing player's end time
     outPlayerRecord.endTime = time;
+    outPlayerRecord.endPeriod = period ?? null;
     this.gamePlayers.set(outPlayerRecord.id, outPlayerRecord);
     
     // Create a record for the incoming player
@@ -362,7 +772,9 @@ export class MemStorage implements IStorage {
       position: incomingPosition,
       isStarter: false,
       startTime: time,
-      endTime: null
+      endTime: null,
+      startPeriod: period ?? null,
+      clientId: clientId ?? null
     };
     
     await this.createGamePlayer(inPlayerRecord);
@@ -373,17 +785,55 @@ export class MemStorage implements IStorage {
     return this.gamePlayers.delete(id);
   }
   
+  async setGameLineup(gameId: number, lineup: InsertGamePlayer[]): Promise<GamePlayer[]> {
+    Array.from(this.gamePlayers.values())
+      .filter(gp => gp.gameId === gameId)
+      .forEach(gp => this.gamePlayers.delete(gp.id));
+    
+    return Promise.all(lineup.map(gamePlayer => this.createGamePlayer({ ...gamePlayer, gameId })));
+  }
+  
   // Stat methods
   async getStat(id: number): Promise<Stat | undefined> {
     return this.stats.get(id);
   }
   
+  async getStatByClientId(gameId: number, clientId: string): Promise<Stat | undefined> {
+    return Array.from(this.stats.values()).find(stat => stat.gameId === gameId && stat.clientId === clientId);
+  }
+  
+  async getStats(organisationId: number, filters: StatFilters = {}): Promise<Stat[]> {
+    return Array.from(this.stats.values()).filter(stat => {
+      // Stats belong to the club that played the game
+      const game = this.games.get(stat.gameId);
+      if (!game || game.organisationId !== organisationId) return false;
+      
+      if (filters.gameId !== undefined && stat.gameId !== filters.gameId) return false;
+      if (filters.playerId !== undefined && stat.playerId !== filters.playerId) return false;
+      if (filters.statTypeId !== undefined && stat.statTypeId !== filters.statTypeId) return false;
+      if (filters.statType !== undefined && stat.statType !== filters.statType) return false;
+      if (filters.period !== undefined && stat.period !== filters.period) return false;
+      
+      // Team and date filters apply to the game the stat was recorded in
+      if (filters.teamId !== undefined && game.teamId !== filters.teamId) return false;
+      if (filters.from && game.date < filters.from) return false;
+      if (filters.to && game.date > filters.to) return false;
+      
+      return true;
+    });
+  }
+  
+  async getStatTotals(organisationId: number, filters: StatFilters = {}): Promise<StatTotals> {
+    const [statList, statTypeList] = await Promise.all([this.getStats(organisationId, filters), this.getStatTypes(organisationId)]);
+    return summarizeStats(statList, statTypeList);
+  }
+  
   async getGameStats(gameId: number): Promise<Stat[]> {
     return Array.from(this.stats.values()).filter(stat => stat.gameId === gameId);
   }
   
-  async getPlayerStats(playerId: number): Promise<Stat[]> {
-    return Array.from(this.stats.values()).filter(stat => stat.playerId === playerId);
+  async getPlayerStats(organisationId: number, playerId: number): Promise<Stat[]> {
+    return this.getStats(organisationId, { playerId });
   }
   
   async getPlayerGameStats(gameId: number, playerId: number): Promise<Stat[]> {
@@ -393,34 +843,186 @@ export class MemStorage implements IStorage {
   }
   
   async createStat(insertStat: InsertStat): Promise<Stat> {
+    if (insertStat.clientId && await this.getStatByClientId(insertStat.gameId, insertStat.clientId)) {
+      throw new DuplicateClientIdError();
+    }
+    
     const id = this.currentStatId++;
-    const stat: Stat = { ...insertStat, id };
+    const stat: Stat = {
+      statTypeId: null,
+      gameTime: null,
+      period: 1,
+      clientId: null,
+      ...insertStat,
+      value: insertStat.value === undefined ? 1 : insertStat.value,
+      id
+    };
     this.stats.set(id, stat);
     return stat;
   }
   
+  async updateStat(id: number, stat: Partial<InsertStat>): Promise<Stat | undefined> {
+    const existingStat = this.stats.get(id);
+    if (!existingStat) return undefined;
+    
+    const updatedStat = { ...existingStat, ...stat };
+    this.stats.set(id, updatedStat);
+    return updatedStat;
+  }
+  
   async deleteStat(id: number): Promise<boolean> {
     return this.stats.delete(id);
   }
   
+  // GameEvent methods
+  async getGameEvent(id: number): Promise<GameEvent | undefined> {
+    return this.gameEvents.get(id);
+  }
+  
+  async getGameEvents(gameId: number): Promise<GameEvent[]> {
+    return Array.from(this.gameEvents.values())
+      .filter(event => event.gameId === gameId)
+      .sort((a, b) => (a.period ?? 1) - (b.period ?? 1) || (a.minute ?? 0) - (b.minute ?? 0) || a.id - b.id);
+  }
+  
+  async createGameEvent(insertGameEvent: InsertGameEvent): Promise<GameEvent> {
+    const id = this.currentGameEventId++;
+    const gameEvent: GameEvent = {
+      playerId: null,
+      minute: null,
+      period: 1,
+      isOpposition: false,
+      points: 0,
+      notes: null,
+      ...insertGameEvent,
+      id,
+      createdAt: new Date()
+    };
+    this.gameEvents.set(id, gameEvent);
+    return gameEvent;
+  }
+  
+  async updateGameEvent(id: number, gameEvent: Partial<InsertGameEvent>): Promise<GameEvent | undefined> {
+    const existingGameEvent = this.gameEvents.get(id);
+    if (!existingGameEvent) return undefined;
+    
+    const updatedGameEvent = { ...existingGameEvent, ...gameEvent };
+    this.gameEvents.set(id, updatedGameEvent);
+    return updatedGameEvent;
+  }
+  
+  async deleteGameEvent(id: number): Promise<boolean> {
+    return this.gameEvents.delete(id);
+  }
+  
+  // ClockEvent methods
+  async getClockEvents(gameId: number): Promise<ClockEvent[]> {
+    return Array.from(this.clockEvents.values())
+      .filter(event => event.gameId === gameId)
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime() || a.id - b.id);
+  }
+  
+  async getClockEventsForGames(gameIds: number[]): Promise<ClockEvent[]> {
+    const ids = new Set(gameIds);
+    return Array.from(this.clockEvents.values())
+      .filter(event => ids.has(event.gameId))
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime() || a.id - b.id);
+  }
+  
+  async getClockEventByClientId(gameId: number, clientId: string): Promise<ClockEvent | undefined> {
+    return Array.from(this.clockEvents.values()).find(event => event.gameId === gameId && event.clientId === clientId);
+  }
+  
+  async createClockEvent(insertClockEvent: InsertClockEvent): Promise<ClockEvent> {
+    if (insertClockEvent.clientId && await this.getClockEventByClientId(insertClockEvent.gameId, insertClockEvent.clientId)) {
+      throw new DuplicateClientIdError();
+    }
+    
+    const id = this.currentClockEventId++;
+    const clockEvent: ClockEvent = {
+      seconds: null,
+      clientId: null,
+      ...insertClockEvent,
+      occurredAt: insertClockEvent.occurredAt ?? new Date(),
+      id
+    };
+    this.clockEvents.set(id, clockEvent);
+    return clockEvent;
+  }
+  
+  // Card methods
+  async getCard(id: number): Promise<Card | undefined> {
+    return this.cards.get(id);
+  }
+  
+  async getCards(gameId: number): Promise<Card[]> {
+    return Array.from(this.cards.values())
+      .filter(card => card.gameId === gameId)
+      .sort((a, b) => a.issuedAt - b.issuedAt || a.id - b.id);
+  }
+  
+  async getCardsForGames(gameIds: number[]): Promise<Card[]> {
+    const ids = new Set(gameIds);
+    return Array.from(this.cards.values())
+      .filter(card => ids.has(card.gameId))
+      .sort((a, b) => a.issuedAt - b.issuedAt || a.id - b.id);
+  }
+  
+  async getCardByClientId(gameId: number, clientId: string): Promise<Card | undefined> {
+    return Array.from(this.cards.values()).find(card => card.gameId === gameId && card.clientId === clientId);
+  }
+  
+  async createCard(insertCard: InsertCard): Promise<Card> {
+    if (insertCard.clientId && await this.getCardByClientId(insertCard.gameId, insertCard.clientId)) {
+      throw new DuplicateClientIdError();
+    }
+    
+    const id = this.currentCardId++;
+    const card: Card = {
+      period: 1,
+      durationSeconds: null,
+      returnedAt: null,
+      clientId: null,
+      ...insertCard,
+      id
+    };
+    this.cards.set(id, card);
+    return card;
+  }
+  
+  async updateCard(id: number, card: Partial<InsertCard>): Promise<Card | undefined> {
+    const existingCard = this.cards.get(id);
+    if (!existingCard) return undefined;
+    
+    const updatedCard = { ...existingCard, ...card };
+    this.cards.set(id, updatedCard);
+    return updatedCard;
+  }
+  
   // StatType methods
-  async getStatType(id: number): Promise<StatType | undefined> {
-    return this.statTypes.get(id);
+  async getStatType(organisationId: number, id: number): Promise<StatType | undefined> {
+    const statType = this.statTypes.get(id);
+    return statType?.organisationId == null ? statType : ownedBy(statType, organisationId);
   }
   
-  async getStatTypes(): Promise<StatType[]> {
-    return Array.from(this.statTypes.values());
+  async getStatTypes(organisationId: number): Promise<StatType[]> {
+    return Array.from(this.statTypes.values())
+      .filter(statType => statType.organisationId == null || statType.organisationId === organisationId)
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
   }
   
-  async createStatType(insertStatType: InsertStatType): Promise<StatType> {
+  async createStatType(organisationId: number, insertStatType: InsertStatType): Promise<StatType> {
     const id = this.currentStatTypeId++;
-    const statType: StatType = { ...insertStatType, id };
+    const sortOrder = Math.max(0, ...Array.from(this.statTypes.values())
+      .filter(statType => statType.organisationId === organisationId)
+      .map(statType => statType.sortOrder)) + 1;
+    const statType: StatType = { ...withStatTypeDefaults(insertStatType), organisationId, id, sortOrder };
     this.statTypes.set(id, statType);
     return statType;
   }
   
-  async updateStatType(id: number, statType: Partial<InsertStatType>): Promise<StatType | undefined> {
-    const existingStatType = this.statTypes.get(id);
+  async updateStatType(organisationId: number, id: number, statType: Partial<InsertStatType>): Promise<StatType | undefined> {
+    const existingStatType = ownedBy(this.statTypes.get(id), organisationId);
     if (!existingStatType) return undefined;
     
     const updatedStatType = { ...existingStatType, ...statType };
@@ -428,10 +1030,56 @@ export class MemStorage implements IStorage {
     return updatedStatType;
   }
   
-  async deleteStatType(id: number): Promise<boolean> {
+  async reorderStatTypes(organisationId: number, ids: number[]): Promise<StatType[]> {
+    const reordered: StatType[] = [];
+    ids.forEach((id, index) => {
+      const statType = ownedBy(this.statTypes.get(id), organisationId);
+      if (!statType) return;
+      
+      const updatedStatType = { ...statType, sortOrder: index + 1 };
+      this.statTypes.set(id, updatedStatType);
+      reordered.push(updatedStatType);
+    });
+    return reordered;
+  }
+  
+  async deleteStatType(organisationId: number, id: number): Promise<boolean> {
+    if (!ownedBy(this.statTypes.get(id), organisationId)) return false;
     return this.statTypes.delete(id);
   }
   
+  // StatTemplate methods
+  async getStatTemplate(organisationId: number, id: number): Promise<StatTemplate | undefined> {
+    const statTemplate = this.statTemplates.get(id);
+    return statTemplate?.organisationId == null ? statTemplate : ownedBy(statTemplate, organisationId);
+  }
+  
+  async getStatTemplates(organisationId: number): Promise<StatTemplate[]> {
+    return Array.from(this.statTemplates.values())
+      .filter(statTemplate => statTemplate.organisationId == null || statTemplate.organisationId === organisationId);
+  }
+  
+  async createStatTemplate(organisationId: number, insertStatTemplate: InsertStatTemplate): Promise<StatTemplate> {
+    const id = this.currentStatTemplateId++;
+    const statTemplate: StatTemplate = { ...insertStatTemplate, organisationId, id };
+    this.statTemplates.set(id, statTemplate);
+    return statTemplate;
+  }
+  
+  async updateStatTemplate(organisationId: number, id: number, statTemplate: Partial<InsertStatTemplate>): Promise<StatTemplate | undefined> {
+    const existingStatTemplate = ownedBy(this.statTemplates.get(id), organisationId);
+    if (!existingStatTemplate) return undefined;
+    
+    const updatedStatTemplate = { ...existingStatTemplate, ...statTemplate };
+    this.statTemplates.set(id, updatedStatTemplate);
+    return updatedStatTemplate;
+  }
+  
+  async deleteStatTemplate(organisationId: number, id: number): Promise<boolean> {
+    if (!ownedBy(this.statTemplates.get(id), organisationId)) return false;
+    return this.statTemplates.delete(id);
+  }
+  
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -443,12 +1091,907 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getUsers(organisationId: number): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => user.organisationId === organisationId);
+  }
+  
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { teamName: null, role: "parent", ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
+  
+  async updateUser(organisationId: number, id: number, user: Partial<InsertUser>): Promise<User | undefined> {
+    const existingUser = ownedBy(this.users.get(id), organisationId);
+    if (!existingUser) return undefined;
+    
+    const updatedUser = { ...existingUser, ...user };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async deleteUser(organisationId: number, id: number): Promise<boolean> {
+    if (!ownedBy(this.users.get(id), organisationId)) return false;
+    return this.users.delete(id);
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  private seeded: Promise<void> | null = null;
+
+  constructor(private db: Database, public sessionStore: session.Store) {
+    // Seeding starts straight away; if the database can't be reached yet the
+    // next call that needs it tries again
+    this.ensureSeeded().catch(error => {
+      console.error("Failed to seed the database; will retry on next use", error);
+    });
+  }
+
+  // Seed default stat types and templates on first run against an empty
+  // database, then bring forward built-in types and stats from before
+  // scoring types and stat type ids. A failed run is forgotten so it's retried.
+  ensureSeeded(): Promise<void> {
+    this.seeded ??= this.initializeDefaultStatTypes()
+      .then(() => this.initializeDefaultStatTemplates())
+      .then(() => this.markBuiltInScoringTypes())
+      .then(() => this.linkStatsToStatTypes())
+      .catch(error => {
+        this.seeded = null;
+        throw error;
+      });
+    return this.seeded;
+  }
+
+  private async initializeDefaultStatTypes() {
+    const [existing] = await this.db.select({ id: statTypes.id }).from(statTypes).limit(1);
+    if (existing) return;
+
+    await this.db.insert(statTypes).values(defaultStatTypes);
+  }
+
+  private async initializeDefaultStatTemplates() {
+    const [existing] = await this.db.select({ id: statTemplates.id }).from(statTemplates).limit(1);
+    if (existing) return;
+
+    const builtInStatTypes = await this.db.select().from(statTypes).where(isNull(statTypes.organisationId));
+    await this.db.insert(statTemplates).values(getDefaultStatTemplates(builtInStatTypes));
+  }
+
+  // Built-in scoring types used to be priced by their name; ones seeded
+  // before types carried their type of score are marked with it
+  private async markBuiltInScoringTypes() {
+    for (const { name, scoringType } of defaultStatTypes) {
+      if (!scoringType) continue;
+
+      await this.db
+        .update(statTypes)
+        .set({ scoringType })
+        .where(and(isNull(statTypes.organisationId), isNull(statTypes.scoringType), eq(statTypes.name, name)));
+    }
+  }
+
+  // Stats used to be matched to their type by name. Each club's unlinked
+  // stats are linked to the type of that name it would be given today; names
+  // with no type left get an archived one of the club's own, so renaming
+  // never splits a stat's history again.
+  private async linkStatsToStatTypes() {
+    await this.db.transaction(async (tx) => {
+      const unlinked = await tx
+        .selectDistinct({ organisationId: games.organisationId, name: stats.statType })
+        .from(stats)
+        .innerJoin(games, eq(stats.gameId, games.id))
+        .where(isNull(stats.statTypeId));
+      if (unlinked.length === 0) return;
+
+      const statTypeList = await tx.select().from(statTypes);
+
+      for (const { organisationId, name } of unlinked) {
+        const visible = statTypeList.filter(statType => statType.organisationId == null || statType.organisationId === organisationId);
+        const statType = findStatTypeByName(visible, name) ?? (
+          await tx.insert(statTypes).values({ organisationId, name, isActive: false }).returning()
+        )[0];
+
+        await tx
+          .update(stats)
+          .set({ statTypeId: statType.id })
+          .where(and(
+            isNull(stats.statTypeId),
+            eq(stats.statType, name),
+            inArray(stats.gameId, tx.select({ id: games.id }).from(games).where(eq(games.organisationId, organisationId)))
+          ));
+      }
+    });
+  }
+
+  // Organisation methods
+  async getOrganisation(id: number): Promise<Organisation | undefined> {
+    const [organisation] = await this.db.select().from(organisations).where(eq(organisations.id, id));
+    return organisation;
+  }
+  
+  async createOrganisation(insertOrganisation: InsertOrganisation): Promise<Organisation> {
+    const [organisation] = await this.db.insert(organisations).values(insertOrganisation).returning();
+    return organisation;
+  }
+
+  // Team methods
+  async getTeam(organisationId: number, id: number): Promise<Team | undefined> {
+    const [team] = await this.db
+      .select()
+      .from(teams)
+      .where(and(eq(teams.organisationId, organisationId), eq(teams.id, id)));
+    return team;
+  }
+  
+  async getTeams(organisationId: number): Promise<Team[]> {
+    return this.db.select().from(teams).where(eq(teams.organisationId, organisationId)).orderBy(asc(teams.id));
+  }
+  
+  async createTeam(organisationId: number, insertTeam: InsertTeam): Promise<Team> {
+    const [team] = await this.db.insert(teams).values({ ...insertTeam, organisationId }).returning();
+    return team;
+  }
+  
+  async updateTeam(organisationId: number, id: number, team: Partial<InsertTeam>): Promise<Team | undefined> {
+    if (Object.keys(team).length === 0) return this.getTeam(organisationId, id);
+    
+    const [updatedTeam] = await this.db
+      .update(teams)
+      .set(team)
+      .where(and(eq(teams.organisationId, organisationId), eq(teams.id, id)))
+      .returning();
+    return updatedTeam;
+  }
+  
+  async deleteTeam(organisationId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(teams)
+      .where(and(eq(teams.organisationId, organisationId), eq(teams.id, id)))
+      .returning({ id: teams.id });
+    return deleted.length > 0;
+  }
+  
+  async getTeamByCalendarToken(token: string): Promise<Team | undefined> {
+    const [team] = await this.db.select().from(teams).where(eq(teams.calendarToken, token));
+    return team;
+  }
+  
+  async setTeamCalendarToken(organisationId: number, id: number, token: string): Promise<Team | undefined> {
+    const [updatedTeam] = await this.db
+      .update(teams)
+      .set({ calendarToken: token })
+      .where(and(eq(teams.organisationId, organisationId), eq(teams.id, id)))
+      .returning();
+    return updatedTeam;
+  }
+  
+  // Player methods
+  async getPlayer(organisationId: number, id: number): Promise<Player | undefined> {
+    const [player] = await this.db
+      .select()
+      .from(players)
+      .where(and(eq(players.organisationId, organisationId), eq(players.id, id)));
+    return player;
+  }
+  
+  async getPlayers(organisationId: number): Promise<Player[]> {
+    return this.db.select().from(players).where(eq(players.organisationId, organisationId)).orderBy(asc(players.id));
+  }
+  
+  async getPlayersByTeam(organisationId: number, teamId: number): Promise<Player[]> {
+    return this.db
+      .select()
+      .from(players)
+      .where(and(eq(players.organisationId, organisationId), eq(players.teamId, teamId)))
+      .orderBy(asc(players.id));
+  }
+  
+  async createPlayer(organisationId: number, insertPlayer: InsertPlayer): Promise<Player> {
+    const [player] = await this.db.insert(players).values({ ...insertPlayer, organisationId }).returning();
+    return player;
+  }
+  
+  // An imported roster goes in whole or not at all
+  async createPlayers(organisationId: number, insertPlayers: InsertPlayer[]): Promise<Player[]> {
+    if (insertPlayers.length === 0) return [];
+    
+    return this.db.transaction(async (tx) => {
+      return tx
+        .insert(players)
+        .values(insertPlayers.map(player => ({ ...player, organisationId })))
+        .returning();
+    });
+  }
+  
+  async updatePlayer(organisationId: number, id: number, player: Partial<InsertPlayer>): Promise<Player | undefined> {
+    if (Object.keys(player).length === 0) return this.getPlayer(organisationId, id);
+    
+    const [updatedPlayer] = await this.db
+      .update(players)
+      .set(player)
+      .where(and(eq(players.organisationId, organisationId), eq(players.id, id)))
+      .returning();
+    return updatedPlayer;
+  }
+  
+  async deletePlayer(organisationId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(players)
+      .where(and(eq(players.organisationId, organisationId), eq(players.id, id)))
+      .returning({ id: players.id });
+    return deleted.length > 0;
+  }
+  
+  // Fixture methods
+  async getFixture(organisationId: number, id: number): Promise<Fixture | undefined> {
+    const [fixture] = await this.db
+      .select()
+      .from(fixtures)
+      .where(and(eq(fixtures.organisationId, organisationId), eq(fixtures.id, id)));
+    return fixture;
+  }
+  
+  async getFixtures(organisationId: number): Promise<Fixture[]> {
+    return this.db.select().from(fixtures).where(eq(fixtures.organisationId, organisationId)).orderBy(asc(fixtures.date));
+  }
+  
+  async getTeamFixtures(organisationId: number, teamId: number): Promise<Fixture[]> {
+    return this.db
+      .select()
+      .from(fixtures)
+      .where(and(eq(fixtures.organisationId, organisationId), eq(fixtures.teamId, teamId)))
+      .orderBy(asc(fixtures.date));
+  }
+  
+  async createFixture(organisationId: number, insertFixture: InsertFixture): Promise<Fixture> {
+    const [fixture] = await this.db.insert(fixtures).values({ ...insertFixture, organisationId }).returning();
+    return fixture;
+  }
+  
+  // An imported draw goes in whole or not at all
+  async createFixtures(organisationId: number, insertFixtures: InsertFixture[]): Promise<Fixture[]> {
+    if (insertFixtures.length === 0) return [];
+    
+    return this.db.transaction(async (tx) => {
+      return tx
+        .insert(fixtures)
+        .values(insertFixtures.map(fixture => ({ ...fixture, organisationId })))
+        .returning();
+    });
+  }
+  
+  async updateFixture(organisationId: number, id: number, fixture: Partial<InsertFixture>): Promise<Fixture | undefined> {
+    if (Object.keys(fixture).length === 0) return this.getFixture(organisationId, id);
+    
+    const [updatedFixture] = await this.db
+      .update(fixtures)
+      .set({ ...fixture, sequence: sql`${fixtures.sequence} + 1` })
+      .where(and(eq(fixtures.organisationId, organisationId), eq(fixtures.id, id)))
+      .returning();
+    return updatedFixture;
+  }
+  
+  async setFixtureGame(organisationId: number, id: number, gameId: number | null, status: FixtureStatus): Promise<Fixture | undefined> {
+    const [updatedFixture] = await this.db
+      .update(fixtures)
+      .set({ gameId, status, sequence: sql`${fixtures.sequence} + 1` })
+      .where(and(eq(fixtures.organisationId, organisationId), eq(fixtures.id, id)))
+      .returning();
+    return updatedFixture;
+  }
+  
+  async claimFixture(organisationId: number, id: number, gameId: number): Promise<Fixture | undefined> {
+    const [updatedFixture] = await this.db
+      .update(fixtures)
+      .set({ gameId, status: "in_progress", sequence: sql`${fixtures.sequence} + 1` })
+      .where(and(eq(fixtures.organisationId, organisationId), eq(fixtures.id, id), isNull(fixtures.gameId)))
+      .returning();
+    return updatedFixture;
+  }
+  
+  async deleteFixture(organisationId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(fixtures)
+      .where(and(eq(fixtures.organisationId, organisationId), eq(fixtures.id, id)))
+      .returning({ id: fixtures.id });
+    return deleted.length > 0;
+  }
+  
+  // Competition methods
+  async getCompetition(organisationId: number, id: number): Promise<Competition | undefined> {
+    const [competition] = await this.db
+      .select()
+      .from(competitions)
+      .where(and(eq(competitions.organisationId, organisationId), eq(competitions.id, id)));
+    return competition;
+  }
+  
+  async getCompetitions(organisationId: number): Promise<Competition[]> {
+    return this.db.select().from(competitions).where(eq(competitions.organisationId, organisationId)).orderBy(asc(competitions.name));
+  }
+  
+  async createCompetition(organisationId: number, insertCompetition: InsertCompetition): Promise<Competition> {
+    const [competition] = await this.db.insert(competitions).values({ ...insertCompetition, organisationId }).returning();
+    return competition;
+  }
+  
+  async updateCompetition(organisationId: number, id: number, competition: Partial<InsertCompetition>): Promise<Competition | undefined> {
+    if (Object.keys(competition).length === 0) return this.getCompetition(organisationId, id);
+    
+    const [updatedCompetition] = await this.db
+      .update(competitions)
+      .set(competition)
+      .where(and(eq(competitions.organisationId, organisationId), eq(competitions.id, id)))
+      .returning();
+    return updatedCompetition;
+  }
+  
+  async deleteCompetition(organisationId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(competitions)
+      .where(and(eq(competitions.organisationId, organisationId), eq(competitions.id, id)))
+      .returning({ id: competitions.id });
+    return deleted.length > 0;
+  }
+  
+  // Game methods
+  async getGame(organisationId: number, id: number): Promise<Game | undefined> {
+    const [game] = await this.db
+      .select()
+      .from(games)
+      .where(and(eq(games.organisationId, organisationId), eq(games.id, id)));
+    return game;
+  }
+  
+  async getGames(organisationId: number): Promise<Game[]> {
+    return this.db.select().from(games).where(eq(games.organisationId, organisationId)).orderBy(asc(games.id));
+  }
+  
+  async getTeamGames(organisationId: number, teamId: number): Promise<Game[]> {
+    return this.db
+      .select()
+      .from(games)
+      .where(and(eq(games.organisationId, organisationId), eq(games.teamId, teamId)))
+      .orderBy(asc(games.id));
+  }
+  
+  async createGame(organisationId: number, insertGame: InsertGame): Promise<Game> {
+    const [game] = await this.db.insert(games).values({ ...insertGame, organisationId }).returning();
+    return game;
+  }
+  
+  async updateGame(organisationId: number, id: number, game: UpdateGame): Promise<Game | undefined> {
+    if (Object.keys(game).length === 0) return this.getGame(organisationId, id);
+    
+    const [updatedGame] = await this.db
+      .update(games)
+      .set(game)
+      .where(and(eq(games.organisationId, organisationId), eq(games.id, id)))
+      .returning();
+    return updatedGame;
+  }
+  
+  async completeGame(organisationId: number, id: number, homeScore: number, awayScore: number, playerOfMatchId?: number, playerOfMatchComment?: string): Promise<Game | undefined> {
+    const [updatedGame] = await this.db
+      .update(games)
+      .set({
+        homeScore,
+        awayScore,
+        isCompleted: true,
+        playerOfMatchId: playerOfMatchId || null,
+        playerOfMatchComment: playerOfMatchComment || null
+      })
+      .where(and(eq(games.organisationId, organisationId), eq(games.id, id)))
+      .returning();
+    return updatedGame;
+  }
+  
+  async deleteGame(organisationId: number, id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(games)
+        .where(and(eq(games.organisationId, organisationId), eq(games.id, id)))
+        .returning({ id: games.id });
+      if (deleted.length === 0) return false;
+      
+      // Everything recorded in the game goes with it
+      await tx.delete(gamePlayers).where(eq(gamePlayers.gameId, id));
+      await tx.delete(stats).where(eq(stats.gameId, id));
+      await tx.delete(gameEvents).where(eq(gameEvents.gameId, id));
+      await tx.delete(clockEvents).where(eq(clockEvents.gameId, id));
+      await tx.delete(cards).where(eq(cards.gameId, id));
+      return true;
+    });
+  }
+  
+  // GamePlayer methods
+  async getGamePlayer(id: number): Promise<GamePlayer | undefined> {
+    const [gamePlayer] = await this.db.select().from(gamePlayers).where(eq(gamePlayers.id, id));
+    return gamePlayer;
+  }
+  
+  async getGamePlayers(gameId: number): Promise<GamePlayer[]> {
+    return this.db.select().from(gamePlayers).where(eq(gamePlayers.gameId, gameId)).orderBy(asc(gamePlayers.id));
+  }
+  
+  async getGamePlayersForGames(gameIds: number[]): Promise<GamePlayer[]> {
+    if (gameIds.length === 0) return [];
+    return this.db.select().from(gamePlayers).where(inArray(gamePlayers.gameId, gameIds)).orderBy(asc(gamePlayers.id));
+  }
+  
+  async createGamePlayer(insertGamePlayer: InsertGamePlayer): Promise<GamePlayer> {
+    const [gamePlayer] = await insertOnce(() => this.db.insert(gamePlayers).values(insertGamePlayer).returning());
+    return gamePlayer;
+  }
+  
+  async updateGamePlayer(id: number, gamePlayer: Partial<InsertGamePlayer>): Promise<GamePlayer | undefined> {
+    if (Object.keys(gamePlayer).length === 0) return this.getGamePlayer(id);
+    
+    const [updatedGamePlayer] = await this.db.update(gamePlayers).set(gamePlayer).where(eq(gamePlayers.id, id)).returning();
+    return updatedGamePlayer;
+  }
+  
+  async getGamePlayerByClientId(gameId: number, clientId: string): Promise<GamePlayer | undefined> {
+    const [gamePlayer] = await this.db
+      .select()
+      .from(gamePlayers)
+      .where(and(eq(gamePlayers.gameId, gameId), eq(gamePlayers.clientId, clientId)));
+    return gamePlayer;
+  }
+  
+  async substitutePlayer(gameId: number, outPlayerId: number, inPlayerId: number, time: number, clientId?: string, period?: number): Promise<boolean> {
+    return insertOnce(() => this.db.transaction(async (tx) => {
+      // Close the outgoing player's open record
+      const [outPlayerRecord] = await tx
+        .update(gamePlayers)
+        .set({ endTime: time, endPeriod: period ?? null })
+        .where(and(
+          eq(gamePlayers.gameId, gameId),
+          eq(gamePlayers.playerId, outPlayerId),
+          isNull(gamePlayers.endTime),
+          // not a bench place on the team sheet
+          or(eq(gamePlayers.isStarter, true), isNotNull(gamePlayers.startTime))
+        ))
+        .returning();
+      
+      if (!outPlayerRecord) return false;
+      
+      // The incoming player takes over the same number and position
+      await tx.insert(gamePlayers).values({
+        gameId,
+        playerId: inPlayerId,
+        number: outPlayerRecord.number,
+        position: outPlayerRecord.position,
+        isStarter: false,
+        startTime: time,
+        endTime: null,
+        startPeriod: period ?? null,
+        clientId: clientId ?? null
+      });
+      
+      return true;
+    }));
+  }
+  
+  async deleteGamePlayer(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(gamePlayers).where(eq(gamePlayers.id, id)).returning({ id: gamePlayers.id });
+    return deleted.length > 0;
+  }
+  
+  async setGameLineup(gameId: number, lineup: InsertGamePlayer[]): Promise<GamePlayer[]> {
+    return insertOnce(() => this.db.transaction(async (tx) => {
+      await tx.delete(gamePlayers).where(eq(gamePlayers.gameId, gameId));
+      if (lineup.length === 0) return [];
+      
+      return tx
+        .insert(gamePlayers)
+        .values(lineup.map(gamePlayer => ({ ...gamePlayer, gameId })))
+        .returning();
+    }));
+  }
+  
+  // Stat methods
+  async getStat(id: number): Promise<Stat | undefined> {
+    const [stat] = await this.db.select().from(stats).where(eq(stats.id, id));
+    return stat;
+  }
+  
+  async getStatByClientId(gameId: number, clientId: string): Promise<Stat | undefined> {
+    const [stat] = await this.db
+      .select()
+      .from(stats)
+      .where(and(eq(stats.gameId, gameId), eq(stats.clientId, clientId)));
+    return stat;
+  }
+  
+  // Stat filters as SQL conditions; the organisation, team and date filters
+  // need stats joined to games
+  private statConditions(organisationId: number, filters: StatFilters): SQL | undefined {
+    const conditions: SQL[] = [eq(games.organisationId, organisationId)];
+    
+    if (filters.gameId !== undefined) conditions.push(eq(stats.gameId, filters.gameId));
+    if (filters.playerId !== undefined) conditions.push(eq(stats.playerId, filters.playerId));
+    if (filters.statTypeId !== undefined) conditions.push(eq(stats.statTypeId, filters.statTypeId));
+    if (filters.statType !== undefined) conditions.push(eq(stats.statType, filters.statType));
+    if (filters.period !== undefined) conditions.push(eq(stats.period, filters.period));
+    if (filters.teamId !== undefined) conditions.push(eq(games.teamId, filters.teamId));
+    if (filters.from) conditions.push(gte(games.date, filters.from));
+    if (filters.to) conditions.push(lte(games.date, filters.to));
+    
+    return and(...conditions);
+  }
+  
+  async getStats(organisationId: number, filters: StatFilters = {}): Promise<Stat[]> {
+    await this.ensureSeeded();
+    const rows = await this.db
+      .select({ stat: stats })
+      .from(stats)
+      .innerJoin(games, eq(stats.gameId, games.id))
+      .where(this.statConditions(organisationId, filters))
+      .orderBy(asc(stats.id));
+    return rows.map(row => row.stat);
+  }
+  
+  async getStatTotals(organisationId: number, filters: StatFilters = {}): Promise<StatTotals> {
+    await this.ensureSeeded();
+    const total = sql<number>`coalesce(sum(coalesce(${stats.value}, 1)), 0)`.mapWith(Number);
+    const count = sql<number>`count(*)`.mapWith(Number);
+    const recordedName = sql<string>`max(${stats.statType})`; // only shown if the type has gone
+    const conditions = this.statConditions(organisationId, filters);
+    
+    const [byPlayer, byStatType, statTypeList] = await Promise.all([
+      this.db
+        .select({ playerId: stats.playerId, statTypeId: stats.statTypeId, statType: recordedName, total, count })
+        .from(stats)
+        .innerJoin(games, eq(stats.gameId, games.id))
+        .where(conditions)
+        .groupBy(stats.playerId, stats.statTypeId)
+        .orderBy(asc(stats.playerId), asc(stats.statTypeId)),
+      this.db
+        .select({ statTypeId: stats.statTypeId, statType: recordedName, total, count })
+        .from(stats)
+        .innerJoin(games, eq(stats.gameId, games.id))
+        .where(conditions)
+        .groupBy(stats.statTypeId)
+        .orderBy(asc(stats.statTypeId)),
+      this.getStatTypes(organisationId)
+    ]);
+    
+    return {
+      byPlayer: byPlayer.map(total => withStatAggregate(total, statTypeList)),
+      byStatType: byStatType.map(total => withStatAggregate(total, statTypeList))
+    };
+  }
+  
+  async getGameStats(gameId: number): Promise<Stat[]> {
+    await this.ensureSeeded();
+    return this.db.select().from(stats).where(eq(stats.gameId, gameId)).orderBy(asc(stats.id));
+  }
+  
+  async getPlayerStats(organisationId: number, playerId: number): Promise<Stat[]> {
+    return this.getStats(organisationId, { playerId });
+  }
+  
+  async getPlayerGameStats(gameId: number, playerId: number): Promise<Stat[]> {
+    await this.ensureSeeded();
+    return this.db
+      .select()
+      .from(stats)
+      .where(and(eq(stats.gameId, gameId), eq(stats.playerId, playerId)))
+      .orderBy(asc(stats.id));
+  }
+  
+  async createStat(insertStat: InsertStat): Promise<Stat> {
+    const [stat] = await insertOnce(() => this.db.insert(stats).values(insertStat).returning());
+    return stat;
+  }
+  
+  async updateStat(id: number, stat: Partial<InsertStat>): Promise<Stat | undefined> {
+    if (Object.keys(stat).length === 0) return this.getStat(id);
+    
+    const [updatedStat] = await this.db.update(stats).set(stat).where(eq(stats.id, id)).returning();
+    return updatedStat;
+  }
+  
+  async deleteStat(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(stats).where(eq(stats.id, id)).returning({ id: stats.id });
+    return deleted.length > 0;
+  }
+  
+  // GameEvent methods
+  async getGameEvent(id: number): Promise<GameEvent | undefined> {
+    const [gameEvent] = await this.db.select().from(gameEvents).where(eq(gameEvents.id, id));
+    return gameEvent;
+  }
+  
+  async getGameEvents(gameId: number): Promise<GameEvent[]> {
+    return this.db
+      .select()
+      .from(gameEvents)
+      .where(eq(gameEvents.gameId, gameId))
+      .orderBy(asc(gameEvents.period), asc(gameEvents.minute), asc(gameEvents.id));
+  }
+  
+  async createGameEvent(insertGameEvent: InsertGameEvent): Promise<GameEvent> {
+    const [gameEvent] = await this.db.insert(gameEvents).values(insertGameEvent).returning();
+    return gameEvent;
+  }
+  
+  async updateGameEvent(id: number, gameEvent: Partial<InsertGameEvent>): Promise<GameEvent | undefined> {
+    if (Object.keys(gameEvent).length === 0) return this.getGameEvent(id);
+    
+    const [updatedGameEvent] = await this.db.update(gameEvents).set(gameEvent).where(eq(gameEvents.id, id)).returning();
+    return updatedGameEvent;
+  }
+  
+  async deleteGameEvent(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(gameEvents).where(eq(gameEvents.id, id)).returning({ id: gameEvents.id });
+    return deleted.length > 0;
+  }
+  
+  // ClockEvent methods
+  async getClockEvents(gameId: number): Promise<ClockEvent[]> {
+    return this.db
+      .select()
+      .from(clockEvents)
+      .where(eq(clockEvents.gameId, gameId))
+      .orderBy(asc(clockEvents.occurredAt), asc(clockEvents.id));
+  }
+  
+  async getClockEventsForGames(gameIds: number[]): Promise<ClockEvent[]> {
+    if (gameIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(clockEvents)
+      .where(inArray(clockEvents.gameId, gameIds))
+      .orderBy(asc(clockEvents.occurredAt), asc(clockEvents.id));
+  }
+  
+  async getClockEventByClientId(gameId: number, clientId: string): Promise<ClockEvent | undefined> {
+    const [clockEvent] = await this.db
+      .select()
+      .from(clockEvents)
+      .where(and(eq(clockEvents.gameId, gameId), eq(clockEvents.clientId, clientId)));
+    return clockEvent;
+  }
+  
+  async createClockEvent(insertClockEvent: InsertClockEvent): Promise<ClockEvent> {
+    const [clockEvent] = await insertOnce(() => this.db.insert(clockEvents).values(insertClockEvent).returning());
+    return clockEvent;
+  }
+  
+  // Card methods
+  async getCard(id: number): Promise<Card | undefined> {
+    const [card] = await this.db.select().from(cards).where(eq(cards.id, id));
+    return card;
+  }
+  
+  async getCards(gameId: number): Promise<Card[]> {
+    return this.db
+      .select()
+      .from(cards)
+      .where(eq(cards.gameId, gameId))
+      .orderBy(asc(cards.issuedAt), asc(cards.id));
+  }
+  
+  async getCardsForGames(gameIds: number[]): Promise<Card[]> {
+    if (gameIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(cards)
+      .where(inArray(cards.gameId, gameIds))
+      .orderBy(asc(cards.issuedAt), asc(cards.id));
+  }
+  
+  async getCardByClientId(gameId: number, clientId: string): Promise<Card | undefined> {
+    const [card] = await this.db
+      .select()
+      .from(cards)
+      .where(and(eq(cards.gameId, gameId), eq(cards.clientId, clientId)));
+    return card;
+  }
+  
+  async createCard(insertCard: InsertCard): Promise<Card> {
+    const [card] = await insertOnce(() => this.db.insert(cards).values(insertCard).returning());
+    return card;
+  }
+  
+  async updateCard(id: number, card: Partial<InsertCard>): Promise<Card | undefined> {
+    if (Object.keys(card).length === 0) return this.getCard(id);
+    
+    const [updatedCard] = await this.db.update(cards).set(card).where(eq(cards.id, id)).returning();
+    return updatedCard;
+  }
+  
+  // StatType methods
+  
+  // The club's own stat types plus the shared built-in ones
+  private visibleStatTypes(organisationId: number): SQL | undefined {
+    return or(isNull(statTypes.organisationId), eq(statTypes.organisationId, organisationId));
+  }
+  
+  async getStatType(organisationId: number, id: number): Promise<StatType | undefined> {
+    await this.ensureSeeded();
+    const [statType] = await this.db
+      .select()
+      .from(statTypes)
+      .where(and(this.visibleStatTypes(organisationId), eq(statTypes.id, id)));
+    return statType;
+  }
+  
+  async getStatTypes(organisationId: number): Promise<StatType[]> {
+    await this.ensureSeeded();
+    return this.db
+      .select()
+      .from(statTypes)
+      .where(this.visibleStatTypes(organisationId))
+      .orderBy(asc(statTypes.sortOrder), asc(statTypes.id));
+  }
+  
+  async createStatType(organisationId: number, insertStatType: InsertStatType): Promise<StatType> {
+    await this.ensureSeeded();
+    const [{ lastSortOrder }] = await this.db
+      .select({ lastSortOrder: sql<number>`coalesce(max(${statTypes.sortOrder}), 0)`.mapWith(Number) })
+      .from(statTypes)
+      .where(eq(statTypes.organisationId, organisationId));
+    const [statType] = await this.db
+      .insert(statTypes)
+      .values({ ...insertStatType, organisationId, sortOrder: lastSortOrder + 1 })
+      .returning();
+    return statType;
+  }
+  
+  async updateStatType(organisationId: number, id: number, statType: Partial<InsertStatType>): Promise<StatType | undefined> {
+    if (Object.keys(statType).length === 0) {
+      const existingStatType = await this.getStatType(organisationId, id);
+      return existingStatType?.organisationId === organisationId ? existingStatType : undefined;
+    }
+    
+    const [updatedStatType] = await this.db
+      .update(statTypes)
+      .set(statType)
+      .where(and(eq(statTypes.organisationId, organisationId), eq(statTypes.id, id)))
+      .returning();
+    return updatedStatType;
+  }
+  
+  async reorderStatTypes(organisationId: number, ids: number[]): Promise<StatType[]> {
+    return this.db.transaction(async (tx) => {
+      const reordered: StatType[] = [];
+      for (let index = 0; index < ids.length; index++) {
+        const [statType] = await tx
+          .update(statTypes)
+          .set({ sortOrder: index + 1 })
+          .where(and(eq(statTypes.organisationId, organisationId), eq(statTypes.id, ids[index])))
+          .returning();
+        if (statType) reordered.push(statType);
+      }
+      return reordered;
+    });
+  }
+  
+  async deleteStatType(organisationId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(statTypes)
+      .where(and(eq(statTypes.organisationId, organisationId), eq(statTypes.id, id)))
+      .returning({ id: statTypes.id });
+    return deleted.length > 0;
+  }
+  
+  // StatTemplate methods
+  
+  private visibleStatTemplates(organisationId: number): SQL | undefined {
+    return or(isNull(statTemplates.organisationId), eq(statTemplates.organisationId, organisationId));
+  }
+  
+  async getStatTemplate(organisationId: number, id: number): Promise<StatTemplate | undefined> {
+    await this.ensureSeeded();
+    const [statTemplate] = await this.db
+      .select()
+      .from(statTemplates)
+      .where(and(this.visibleStatTemplates(organisationId), eq(statTemplates.id, id)));
+    return statTemplate;
+  }
+  
+  async getStatTemplates(organisationId: number): Promise<StatTemplate[]> {
+    await this.ensureSeeded();
+    return this.db
+      .select()
+      .from(statTemplates)
+      .where(this.visibleStatTemplates(organisationId))
+      .orderBy(asc(statTemplates.id));
+  }
+  
+  async createStatTemplate(organisationId: number, insertStatTemplate: InsertStatTemplate): Promise<StatTemplate> {
+    const [statTemplate] = await this.db
+      .insert(statTemplates)
+      .values({ ...insertStatTemplate, organisationId })
+      .returning();
+    return statTemplate;
+  }
+  
+  async updateStatTemplate(organisationId: number, id: number, statTemplate: Partial<InsertStatTemplate>): Promise<StatTemplate | undefined> {
+    if (Object.keys(statTemplate).length === 0) {
+      const existingStatTemplate = await this.getStatTemplate(organisationId, id);
+      return existingStatTemplate?.organisationId === organisationId ? existingStatTemplate : undefined;
+    }
+    
+    const [updatedStatTemplate] = await this.db
+      .update(statTemplates)
+      .set(statTemplate)
+      .where(and(eq(statTemplates.organisationId, organisationId), eq(statTemplates.id, id)))
+      .returning();
+    return updatedStatTemplate;
+  }
+  
+  async deleteStatTemplate(organisationId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(statTemplates)
+      .where(and(eq(statTemplates.organisationId, organisationId), eq(statTemplates.id, id)))
+      .returning({ id: statTemplates.id });
+    return deleted.length > 0;
+  }
+  
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  async getUsers(organisationId: number): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.organisationId, organisationId)).orderBy(asc(users.id));
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+  
+  async updateUser(organisationId: number, id: number, user: Partial<InsertUser>): Promise<User | undefined> {
+    const [updatedUser] = await this.db
+      .update(users)
+      .set(user)
+      .where(and(eq(users.organisationId, organisationId), eq(users.id, id)))
+      .returning();
+    return updatedUser;
+  }
+  
+  async deleteUser(organisationId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(users)
+      .where(and(eq(users.organisationId, organisationId), eq(users.id, id)))
+      .returning({ id: users.id });
+    return deleted.length > 0;
+  }
+}
+
+// Use Postgres whenever a database is provisioned, otherwise fall back to
+// the in-memory store (STORAGE=memory forces it, e.g. for local demos).
+// DATABASE_DRIVER picks how it's reached; see createDatabase.
+function createStorage(): IStorage {
+  const databaseUrl = process.env.DATABASE_URL;
+  const driver = process.env.DATABASE_DRIVER ?? "neon";
+  
+  if (!isDatabaseDriver(driver)) {
+    throw new Error(`Unknown DATABASE_DRIVER "${driver}"`);
+  }
+  
+  if (databaseUrl && process.env.STORAGE !== "memory") {
+    // PGlite has no connection string for the session store to use, so its
+    // sessions are kept in memory
+    const sessionStore = driver === "pglite"
+      ? new MemoryStore({ checkPeriod: 86400000 })
+      : new PostgresSessionStore({ conString: databaseUrl, createTableIfMissing: true });
+    return new DrizzleStorage(createDatabase(databaseUrl, driver), sessionStore);
+  }
+  
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,65 @@
+import type { Game, GamePlayer } from "@shared/schema";
+import { getSportFormat, getStartingPositions } from "@shared/formats";
+import {
+  isBenchNomination,
+  isStartingNumber,
+  validateTeamSheet,
+  type TeamSheetEntry,
+  type TeamSheetIssue
+} from "@shared/team-sheet";
+import { storage } from "./storage";
+
+export class TeamSheetError extends Error {
+  constructor(public issues: TeamSheetIssue[]) {
+    super(issues[0]?.message ?? "Invalid team sheet");
+  }
+}
+
+// Check a sheet against the game's format and the team's bench size and age group
+async function checkTeamSheet(game: Game, entries: TeamSheetEntry[], requireAllStarters: boolean) {
+  const [team, players] = await Promise.all([
+    storage.getTeam(game.organisationId, game.teamId),
+    storage.getPlayers(game.organisationId)
+  ]);
+
+  const format = getSportFormat(game.format);
+  const issues = validateTeamSheet(entries, players, {
+    startingPositions: getStartingPositions(format),
+    maxBenchSize: team?.maxBenchSize ?? format.maxBenchSize,
+    ageGroup: team?.ageGroup,
+    gameDate: game.date,
+    requireAllStarters
+  });
+
+  if (issues.length > 0) {
+    throw new TeamSheetError(issues);
+  }
+}
+
+// Replace the game's lineup with a complete team sheet. Starters are on
+// from kick-off; bench players are named but not yet on the field.
+export async function submitTeamSheet(game: Game, entries: TeamSheetEntry[]): Promise<GamePlayer[]> {
+  await checkTeamSheet(game, entries, true);
+
+  const startingPositions = getStartingPositions(getSportFormat(game.format));
+  return storage.setGameLineup(game.id, entries.map(entry => {
+    const isStarter = isStartingNumber(entry.number, startingPositions);
+    return {
+      ...entry,
+      gameId: game.id,
+      isStarter,
+      startTime: isStarter ? 0 : null,
+      startPeriod: isStarter ? 1 : null
+    };
+  }));
+}
+
+// A player added to a lineup one at a time must still leave a valid sheet;
+// starting places can be filled later
+export async function checkLineupAddition(game: Game, entry: TeamSheetEntry): Promise<void> {
+  // Rows created by substitutions are stints, not places on the sheet
+  const sheet = (await storage.getGamePlayers(game.id))
+    .filter(gp => gp.isStarter || isBenchNomination(gp));
+
+  await checkTeamSheet(game, [...sheet, entry], false);
+}
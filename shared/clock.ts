@@ -0,0 +1,137 @@
+// Match clock derived from timestamped clock events. Shared by the server,
+// which validates transitions, and the client, which renders the clock.
+
+export const clockEventTypes = ["start", "pause", "resume", "end_period", "added_time"] as const;
+export type ClockEventType = typeof clockEventTypes[number];
+
+export interface ClockEventLike {
+  id?: number | null;
+  type: string;
+  period: number;
+  seconds?: number | null; // added_time only
+  occurredAt: Date | string;
+}
+
+export interface ClockState {
+  period: number;
+  hasStarted: boolean;
+  isRunning: boolean;
+  isPeriodOver: boolean;
+  isFinished: boolean;
+  elapsedSeconds: number; // played in the current period
+  periodLengthSeconds: number; // including added time
+  remainingSeconds: number;
+  matchSeconds: number; // match time, counting earlier periods at their nominal length
+  playedSeconds: number; // time the clock has actually run since kick-off, across all periods
+  periodSeconds: number[]; // time the clock has actually run in each period so far, first period first
+}
+
+const toMillis = (value: Date | string) => new Date(value).getTime();
+
+export function sortClockEvents<T extends ClockEventLike>(events: T[]): T[] {
+  return [...events].sort((a, b) =>
+    toMillis(a.occurredAt) - toMillis(b.occurredAt) || (a.id ?? Infinity) - (b.id ?? Infinity)
+  );
+}
+
+export function deriveClockState(
+  events: ClockEventLike[],
+  halfLength: number,
+  numberOfHalves: number,
+  now: number = Date.now()
+): ClockState {
+  let period = 1;
+  let hasStarted = false;
+  let isPeriodOver = false;
+  let runningSince: number | null = null;
+  let elapsedMs = 0;
+  let earlierPeriodsMs: number[] = [];
+  let addedSeconds = 0;
+
+  for (const event of sortClockEvents(events)) {
+    const at = toMillis(event.occurredAt);
+
+    switch (event.type) {
+      case "start":
+        if (!hasStarted || isPeriodOver) {
+          if (hasStarted) earlierPeriodsMs = [...earlierPeriodsMs, elapsedMs];
+          period = event.period;
+          elapsedMs = 0;
+          addedSeconds = 0;
+          isPeriodOver = false;
+        }
+        hasStarted = true;
+        runningSince = runningSince ?? at;
+        break;
+      case "pause":
+        if (runningSince !== null) {
+          elapsedMs += at - runningSince;
+          runningSince = null;
+        }
+        break;
+      case "resume":
+        if (hasStarted && !isPeriodOver && runningSince === null) {
+          runningSince = at;
+        }
+        break;
+      case "end_period":
+        if (runningSince !== null) {
+          elapsedMs += at - runningSince;
+          runningSince = null;
+        }
+        isPeriodOver = true;
+        break;
+      case "added_time":
+        addedSeconds += event.seconds ?? 0;
+        break;
+    }
+  }
+
+  if (runningSince !== null) {
+    elapsedMs += Math.max(0, now - runningSince);
+  }
+
+  const elapsedSeconds = Math.floor(elapsedMs / 1000);
+  const periodSeconds = hasStarted ? [...earlierPeriodsMs, elapsedMs].map(ms => Math.floor(ms / 1000)) : [];
+  const periodLengthSeconds = halfLength * 60 + addedSeconds;
+
+  return {
+    period,
+    hasStarted,
+    isRunning: runningSince !== null,
+    isPeriodOver,
+    isFinished: isPeriodOver && period >= numberOfHalves,
+    elapsedSeconds,
+    periodLengthSeconds,
+    remainingSeconds: Math.max(0, periodLengthSeconds - elapsedSeconds),
+    matchSeconds: (period - 1) * halfLength * 60 + elapsedSeconds,
+    playedSeconds: Math.floor((earlierPeriodsMs.reduce((total, ms) => total + ms, 0) + elapsedMs) / 1000),
+    periodSeconds
+  };
+}
+
+// Why a clock event can't be applied in the current state, or null if it can
+export function getClockTransitionError(state: ClockState, type: ClockEventType, numberOfHalves: number): string | null {
+  switch (type) {
+    case "start":
+      if (!state.hasStarted) return null;
+      if (!state.isPeriodOver) return "The current period is still in progress";
+      if (state.period >= numberOfHalves) return "All periods have been played";
+      return null;
+    case "pause":
+      return state.isRunning ? null : "The clock is not running";
+    case "resume":
+      if (!state.hasStarted) return "The match has not started";
+      if (state.isPeriodOver) return "The period is over";
+      return state.isRunning ? "The clock is already running" : null;
+    case "end_period":
+    case "added_time":
+      if (!state.hasStarted) return "The match has not started";
+      return state.isPeriodOver ? "The period is over" : null;
+  }
+}
+
+// The period a new clock event belongs to
+export function getClockEventPeriod(state: ClockState, type: ClockEventType): number {
+  return type === "start" && state.hasStarted ? state.period + 1 : state.period;
+}
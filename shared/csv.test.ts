@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseCsv, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("keeps commas, line breaks and doubled quotes inside quoted fields", () => {
+    const text = 'name,notes\n"Smith, Jo","Line one\nline two"\n"Sam ""The Tank""",\n';
+
+    assert.deepEqual(parseCsv(text), [
+      ["name", "notes"],
+      ["Smith, Jo", "Line one\nline two"],
+      ['Sam "The Tank"', ""]
+    ]);
+  });
+
+  it("reads Windows line endings and a byte order mark", () => {
+    assert.deepEqual(parseCsv("\uFEFFname,number\r\nJo,7\r\nSam,9\r\n"), [
+      ["name", "number"],
+      ["Jo", "7"],
+      ["Sam", "9"]
+    ]);
+  });
+
+  it("keeps Windows line endings inside quoted fields", () => {
+    assert.deepEqual(parseCsv('a,b\r\n"one\r\ntwo",3\r\n'), [["a", "b"], ["one\r\ntwo", "3"]]);
+  });
+
+  it("skips blank lines and reads a last line with no line break", () => {
+    assert.deepEqual(parseCsv("a,b\n\n , \n1,2"), [["a", "b"], ["1", "2"]]);
+  });
+});
+
+describe("toCsv", () => {
+  it("round-trips awkward values through parseCsv", () => {
+    const rows = [
+      ["name", "notes", "number"],
+      ["Smith, Jo", 'Said "hi"\r\nthen left', "7"],
+      ["Ōtaki Ngāti", "", "+61 400 000 000"]
+    ];
+
+    assert.deepEqual(parseCsv(toCsv(rows)), rows);
+  });
+
+  it("writes empty cells for missing values", () => {
+    assert.equal(toCsv([["a", null, undefined, 3]]), "a,,,3\r\n");
+  });
+
+  it("stops spreadsheets running cells as formulas", () => {
+    assert.deepEqual(parseCsv(toCsv([["=SUM(A1:A2)", "@cmd", "-2+3", "-5"]])), [["'=SUM(A1:A2)", "'@cmd", "-2+3", "-5"]]);
+  });
+});
@@ -0,0 +1,65 @@
+// Comma-separated values as spreadsheets save them (RFC 4180): quoted fields
+// may hold commas, line breaks and doubled quotes.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Excel puts a byte order mark at the start of UTF-8 files
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines, including the ones spreadsheets leave at the end
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+}
+
+// Spreadsheets run cells starting with these as formulas; phone numbers
+// like "+61 ..." are left alone
+function isFormula(value: string): boolean {
+  return /^[=@\t\r]/.test(value) || /^[+-][^\d\s]/.test(value);
+}
+
+function formatCell(value: string | number | null | undefined): string {
+  if (value == null) return "";
+  let text = String(value);
+  if (isFormula(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(row => row.map(formatCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,43 @@
+// Yellow and red cards. A yellow card sin-bins the player for a spell of
+// played match time; a red card sends them off for the rest of the game.
+
+export const cardTypes = ["yellow", "red"] as const;
+export type CardType = typeof cardTypes[number];
+
+// Default stat types that record each card
+export const cardStatTypes: Record<CardType, string> = {
+  yellow: "Yellow Card",
+  red: "Red Card"
+};
+
+export interface CardLike {
+  playerId: number;
+  type: string;
+  issuedAt: number; // played seconds on the match clock
+  durationSeconds?: number | null;
+  returnedAt?: number | null;
+}
+
+export function getCardTypeForStat(statType: string): CardType | undefined {
+  return cardTypes.find(type => cardStatTypes[type] === statType);
+}
+
+export function isSentOff(cards: CardLike[], playerId: number): boolean {
+  return cards.some(card => card.playerId === playerId && card.type === "red");
+}
+
+// Yellow cards still being served (a red card supersedes any sin-bin)
+export function getOpenSinBins<T extends CardLike>(cards: T[]): T[] {
+  return cards.filter(card =>
+    card.type === "yellow" && card.returnedAt == null && !isSentOff(cards, card.playerId)
+  );
+}
+
+export function isOffField(cards: CardLike[], playerId: number): boolean {
+  return isSentOff(cards, playerId) || getOpenSinBins(cards).some(card => card.playerId === playerId);
+}
+
+// Sin-bin time left, counted in played time so it stops whenever the clock does
+export function getSinBinRemaining(card: CardLike, playedSeconds: number): number {
+  return Math.max(0, (card.durationSeconds ?? 0) - (playedSeconds - card.issuedAt));
+}
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { guessFixtureColumns, mapFixtureRow, parseIcs, parseImportFile } from "./fixture-import";
+
+const calendar = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "SUMMARY:Tigers vs Lions",
+  "DTSTART:20260314T040000Z",
+  "LOCATION:Main Oval\\, Field 2",
+  "DESCRIPTION:Round 1\\nGates open at 1pm\\; bring water. A long description",
+  "  that a calendar app folded onto a second line",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Bears @ Tigers",
+  "DTSTART;TZID=Australia/Sydney:20260321T150000",
+  "LOCATION:Bears Park",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Sharks v Bears",
+  "DTSTART;VALUE=DATE:20260328",
+  "END:VEVENT",
+  "END:VCALENDAR",
+  ""
+].join("\r\n");
+
+describe("parseIcs", () => {
+  const table = parseIcs(calendar);
+
+  it("reads one row per event, splitting the teams from the summary", () => {
+    assert.deepEqual(table.headers, ["Summary", "Home Team", "Away Team", "Start", "Location", "Description"]);
+    assert.deepEqual(table.rows.map(row => row.slice(0, 3)), [
+      ["Tigers vs Lions", "Tigers", "Lions"],
+      ["Bears @ Tigers", "Bears", "Tigers"],
+      ["Sharks v Bears", "Sharks", "Bears"]
+    ]);
+  });
+
+  it("unfolds continuation lines and unescapes text", () => {
+    assert.equal(table.rows[0][4], "Main Oval, Field 2");
+    assert.equal(table.rows[0][5], "Round 1\nGates open at 1pm; bring water. A long description that a calendar app folded onto a second line");
+  });
+
+  it("keeps start times as written, dropping parameters such as TZID", () => {
+    assert.deepEqual(table.rows.map(row => row[3]), ["20260314T040000Z", "20260321T150000", "20260328"]);
+  });
+
+  it("is picked for .ics files and files that look like calendars", () => {
+    assert.deepEqual(parseImportFile("draw.txt", calendar), table);
+    assert.deepEqual(parseImportFile("draw.ics", calendar), table);
+    assert.deepEqual(parseImportFile("draw.csv", "Opponent,Date\nLions,14/03/2026\n").headers, ["Opponent", "Date"]);
+  });
+});
+
+describe("mapFixtureRow", () => {
+  const table = parseIcs(calendar);
+  const mapping = guessFixtureColumns(table.headers);
+
+  it("works out the opponent and side from the home and away teams", () => {
+    assert.deepEqual(mapFixtureRow(table.rows[0], mapping, "tigers"), {
+      opponent: "Lions",
+      date: "2026-03-14T04:00:00.000Z",
+      location: "Main Oval, Field 2",
+      isHome: true,
+      notes: "Round 1\nGates open at 1pm; bring water. A long description that a calendar app folded onto a second line"
+    });
+    assert.equal(mapFixtureRow(table.rows[1], mapping, "Tigers")?.isHome, false);
+  });
+
+  it("reads times without a Z as local time", () => {
+    assert.equal(mapFixtureRow(table.rows[1], mapping, "Tigers")?.date, new Date(2026, 2, 21, 15).toISOString());
+  });
+
+  it("skips games the team isn't in", () => {
+    assert.equal(mapFixtureRow(table.rows[2], mapping, "Tigers"), null);
+  });
+
+  it("passes unreadable values on as written", () => {
+    const csvMapping = guessFixtureColumns(["Opponent", "Date", "Home/Away", "Venue"]);
+
+    assert.deepEqual(mapFixtureRow(["Lions", "sometime", "maybe", "Oval"], csvMapping, "Tigers"), {
+      opponent: "Lions",
+      date: "sometime",
+      location: "Oval",
+      isHome: "maybe",
+      notes: null
+    });
+  });
+});
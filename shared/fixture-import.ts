@@ -0,0 +1,169 @@
+// Importing a season draw. A CSV or iCalendar file is mapped to fixture
+// fields and each row becomes a fixture for the chosen team.
+
+import {
+  guessColumnMapping,
+  normaliseName,
+  parseCsvTable,
+  parseImportDate,
+  readCell,
+  type ColumnMapping,
+  type ImportTable
+} from "./import";
+
+export const fixtureImportFields = [
+  "opponent",
+  "homeAway",
+  "homeTeam",
+  "awayTeam",
+  "date",
+  "time",
+  "location",
+  "notes"
+] as const;
+export type FixtureImportField = typeof fixtureImportFields[number];
+
+export const fixtureImportFieldLabels: Record<FixtureImportField, string> = {
+  opponent: "Opponent",
+  homeAway: "Home/Away",
+  homeTeam: "Home Team",
+  awayTeam: "Away Team",
+  date: "Date",
+  time: "Time",
+  location: "Location",
+  notes: "Notes"
+};
+
+// A fixture read from one row, as sent to the server to be checked. Values
+// that couldn't be read are passed on as written so the error shows them.
+export interface ImportedFixture {
+  opponent: string;
+  date: string;
+  location: string;
+  isHome: boolean | string;
+  notes: string | null;
+}
+
+// Header names each field is recognised by, lower case
+const headerAliases: Record<FixtureImportField, string[]> = {
+  opponent: ["opponent", "opposition", "against", "vs", "versus"],
+  homeAway: ["home/away", "h/a", "home or away"],
+  homeTeam: ["home team", "home side", "home"],
+  awayTeam: ["away team", "away side", "away"],
+  date: ["date", "start", "kick off", "kick-off", "kickoff", "dtstart"],
+  time: ["time", "kick off time", "ko"],
+  location: ["location", "venue", "ground", "field"],
+  notes: ["notes", "description", "comments"]
+};
+
+export function guessFixtureColumns(headers: string[]): ColumnMapping<FixtureImportField> {
+  const mapping = guessColumnMapping(headers, fixtureImportFields, headerAliases);
+
+  // Home and away teams only tell us which side we are as a pair
+  if (mapping.homeTeam === undefined || mapping.awayTeam === undefined) {
+    delete mapping.homeTeam;
+    delete mapping.awayTeam;
+  }
+  return mapping;
+}
+
+// iCalendar text values escape separators and line breaks
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+// "Tigers vs Lions", "Tigers v Lions" or "Tigers @ Lions"
+function splitTeams(summary: string): [string, string] | null {
+  const match = summary.match(/^(.+?)\s+(?:vs\.?|v|@)\s+(.+)$/i);
+  return match ? [match[1].trim(), match[2].trim()] : null;
+}
+
+// The events in an iCalendar file, one row each. The summary is split into
+// home and away teams where it names both.
+export function parseIcs(text: string): ImportTable {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const rows: string[][] = [];
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+    } else if (line === "END:VEVENT" && event) {
+      const summary = event.SUMMARY ?? "";
+      const teams = splitTeams(summary);
+      rows.push([
+        summary,
+        teams?.[0] ?? "",
+        teams?.[1] ?? "",
+        event.DTSTART ?? "",
+        event.LOCATION ?? "",
+        event.DESCRIPTION ?? ""
+      ]);
+      event = null;
+    } else if (event) {
+      const separator = line.indexOf(":");
+      if (separator === -1) continue;
+      // Parameters such as TZID are dropped; times are read as local
+      const name = line.slice(0, separator).split(";")[0].toUpperCase();
+      event[name] = unescapeText(line.slice(separator + 1));
+    }
+  }
+
+  return { headers: ["Summary", "Home Team", "Away Team", "Start", "Location", "Description"], rows };
+}
+
+export function parseImportFile(fileName: string, text: string): ImportTable {
+  if (/\.ics$/i.test(fileName) || text.trimStart().startsWith("BEGIN:VCALENDAR")) {
+    return parseIcs(text);
+  }
+
+  return parseCsvTable(text);
+}
+
+export function parseHomeAway(value: string): boolean | null {
+  const normalised = value.trim().toLowerCase();
+  if (["h", "home", "yes", "y", "true"].includes(normalised)) return true;
+  if (["a", "away", "no", "n", "false"].includes(normalised)) return false;
+  return null;
+}
+
+// A row as a fixture for the team, or null when it's a game the team isn't
+// in; a league's draw lists every club's games.
+export function mapFixtureRow(row: string[], mapping: ColumnMapping<FixtureImportField>, teamName: string): ImportedFixture | null {
+  const cell = (field: FixtureImportField) => readCell(row, mapping, field);
+
+  let opponent = cell("opponent");
+  let isHome: boolean | string = true;
+
+  if (mapping.homeTeam !== undefined && mapping.awayTeam !== undefined) {
+    const homeTeam = cell("homeTeam");
+    const awayTeam = cell("awayTeam");
+    if (normaliseName(homeTeam) === normaliseName(teamName)) {
+      opponent = awayTeam;
+      isHome = true;
+    } else if (normaliseName(awayTeam) === normaliseName(teamName)) {
+      opponent = homeTeam;
+      isHome = false;
+    } else {
+      return null;
+    }
+  } else if (mapping.homeAway !== undefined) {
+    const homeAway = cell("homeAway");
+    isHome = parseHomeAway(homeAway) ?? homeAway;
+  }
+
+  const date = parseImportDate(cell("date"), cell("time"));
+
+  return {
+    opponent,
+    date: date ? date.toISOString() : [cell("date"), cell("time")].filter(Boolean).join(" "),
+    location: cell("location"),
+    isHome,
+    notes: cell("notes") || null
+  };
+}
+
+// Fixtures already on the schedule are matched on opponent and day
+export function getFixtureKey(teamId: number, opponent: string, date: Date | string): string {
+  return `${teamId}|${normaliseName(opponent)}|${new Date(date).toISOString().slice(0, 10)}`;
+}
@@ -0,0 +1,44 @@
+// Fixture lifecycle. A fixture is scheduled until a game is started from it,
+// and played once that game is completed. Postponing and cancelling are the
+// only changes made by hand.
+
+export const fixtureStatuses = ["scheduled", "in_progress", "played", "postponed", "cancelled"] as const;
+export type FixtureStatus = typeof fixtureStatuses[number];
+
+// Statuses a fixture can be given directly; the rest follow its game
+export const manualFixtureStatuses = ["scheduled", "postponed", "cancelled"] as const satisfies readonly FixtureStatus[];
+
+export const fixtureStatusLabels: Record<FixtureStatus, string> = {
+  scheduled: "Scheduled",
+  in_progress: "In progress",
+  played: "Played",
+  postponed: "Postponed",
+  cancelled: "Cancelled"
+};
+
+// The score of the game played for a fixture, ours first
+export interface FixtureResult {
+  gameId: number;
+  homeScore: number;
+  awayScore: number;
+  isCompleted: boolean;
+}
+
+export type FixtureOutcome = "won" | "lost" | "drawn";
+
+export const fixtureOutcomeLabels: Record<FixtureOutcome, string> = {
+  won: "Won",
+  lost: "Lost",
+  drawn: "Drew"
+};
+
+export function canStartGame(status: string): boolean {
+  return status === "scheduled";
+}
+
+export function getFixtureOutcome(result: FixtureResult): FixtureOutcome | null {
+  if (!result.isCompleted) return null;
+  if (result.homeScore > result.awayScore) return "won";
+  if (result.homeScore < result.awayScore) return "lost";
+  return "drawn";
+}
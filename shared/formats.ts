@@ -0,0 +1,190 @@
+// Sport formats. A format sets out the positions on a team sheet, how many
+// players start, the bench, the default match length and what scores are
+// worth. Teams play one format and each game keeps the format it was
+// created with.
+
+export const sportFormatIds = ["league", "union", "sevens", "tag", "mod"] as const;
+export type SportFormatId = typeof sportFormatIds[number];
+
+export type PositionUnit = "forwards" | "backs";
+
+// The scores a format puts a value on. A stat type marked as one of these is
+// worth what the game's format says, whatever the club calls it.
+export const scoringTypes = ["try", "conversion", "penalty_goal", "field_goal"] as const;
+export type ScoringType = typeof scoringTypes[number];
+
+export const scoringTypeLabels: Record<ScoringType, string> = {
+  try: "Try",
+  conversion: "Conversion",
+  penalty_goal: "Penalty Goal",
+  field_goal: "Field Goal"
+};
+
+export interface FormatPosition {
+  number: number;
+  position: string;
+  unit: PositionUnit;
+}
+
+export interface SportFormat {
+  id: SportFormatId;
+  name: string;
+  positions: FormatPosition[]; // the starting positions, numbered from 1
+  maxBenchSize: number;
+  halfLength: number;
+  numberOfHalves: number;
+  sinBinMinutes: number;
+  // Points for each type of score
+  scoring: Record<ScoringType, number>;
+}
+
+const leagueScoring = { try: 4, conversion: 2, penalty_goal: 2, field_goal: 1 };
+// Union's drop goal is recorded as a field goal
+const unionScoring = { try: 5, conversion: 2, penalty_goal: 3, field_goal: 3 };
+
+export const sportFormats: Record<SportFormatId, SportFormat> = {
+  league: {
+    id: "league",
+    name: "Rugby League (13s)",
+    positions: [
+      { number: 1, position: "Fullback", unit: "backs" },
+      { number: 2, position: "Right Wing", unit: "backs" },
+      { number: 3, position: "Right Centre", unit: "backs" },
+      { number: 4, position: "Left Centre", unit: "backs" },
+      { number: 5, position: "Left Wing", unit: "backs" },
+      { number: 6, position: "Stand Off", unit: "backs" },
+      { number: 7, position: "Scrum Half / Half Back", unit: "backs" },
+      { number: 8, position: "Prop", unit: "forwards" },
+      { number: 9, position: "Hooker", unit: "forwards" },
+      { number: 10, position: "Prop", unit: "forwards" },
+      { number: 11, position: "Second Row", unit: "forwards" },
+      { number: 12, position: "Second Row", unit: "forwards" },
+      { number: 13, position: "Loose Forward", unit: "forwards" }
+    ],
+    maxBenchSize: 4,
+    halfLength: 40,
+    numberOfHalves: 2,
+    sinBinMinutes: 10,
+    scoring: leagueScoring
+  },
+  union: {
+    id: "union",
+    name: "Rugby Union (15s)",
+    positions: [
+      { number: 1, position: "Loosehead Prop", unit: "forwards" },
+      { number: 2, position: "Hooker", unit: "forwards" },
+      { number: 3, position: "Tighthead Prop", unit: "forwards" },
+      { number: 4, position: "Lock", unit: "forwards" },
+      { number: 5, position: "Lock", unit: "forwards" },
+      { number: 6, position: "Blindside Flanker", unit: "forwards" },
+      { number: 7, position: "Openside Flanker", unit: "forwards" },
+      { number: 8, position: "Number 8", unit: "forwards" },
+      { number: 9, position: "Scrum Half", unit: "backs" },
+      { number: 10, position: "Fly Half", unit: "backs" },
+      { number: 11, position: "Left Wing", unit: "backs" },
+      { number: 12, position: "Inside Centre", unit: "backs" },
+      { number: 13, position: "Outside Centre", unit: "backs" },
+      { number: 14, position: "Right Wing", unit: "backs" },
+      { number: 15, position: "Fullback", unit: "backs" }
+    ],
+    maxBenchSize: 8,
+    halfLength: 40,
+    numberOfHalves: 2,
+    sinBinMinutes: 10,
+    scoring: unionScoring
+  },
+  sevens: {
+    id: "sevens",
+    name: "Rugby Sevens",
+    positions: [
+      { number: 1, position: "Loosehead Prop", unit: "forwards" },
+      { number: 2, position: "Hooker", unit: "forwards" },
+      { number: 3, position: "Tighthead Prop", unit: "forwards" },
+      { number: 4, position: "Scrum Half", unit: "backs" },
+      { number: 5, position: "Fly Half", unit: "backs" },
+      { number: 6, position: "Centre", unit: "backs" },
+      { number: 7, position: "Wing", unit: "backs" }
+    ],
+    maxBenchSize: 5,
+    halfLength: 7,
+    numberOfHalves: 2,
+    sinBinMinutes: 2,
+    scoring: unionScoring
+  },
+  tag: {
+    id: "tag",
+    name: "Tag / Touch",
+    positions: [
+      { number: 1, position: "Middle", unit: "forwards" },
+      { number: 2, position: "Middle", unit: "forwards" },
+      { number: 3, position: "Link", unit: "backs" },
+      { number: 4, position: "Link", unit: "backs" },
+      { number: 5, position: "Wing", unit: "backs" },
+      { number: 6, position: "Wing", unit: "backs" }
+    ],
+    maxBenchSize: 8,
+    halfLength: 20,
+    numberOfHalves: 2,
+    sinBinMinutes: 2,
+    // Only tries count; there's no kicking
+    scoring: { try: 1, conversion: 0, penalty_goal: 0, field_goal: 0 }
+  },
+  mod: {
+    id: "mod",
+    name: "Junior Mod League",
+    positions: [
+      { number: 1, position: "Fullback", unit: "backs" },
+      { number: 2, position: "Wing", unit: "backs" },
+      { number: 3, position: "Centre", unit: "backs" },
+      { number: 4, position: "Centre", unit: "backs" },
+      { number: 5, position: "Wing", unit: "backs" },
+      { number: 6, position: "Five-Eighth", unit: "backs" },
+      { number: 7, position: "Halfback", unit: "backs" },
+      { number: 8, position: "Prop", unit: "forwards" },
+      { number: 9, position: "Hooker", unit: "forwards" },
+      { number: 10, position: "Prop", unit: "forwards" },
+      { number: 11, position: "Lock", unit: "forwards" }
+    ],
+    maxBenchSize: 5,
+    halfLength: 25,
+    numberOfHalves: 2,
+    sinBinMinutes: 5,
+    scoring: leagueScoring
+  }
+};
+
+export const DEFAULT_SPORT_FORMAT: SportFormatId = "league";
+
+// Unknown or missing formats (older teams and games) are played as league
+export function getSportFormat(id: string | null | undefined): SportFormat {
+  return sportFormats[id as SportFormatId] ?? sportFormats[DEFAULT_SPORT_FORMAT];
+}
+
+export function getStartingPositions(format: SportFormat): number {
+  return format.positions.length;
+}
+
+// Bench places numbered on from the starters
+export function getBenchPositions(format: SportFormat, benchSize = format.maxBenchSize): { number: number; position: string }[] {
+  return Array.from({ length: benchSize }, (_, index) => ({
+    number: getStartingPositions(format) + index + 1,
+    position: "Substitute"
+  }));
+}
+
+// Forwards or backs for a starting number; anything higher is the bench
+export function getPositionUnit(format: SportFormat, number: number | null | undefined): PositionUnit | "substitutes" | null {
+  if (number == null) return null;
+  return format.positions.find(position => position.number === number)?.unit ??
+    (number > getStartingPositions(format) ? "substitutes" : null);
+}
+
+// Points for a stat type under a format. The format decides what the types
+// marked with a type of score are worth; any other stat type keeps the points
+// set on it.
+export function getScoringValue(
+  format: SportFormat,
+  statType: { scoringType?: ScoringType | null; points?: number | null }
+): number {
+  return statType.scoringType ? format.scoring[statType.scoringType] : statType.points ?? 0;
+}
@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { guessColumnMapping, parseCsvTable, parseImportDate, parseImportTime } from "./import";
+
+describe("parseImportDate", () => {
+  it("reads ISO dates, with or without a time", () => {
+    assert.deepEqual(parseImportDate("2026-03-14"), new Date(2026, 2, 14));
+    assert.deepEqual(parseImportDate("2026-03-14 15:30"), new Date(2026, 2, 14, 15, 30));
+    assert.deepEqual(parseImportDate("2026-03-14T15:30"), new Date(2026, 2, 14, 15, 30));
+  });
+
+  it("reads slashed dates day first, so 04/03 is the 4th of March", () => {
+    assert.deepEqual(parseImportDate("04/03/2026"), new Date(2026, 2, 4));
+    assert.deepEqual(parseImportDate("4.3.2026 2pm"), new Date(2026, 2, 4, 14));
+  });
+
+  it("turns down month-first dates that can't be day first", () => {
+    assert.equal(parseImportDate("03/14/2026"), null);
+  });
+
+  it("turns down days a month doesn't have", () => {
+    assert.equal(parseImportDate("31/04/2026"), null);
+    assert.equal(parseImportDate("2026-02-30"), null);
+    assert.deepEqual(parseImportDate("29/02/2028"), new Date(2028, 1, 29));
+  });
+
+  it("expands two-digit years around the current century", () => {
+    assert.equal(parseImportDate("14/03/26")?.getFullYear(), 2026);
+    assert.equal(parseImportDate("01/02/85")?.getFullYear(), 1985);
+  });
+
+  it("takes the time from a separate column when the date has none", () => {
+    assert.deepEqual(parseImportDate("14/03/2026", "2:30 PM"), new Date(2026, 2, 14, 14, 30));
+    assert.equal(parseImportDate("14/03/2026", "25:00"), null);
+  });
+
+  it("reads iCalendar dates, in UTC when they end in Z", () => {
+    assert.deepEqual(parseImportDate("20260314T150000Z"), new Date(Date.UTC(2026, 2, 14, 15)));
+    assert.deepEqual(parseImportDate("20260314T150000"), new Date(2026, 2, 14, 15));
+    assert.deepEqual(parseImportDate("20260314"), new Date(2026, 2, 14));
+  });
+
+  it("turns down anything else", () => {
+    assert.equal(parseImportDate("next Saturday"), null);
+    assert.equal(parseImportDate(""), null);
+  });
+});
+
+describe("parseImportTime", () => {
+  it("reads 24-hour and 12-hour times", () => {
+    assert.deepEqual(parseImportTime("14:30"), { hours: 14, minutes: 30 });
+    assert.deepEqual(parseImportTime("1430"), { hours: 14, minutes: 30 });
+    assert.deepEqual(parseImportTime("12am"), { hours: 0, minutes: 0 });
+    assert.equal(parseImportTime("13pm"), null);
+  });
+});
+
+describe("parseCsvTable", () => {
+  it("splits off trimmed headers and maps them to fields by alias", () => {
+    const table = parseCsvTable("\uFEFF Name ,DOB\r\nJo,01/02/2012\r\n");
+    const mapping = guessColumnMapping(table.headers, ["name", "dateOfBirth"] as const, {
+      name: ["name"],
+      dateOfBirth: ["dob", "date of birth"]
+    });
+
+    assert.deepEqual(table, { headers: ["Name", "DOB"], rows: [["Jo", "01/02/2012"]] });
+    assert.deepEqual(mapping, { name: 0, dateOfBirth: 1 });
+  });
+});
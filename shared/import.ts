@@ -0,0 +1,140 @@
+// Reading the spreadsheets clubs already keep. A file is read into a table,
+// its columns are mapped to fields, and the mapped rows are sent to the
+// server to be checked before anything is created. Mapping runs in the
+// browser so dates without a time zone are read in the coach's local time.
+
+import { parseCsv } from "./csv";
+
+export const MAX_IMPORT_ROWS = 500;
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// The column index each field is read from
+export type ColumnMapping<Field extends string> = Partial<Record<Field, number>>;
+
+export interface ImportRowResult {
+  row: number; // index into the rows sent
+  errors: string[];
+  duplicateOf: "existing" | "import" | null;
+}
+
+export interface ImportResult {
+  rows: ImportRowResult[];
+  created: number;
+}
+
+export function parseCsvTable(text: string): ImportTable {
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers: headers.map(header => header.trim()), rows };
+}
+
+// Matches headers to fields by name; aliases are lower case
+export function guessColumnMapping<Field extends string>(
+  headers: string[],
+  fields: readonly Field[],
+  aliases: Record<Field, string[]>
+): ColumnMapping<Field> {
+  const normalised = headers.map(header => header.trim().toLowerCase());
+  const mapping: ColumnMapping<Field> = {};
+  const used = new Set<number>();
+
+  for (const field of fields) {
+    const index = normalised.findIndex((header, column) => !used.has(column) && aliases[field].includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+export function readCell<Field extends string>(row: string[], mapping: ColumnMapping<Field>, field: Field): string {
+  const index = mapping[field];
+  return index === undefined ? "" : (row[index] ?? "").trim();
+}
+
+// Names compared the way people type them
+export function normaliseName(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function isValidDate(date: Date, year: number, month: number, day: number): boolean {
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+// Two-digit years up to ten years ahead are this century; "85" is 1985
+function expandYear(value: string): number {
+  if (value.length === 4) return Number(value);
+  const pivot = (new Date().getFullYear() % 100) + 10;
+  return Number(value) + (Number(value) <= pivot ? 2000 : 1900);
+}
+
+// "14:30", "1430", "2pm" or "2:30 PM"
+export function parseImportTime(value: string): { hours: number; minutes: number } | null {
+  const match = value.trim().match(/^(\d{1,2})(?:[:.]?(\d{2}))?(?::\d{2})?\s*(am|pm)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+}
+
+// Dates as spreadsheets write them: ISO ("2026-03-14 15:00"), day first
+// ("14/03/2026"), or iCalendar ("20260314T150000Z"). A separate time column
+// fills in the time when the date has none.
+export function parseImportDate(dateValue: string, timeValue = ""): Date | null {
+  const value = dateValue.trim();
+
+  const ics = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (ics) {
+    const [, year, month, day, hours, minutes] = ics.map(Number);
+    if (ics[7]) {
+      return new Date(Date.UTC(year, month - 1, day, hours, minutes));
+    }
+    const time = ics[4] ? { hours, minutes } : parseImportTime(timeValue) ?? { hours: 0, minutes: 0 };
+    const date = new Date(year, month - 1, day, time.hours, time.minutes);
+    return isValidDate(date, year, month, day) ? date : null;
+  }
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s]+(.+))?$/);
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?:\s+(.+))?$/);
+  if (!iso && !dayFirst) return null;
+
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : [expandYear(dayFirst![3]), Number(dayFirst![2]), Number(dayFirst![1])];
+  const timeText = (iso ? iso[4] : dayFirst![4]) ?? timeValue;
+  const time = timeText.trim() ? parseImportTime(timeText) : { hours: 0, minutes: 0 };
+  if (!time) return null;
+
+  const date = new Date(year, month - 1, day, time.hours, time.minutes);
+  return isValidDate(date, year, month, day) ? date : null;
+}
+
+// The calendar day of a date picked in the browser, which is stored as local
+// midnight. The nearest UTC midnight is the same day for any time zone
+// within twelve hours of UTC, so the server can read it without knowing the
+// coach's zone.
+export function getCalendarDay(date: Date | string): string {
+  const dayMs = 24 * 60 * 60 * 1000;
+  return new Date(Math.round(new Date(date).getTime() / dayMs) * dayMs).toISOString().slice(0, 10);
+}
+
+// Validation issues as "Field: message", for showing against a row
+export function describeImportIssues(
+  issues: { path: (string | number)[]; message: string }[],
+  labels: Record<string, string>
+): string[] {
+  return issues.map(issue => {
+    const label = labels[String(issue.path[0] ?? "")];
+    return label ? `${label}: ${issue.message}` : issue.message;
+  });
+}
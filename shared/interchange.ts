@@ -0,0 +1,29 @@
+// Interchanges: every time a player comes on from the bench. Players coming
+// back from the sin bin never left the lineup, so they don't use one.
+
+import { isBenchNomination } from "./team-sheet";
+
+export interface LineupRow {
+  playerId: number;
+  isStarter?: boolean | null;
+  startTime?: number | null;
+  endTime?: number | null;
+}
+
+export interface InterchangeUsage {
+  used: number;
+  limit: number | null; // null when the competition has no limit
+}
+
+export function countInterchanges(lineup: Pick<LineupRow, "isStarter" | "startTime">[]): number {
+  return lineup.filter(gp => !gp.isStarter && !isBenchNomination(gp)).length;
+}
+
+// Whether a player has an open stint, i.e. is playing (or sin-binned) now
+export function hasOpenStint(lineup: LineupRow[], playerId: number): boolean {
+  return lineup.some(gp => gp.playerId === playerId && gp.endTime == null && !isBenchNomination(gp));
+}
+
+export function isInterchangeLimitReached({ used, limit }: InterchangeUsage): boolean {
+  return limit !== null && used >= limit;
+}
@@ -0,0 +1,14 @@
+import type { ClockEvent, Stat } from "./schema";
+
+// WebSocket endpoint for live match updates; clients subscribe with ?gameId=
+export const LIVE_SOCKET_PATH = "/ws";
+
+// Updates pushed to every device following a game. Clients read the JSON
+// with their own record types, hence the type parameters.
+export type LiveMessage<TStat = Stat, TClockEvent = ClockEvent> =
+  | { type: "stat_created"; gameId: number; stat: TStat }
+  | { type: "stat_updated"; gameId: number; stat: TStat }
+  | { type: "stat_deleted"; gameId: number; statId: number }
+  | { type: "score"; gameId: number; homeScore: number; awayScore: number }
+  | { type: "clock_event"; gameId: number; event: TClockEvent }
+  | { type: "lineup_changed"; gameId: number }; // substitutions and cards
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calculateMinutesPlayed, calculateStatRates, getPeriodLengths } from "./minutes";
+
+// A first half that ran a minute over and a second half of exactly forty
+const periodLengths = [41 * 60, 40 * 60];
+const halfLength = 40;
+
+describe("calculateMinutesPlayed", () => {
+  it("counts a replacement brought on and taken off in the same half", () => {
+    const [starter, replacement] = calculateMinutesPlayed([
+      { playerId: 1, isStarter: true, startTime: 0, endTime: 10, endPeriod: 1 },
+      { playerId: 2, isStarter: false, startTime: 10, startPeriod: 1, endTime: 25, endPeriod: 1 },
+      { playerId: 1, isStarter: false, startTime: 25, startPeriod: 1 }
+    ], [], periodLengths, halfLength);
+
+    assert.deepEqual(replacement, {
+      playerId: 2,
+      minutes: 15,
+      sinBinMinutes: 0,
+      byPeriod: [15, 0],
+      stints: 1,
+      sinBinByPeriod: [0, 0],
+      stintsByPeriod: [1, 0],
+      isStarter: false,
+      isOnField: false
+    });
+    assert.equal(starter.minutes, 66);
+    assert.deepEqual(starter.byPeriod, [26, 40]);
+    assert.deepEqual(starter.stintsByPeriod, [2, 1]);
+    assert.equal(starter.isOnField, true);
+  });
+
+  it("places second-half substitutions by their period", () => {
+    const [, replacement] = calculateMinutesPlayed([
+      { playerId: 1, isStarter: true, startTime: 0, endTime: 50, endPeriod: 2 },
+      { playerId: 2, isStarter: false, startTime: 50, startPeriod: 2 }
+    ], [], periodLengths, halfLength);
+
+    assert.equal(replacement.minutes, 30);
+    assert.deepEqual(replacement.byPeriod, [0, 30]);
+  });
+
+  it("splits a sin-bin that runs over half-time between the halves", () => {
+    // Shown at 36 minutes played, back five minutes into the second half
+    const [player] = calculateMinutesPlayed(
+      [{ playerId: 1, isStarter: true, startTime: 0 }],
+      [{ playerId: 1, type: "yellow", issuedAt: 36 * 60, returnedAt: 46 * 60 }],
+      periodLengths,
+      halfLength
+    );
+
+    assert.equal(player.sinBinMinutes, 10);
+    assert.deepEqual(player.sinBinByPeriod, [5, 5]);
+    assert.deepEqual(player.byPeriod, [36, 35]);
+    assert.equal(player.minutes, 71);
+    assert.equal(player.isOnField, true);
+  });
+
+  it("runs a sin-bin to the end of play when the player never comes back", () => {
+    const [player] = calculateMinutesPlayed(
+      [{ playerId: 1, isStarter: true, startTime: 0 }],
+      [{ playerId: 1, type: "yellow", issuedAt: 70 * 60, returnedAt: null }],
+      periodLengths,
+      halfLength
+    );
+
+    assert.equal(player.sinBinMinutes, 11);
+    assert.equal(player.minutes, 70);
+    assert.equal(player.isOnField, false);
+  });
+
+  it("leaves out bench players who never came on", () => {
+    const minutes = calculateMinutesPlayed([
+      { playerId: 1, isStarter: true, startTime: 0 },
+      { playerId: 2, isStarter: false, startTime: null }
+    ], [], periodLengths, halfLength);
+
+    assert.deepEqual(minutes.map(player => player.playerId), [1]);
+  });
+});
+
+describe("getPeriodLengths", () => {
+  it("counts untimed games at full length once they're completed", () => {
+    assert.deepEqual(getPeriodLengths([], 40, 2, true), [2400, 2400]);
+    assert.deepEqual(getPeriodLengths([], 40, 2, false), []);
+    assert.deepEqual(getPeriodLengths([2460, 600], 40, 2, false), [2460, 600]);
+  });
+});
+
+describe("calculateStatRates", () => {
+  it("holds back rates below the minimum minutes", () => {
+    assert.deepEqual(calculateStatRates(3, { minutes: 10, stints: 1, periods: 1 }), { minutes: 10, per80: null, perStint: null, perPeriod: null });
+    assert.deepEqual(calculateStatRates(6, { minutes: 40, stints: 2, periods: 1 }), { minutes: 40, per80: 12, perStint: 3, perPeriod: 6 });
+  });
+});
@@ -0,0 +1,164 @@
+// Minutes played, worked out from lineup stints, sin-bins and the match
+// clock. Everything is converted to seconds of actual play so added time and
+// periods cut short count for what they were.
+
+import { isOffField, type CardLike } from "./discipline";
+import { isBenchNomination } from "./team-sheet";
+
+// A spell on the field from a game's lineup. Times are match minutes as
+// recorded by substitutions; the periods say which half each time is in.
+export interface StintLike {
+  playerId: number;
+  startTime?: number | null;
+  endTime?: number | null; // null while the player is still on
+  startPeriod?: number | null;
+  endPeriod?: number | null;
+}
+
+export interface PlayerMinutes {
+  playerId: number;
+  minutes: number; // on the field, sin-bin time excluded
+  sinBinMinutes: number;
+  byPeriod: number[]; // minutes on the field in each period, first period first
+  stints: number;
+  sinBinByPeriod: number[];
+  stintsByPeriod: number[]; // spells on the field that touched each period
+  isStarter: boolean;
+  isOnField: boolean; // still playing when the minutes were counted
+}
+
+// A player's minutes summed over a run of games
+export interface SeasonMinutes {
+  playerId: number;
+  games: number; // appearances
+  starts: number;
+  minutes: number;
+  sinBinMinutes: number;
+  stints: number;
+  periods: number; // periods with time on the field
+}
+
+// A player's total for a stat scaled by time on the field. Rates are null
+// below the minimum minutes so a short cameo can't top a leaderboard.
+export interface StatRates {
+  minutes: number;
+  per80: number | null;
+  perStint: number | null;
+  perPeriod: number | null;
+}
+
+export type RateBasis = "per80" | "perStint" | "perPeriod";
+
+export const DEFAULT_RATE_MIN_MINUTES = 20;
+
+type Interval = [number, number];
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const toMinutes = (seconds: number) => Math.round(seconds / 6) / 10;
+
+const overlap = ([aStart, aEnd]: Interval, [bStart, bEnd]: Interval): Interval | null => {
+  const start = Math.max(aStart, bStart);
+  const end = Math.min(aEnd, bEnd);
+  return end > start ? [start, end] : null;
+};
+
+const length = (interval: Interval | null) => interval ? interval[1] - interval[0] : 0;
+
+// Seconds played in each period so far. Games tracked without the clock
+// count every period at full length once they're completed.
+export function getPeriodLengths(
+  periodSeconds: number[],
+  halfLength: number,
+  numberOfHalves: number,
+  isCompleted: boolean
+): number[] {
+  if (periodSeconds.length > 0) return periodSeconds;
+  return isCompleted ? Array.from({ length: numberOfHalves }, () => halfLength * 60) : [];
+}
+
+// Older lineups don't say which period a time is in; take the first period
+// whose span covers it
+function inferPeriod(seconds: number, periodLengths: number[], halfLength: number): number {
+  const period = periodLengths.findIndex((periodLength, index) => seconds <= index * halfLength * 60 + periodLength);
+  return period === -1 ? Math.max(1, periodLengths.length) : period + 1;
+}
+
+// Seconds of actual play before a match time
+function toPlayedSeconds(minute: number, period: number | null | undefined, periodLengths: number[], halfLength: number): number {
+  const seconds = minute * 60;
+  const stintPeriod = period ?? inferPeriod(seconds, periodLengths, halfLength);
+  const intoPeriod = seconds - (stintPeriod - 1) * halfLength * 60;
+
+  return sum(periodLengths.slice(0, stintPeriod - 1)) +
+    Math.min(Math.max(0, intoPeriod), periodLengths[stintPeriod - 1] ?? 0);
+}
+
+// Minutes for everyone who appeared in a game's lineup
+export function calculateMinutesPlayed(
+  lineup: (StintLike & { isStarter?: boolean | null })[],
+  cards: CardLike[],
+  periodLengths: number[],
+  halfLength: number
+): PlayerMinutes[] {
+  // Bench players who never came on have no time to count
+  const stints = lineup.filter(stint => !isBenchNomination(stint));
+  const totalSeconds = sum(periodLengths);
+  const periods = periodLengths.map((periodLength, index): Interval => {
+    const start = sum(periodLengths.slice(0, index));
+    return [start, start + periodLength];
+  });
+
+  const playerIds = Array.from(new Set(stints.map(stint => stint.playerId)));
+
+  return playerIds.map(playerId => {
+    const playerStints = stints.filter(stint => stint.playerId === playerId);
+
+    const onField = playerStints.map((stint): Interval => [
+      toPlayedSeconds(stint.startTime ?? 0, stint.startPeriod, periodLengths, halfLength),
+      stint.endTime == null ? totalSeconds : toPlayedSeconds(stint.endTime, stint.endPeriod, periodLengths, halfLength)
+    ]);
+
+    // A sin-bin runs until the player comes back on, or to the end of play
+    const sinBins = cards
+      .filter(card => card.playerId === playerId && card.type === "yellow")
+      .map((card): Interval => [card.issuedAt, Math.min(card.returnedAt ?? totalSeconds, totalSeconds)]);
+
+    const secondsByPeriod = periods.map(period => {
+      const stintsInPeriod = onField.map(stint => overlap(stint, period)).filter((stint): stint is Interval => !!stint);
+      const played = sum(stintsInPeriod.map(length));
+      const binned = sum(stintsInPeriod.flatMap(stint => sinBins.map(sinBin => length(overlap(stint, sinBin)))));
+      return { played: played - binned, binned, stints: stintsInPeriod.length };
+    });
+
+    return {
+      playerId,
+      minutes: toMinutes(sum(secondsByPeriod.map(period => period.played))),
+      sinBinMinutes: toMinutes(sum(secondsByPeriod.map(period => period.binned))),
+      byPeriod: secondsByPeriod.map(period => toMinutes(period.played)),
+      stints: playerStints.length,
+      sinBinByPeriod: secondsByPeriod.map(period => toMinutes(period.binned)),
+      stintsByPeriod: secondsByPeriod.map(period => period.stints),
+      isStarter: playerStints.some(stint => !!stint.isStarter),
+      isOnField: playerStints.some(stint => stint.endTime == null) && !isOffField(cards, playerId)
+    };
+  });
+}
+
+const toRate = (value: number) => Math.round(value * 100) / 100;
+
+export function calculateStatRates(
+  total: number,
+  { minutes, stints, periods }: Pick<SeasonMinutes, "minutes" | "stints" | "periods">,
+  minMinutes = DEFAULT_RATE_MIN_MINUTES
+): StatRates {
+  if (minutes <= 0 || minutes < minMinutes) {
+    return { minutes, per80: null, perStint: null, perPeriod: null };
+  }
+
+  return {
+    minutes,
+    per80: toRate(total / minutes * 80),
+    perStint: stints > 0 ? toRate(total / stints) : null,
+    perPeriod: periods > 0 ? toRate(total / periods) : null
+  };
+}
@@ -0,0 +1,74 @@
+// Importing and exporting the player pool as a spreadsheet. The export's
+// columns are the ones the import recognises, so a roster can be taken out,
+// edited and brought back.
+
+import {
+  getCalendarDay,
+  guessColumnMapping,
+  normaliseName,
+  parseImportDate,
+  readCell,
+  type ColumnMapping
+} from "./import";
+
+export const playerImportFields = ["name", "number", "position", "dateOfBirth", "email", "phone", "team"] as const;
+export type PlayerImportField = typeof playerImportFields[number];
+
+export const playerImportFieldLabels: Record<PlayerImportField, string> = {
+  name: "Name",
+  number: "Number",
+  position: "Position",
+  dateOfBirth: "Date of Birth",
+  email: "Email",
+  phone: "Phone",
+  team: "Team"
+};
+
+// A player read from one row, as sent to the server to be checked. Values
+// that couldn't be read are passed on as written so the error shows them.
+export interface ImportedPlayer {
+  name: string;
+  number: number | string | null;
+  position: string | null;
+  dateOfBirth: string | null;
+  email: string | null;
+  phone: string | null;
+  team: string | null; // matched to one of the club's teams by name
+}
+
+const headerAliases: Record<PlayerImportField, string[]> = {
+  name: ["name", "player", "player name", "full name"],
+  number: ["number", "no", "no.", "#", "jersey", "jersey number"],
+  position: ["position", "pos"],
+  dateOfBirth: ["date of birth", "dob", "birth date", "birthday"],
+  email: ["email", "e-mail", "email address"],
+  phone: ["phone", "mobile", "phone number", "contact number"],
+  team: ["team", "squad"]
+};
+
+export function guessPlayerColumns(headers: string[]): ColumnMapping<PlayerImportField> {
+  return guessColumnMapping(headers, playerImportFields, headerAliases);
+}
+
+export function mapPlayerRow(row: string[], mapping: ColumnMapping<PlayerImportField>): ImportedPlayer {
+  const cell = (field: PlayerImportField) => readCell(row, mapping, field);
+
+  const number = cell("number").replace(/^#/, "");
+  const dateOfBirth = cell("dateOfBirth");
+  const parsedDateOfBirth = dateOfBirth ? parseImportDate(dateOfBirth) : null;
+
+  return {
+    name: cell("name"),
+    number: number === "" ? null : /^\d+$/.test(number) ? Number(number) : number,
+    position: cell("position") || null,
+    dateOfBirth: parsedDateOfBirth ? parsedDateOfBirth.toISOString() : dateOfBirth || null,
+    email: cell("email") || null,
+    phone: cell("phone") || null,
+    team: cell("team") || null
+  };
+}
+
+// Players already in the pool are matched on name and date of birth
+export function getPlayerKey(name: string, dateOfBirth: Date | string | null | undefined): string {
+  return `${normaliseName(name)}|${dateOfBirth ? getCalendarDay(dateOfBirth) : ""}`;
+}
@@ -0,0 +1,27 @@
+// Roles a club member can hold, from most to least access
+export const userRoles = ["admin", "coach", "stat_tagger", "parent"] as const;
+export type UserRole = typeof userRoles[number];
+
+export const roleLabels: Record<UserRole, string> = {
+  admin: "Admin",
+  coach: "Coach",
+  stat_tagger: "Stat Tagger",
+  parent: "Parent (read-only)",
+};
+
+// What a member may change. Everyone in the club can read its data.
+//   members - invite, re-role and remove club members
+//   manage  - teams, players, fixtures, games, lineups and stat types
+//   record  - live match data: stats, events, the clock, cards and substitutions
+export type Permission = "members" | "manage" | "record";
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+  admin: ["members", "manage", "record"],
+  coach: ["manage", "record"],
+  stat_tagger: ["record"],
+  parent: [],
+};
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return rolePermissions[role as UserRole]?.includes(permission) ?? false;
+}
@@ -1,23 +1,50 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, real, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { clockEventTypes } from "./clock";
+import { cardTypes } from "./discipline";
+import { userRoles } from "./roles";
+import { DEFAULT_SPORT_FORMAT, scoringTypes, sportFormatIds, sportFormats } from "./formats";
+import { fixtureStatuses, manualFixtureStatuses } from "./fixtures";
+import { MAX_IMPORT_ROWS } from "./import";
+import { statCategories, statValueKinds, type StatAggregation } from "./stat-types";
+import type { StatRates } from "./minutes";
+
+// Organisations table - the clubs sharing a deployment; everything below belongs to one
+export const organisations = pgTable("organisations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertOrganisationSchema = createInsertSchema(organisations).omit({ id: true, createdAt: true });
+export type InsertOrganisation = z.infer<typeof insertOrganisationSchema>;
+export type Organisation = typeof organisations.$inferSelect;
 
 // Teams table
 export const teams = pgTable("teams", {
   id: serial("id").primaryKey(),
+  organisationId: integer("organisation_id").notNull(),
   name: text("name").notNull(),
   ageGroup: text("age_group").notNull(),
   description: text("description"),
   isActive: boolean("is_active").default(true),
+  format: text("format").notNull().default(DEFAULT_SPORT_FORMAT), // league, union, sevens, tag or mod
+  maxBenchSize: integer("max_bench_size").notNull().default(sportFormats[DEFAULT_SPORT_FORMAT].maxBenchSize), // interchange players named on a team sheet
+  calendarToken: text("calendar_token").unique(), // secret in the fixture feed's subscription link
 });
 
-export const insertTeamSchema = createInsertSchema(teams).omit({ id: true });
+export const insertTeamSchema = createInsertSchema(teams, {
+  format: z.enum(sportFormatIds).optional(),
+  maxBenchSize: z.number().int().min(0).optional(),
+}).omit({ id: true, organisationId: true, calendarToken: true });
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
 export type Team = typeof teams.$inferSelect;
 
 // Players table
 export const players = pgTable("players", {
   id: serial("id").primaryKey(),
+  organisationId: integer("organisation_id").notNull(),
   name: text("name").notNull(),
   number: integer("number"),
   position: text("position"),
@@ -29,30 +56,78 @@ export const players = pgTable("players", {
   isActive: boolean("is_active").default(true),
 });
 
-export const insertPlayerSchema = createInsertSchema(players).omit({ id: true });
+// Dates of birth arrive as JSON strings
+export const insertPlayerSchema = createInsertSchema(players, {
+  dateOfBirth: z.coerce.date().nullish(),
+}).omit({ id: true, organisationId: true });
 export type InsertPlayer = z.infer<typeof insertPlayerSchema>;
 export type Player = typeof players.$inferSelect;
 
+// A roster being imported into the player pool; rows are checked one by one
+export const playerImportSchema = z.object({
+  rows: z.array(z.record(z.unknown())).min(1).max(MAX_IMPORT_ROWS),
+  dryRun: z.boolean().optional(),
+});
+export type PlayerImport = z.infer<typeof playerImportSchema>;
+
 // Fixtures table - upcoming games before they're played
 export const fixtures = pgTable("fixtures", {
   id: serial("id").primaryKey(),
+  organisationId: integer("organisation_id").notNull(),
   teamId: integer("team_id").notNull(),
   opponent: text("opponent").notNull(),
   date: timestamp("date").notNull(),
   location: text("location").notNull(),
   isHome: boolean("is_home").default(true),
   notes: text("notes"),
+  status: text("status", { enum: fixtureStatuses }).notNull().default("scheduled"),
+  gameId: integer("game_id"), // the game started from the fixture
+  sequence: integer("sequence").notNull().default(0), // bumped on every change so calendars pick it up
 });
 
-export const insertFixtureSchema = createInsertSchema(fixtures).omit({ id: true });
+// In progress and played follow the linked game, so only the other statuses can be sent
+export const insertFixtureSchema = createInsertSchema(fixtures, {
+  opponent: z.string().trim().min(1, { message: "Required" }),
+  date: z.coerce.date(), // arrives as a JSON string when a fixture is moved
+  location: z.string().trim().min(1, { message: "Required" }),
+  isHome: z.boolean({ invalid_type_error: "Expected home or away" }).nullable().optional(),
+  status: z.enum(manualFixtureStatuses).optional(),
+}).omit({ id: true, organisationId: true, gameId: true, sequence: true });
 export type InsertFixture = z.infer<typeof insertFixtureSchema>;
 export type Fixture = typeof fixtures.$inferSelect;
 
+// A season draw being imported for a team. Rows are checked one by one
+// against insertFixtureSchema, so they're left loose here.
+export const fixtureImportSchema = z.object({
+  teamId: z.number(),
+  rows: z.array(z.record(z.unknown())).min(1).max(MAX_IMPORT_ROWS),
+  dryRun: z.boolean().optional(),
+});
+export type FixtureImport = z.infer<typeof fixtureImportSchema>;
+
+// Competitions table - the rules a club's games are played under
+export const competitions = pgTable("competitions", {
+  id: serial("id").primaryKey(),
+  organisationId: integer("organisation_id").notNull(),
+  name: text("name").notNull(),
+  interchangeLimit: integer("interchange_limit"), // per team per match; null for unlimited
+});
+
+export const insertCompetitionSchema = createInsertSchema(competitions, {
+  name: z.string().trim().min(1),
+  interchangeLimit: z.number().int().min(0).nullish(),
+}).omit({ id: true, organisationId: true });
+export type InsertCompetition = z.infer<typeof insertCompetitionSchema>;
+export type Competition = typeof competitions.$inferSelect;
+
 // Games table - actual played games with stats
 export const games = pgTable("games", {
   id: serial("id").primaryKey(),
+  organisationId: integer("organisation_id").notNull(),
   teamId: integer("team_id").notNull(),
   fixtureId: integer("fixture_id"), // Optional - games can be created without a fixture
+  competitionId: integer("competition_id"), // Optional - friendlies have no interchange limit
+  format: text("format").notNull().default(DEFAULT_SPORT_FORMAT), // the team's format when the game was created
   opponent: text("opponent").notNull(),
   date: timestamp("date").notNull().defaultNow(),
   location: text("location").notNull(),
@@ -63,19 +138,33 @@ export const games = pgTable("games", {
   isCompleted: boolean("is_completed").default(false),
   playerOfMatchId: integer("player_of_match_id"),
   playerOfMatchComment: text("player_of_match_comment"),
+  sinBinMinutes: integer("sin_bin_minutes").notNull().default(10), // how long a yellow card keeps a player off
+  statTemplateId: integer("stat_template_id"), // the template the tracked stats were chosen from, if any
+  statTypeIds: integer("stat_type_ids").array(), // the stat buttons shown while recording; null for the default types
 });
 
-export const insertGameSchema = createInsertSchema(games).omit({ 
+export const insertGameSchema = createInsertSchema(games, {
+  format: z.enum(sportFormatIds).optional(),
+}).omit({ 
   id: true, 
+  organisationId: true, 
   homeScore: true, 
   awayScore: true, 
   isCompleted: true,
   playerOfMatchId: true,
-  playerOfMatchComment: true 
+  playerOfMatchComment: true,
+  statTemplateId: true,
+  statTypeIds: true
 });
 export type InsertGame = z.infer<typeof insertGameSchema>;
 export type Game = typeof games.$inferSelect;
 
+// Live updates (score, result, player of the match) may touch any game column
+export const updateGameSchema = createInsertSchema(games, {
+  format: z.enum(sportFormatIds).optional(),
+}).omit({ id: true, organisationId: true }).partial();
+export type UpdateGame = z.infer<typeof updateGameSchema>;
+
 // GamePlayers table - represents players assigned to a specific game
 export const gamePlayers = pgTable("game_players", {
   id: serial("id").primaryKey(),
@@ -86,54 +175,251 @@ export const gamePlayers = pgTable("game_players", {
   isStarter: boolean("is_starter").default(false),
   startTime: real("start_time"), // time in minutes from game start
   endTime: real("end_time"), // time in minutes
-});
+  startPeriod: integer("start_period"), // which half/period the stint started in
+  endPeriod: integer("end_period"), // which half/period the stint ended in
+  clientId: text("client_id"), // client-generated id of the substitution that created this row, unique within its game
+}, (table) => [
+  unique().on(table.gameId, table.clientId),
+]);
 
 export const insertGamePlayerSchema = createInsertSchema(gamePlayers).omit({ id: true });
 export type InsertGamePlayer = z.infer<typeof insertGamePlayerSchema>;
 export type GamePlayer = typeof gamePlayers.$inferSelect;
 
+// A whole game-day team sheet, submitted before kick-off
+export const teamSheetSchema = z.object({
+  players: z.array(insertGamePlayerSchema.pick({ playerId: true, number: true, position: true })),
+});
+export type TeamSheet = z.infer<typeof teamSheetSchema>;
+
 // Stats table - tracks all stats recorded during a game
 export const stats = pgTable("stats", {
   id: serial("id").primaryKey(),
   gameId: integer("game_id").notNull(),
   playerId: integer("player_id").notNull(),
-  statType: text("stat_type").notNull(), // tackles, carries, etc.
-  value: integer("value").default(1), // default to 1 for boolean stats, can be higher for meters, etc.
+  statTypeId: integer("stat_type_id"), // null only for rows recorded before stats referenced their type
+  statType: text("stat_type").notNull(), // the type's name when it was recorded, for display once it's renamed or gone
+  value: real("value").default(1), // 1 for a single count; the amount, 1/0 for success/fail or the rating for valued types
   gameTime: real("game_time"), // time in minutes from game start
   period: integer("period").default(1), // which half/period
-});
+  clientId: text("client_id"), // client-generated id so offline replays are idempotent, unique within its game
+}, (table) => [
+  unique().on(table.gameId, table.clientId),
+]);
 
 export const insertStatSchema = createInsertSchema(stats).omit({ id: true });
 export type InsertStat = z.infer<typeof insertStatSchema>;
 export type Stat = typeof stats.$inferSelect;
 
+// What a client sends to record a stat. Devices that only know the stat's
+// name (offline queues from before ids) send that; the server looks the type
+// up and fills in both.
+export const recordStatSchema = insertStatSchema.extend({
+  statType: z.string().trim().min(1).optional(),
+}).refine(stat => stat.statTypeId != null || stat.statType !== undefined, {
+  message: "Required",
+  path: ["statTypeId"],
+});
+export type RecordStat = z.infer<typeof recordStatSchema>;
+
+// Filters for querying stats across games (query-string friendly)
+export const statFiltersSchema = z.object({
+  teamId: z.coerce.number().int().optional(),
+  gameId: z.coerce.number().int().optional(),
+  playerId: z.coerce.number().int().optional(),
+  statTypeId: z.coerce.number().int().optional(),
+  statType: z.string().optional(), // the name the stat was recorded under
+  period: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(), // game date range, inclusive
+  to: z.coerce.date().optional(),
+});
+export type StatFilters = z.infer<typeof statFiltersSchema>;
+
+// Filters for season minutes played; a season is a game date range
+export const minutesFiltersSchema = statFiltersSchema.pick({ teamId: true, gameId: true, playerId: true, period: true, from: true, to: true });
+export type MinutesFilters = z.infer<typeof minutesFiltersSchema>;
+
+// Aggregate mode options; rates only count players with this many minutes
+export const statRateOptionsSchema = z.object({
+  minMinutes: z.coerce.number().min(0).optional(),
+});
+export type StatRateOptions = z.infer<typeof statRateOptionsSchema>;
+
+// Aggregated stat totals, summed server-side per stat type id
+export interface StatTotal {
+  statTypeId: number | null;
+  statType: string; // the type's current name
+  total: number; // sum of values
+  count: number; // number of records
+  aggregation: StatAggregation; // from the type's kind of value
+  value: number; // the total, average or success percentage, according to aggregation
+}
+
+export interface PlayerStatTotal extends StatTotal {
+  playerId: number;
+  rates?: StatRates; // against minutes played, when asked for and the values are totalled
+}
+
+export interface StatTotals {
+  byPlayer: PlayerStatTotal[];
+  byStatType: StatTotal[];
+}
+
+// GameEvents table - match timeline entries (tries, cards, substitutions, injuries)
+export const gameEvents = pgTable("game_events", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull(),
+  type: text("type").notNull(), // try, conversion, yellow_card, etc.
+  playerId: integer("player_id"), // Optional - not every event involves one of our players
+  minute: integer("minute"), // minute of the match the event happened in
+  period: integer("period").default(1), // which half/period
+  isOpposition: boolean("is_opposition").default(false), // scored or committed by the opposition
+  points: integer("points").default(0), // points the event put on the board
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertGameEventSchema = createInsertSchema(gameEvents).omit({ id: true, createdAt: true });
+export type InsertGameEvent = z.infer<typeof insertGameEventSchema>;
+export type GameEvent = typeof gameEvents.$inferSelect;
+
+// ClockEvents table - the match clock, stored as timestamped start/pause/resume/period events
+export const clockEvents = pgTable("clock_events", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull(),
+  type: text("type").notNull(), // start, pause, resume, end_period, added_time
+  period: integer("period").notNull(), // which half/period the event belongs to
+  seconds: integer("seconds"), // added time, for added_time events
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(), // when it happened, which may be before it synced
+  clientId: text("client_id"), // client-generated id so offline replays are idempotent, unique within its game
+}, (table) => [
+  unique().on(table.gameId, table.clientId),
+]);
+
+export const insertClockEventSchema = createInsertSchema(clockEvents, {
+  type: z.enum(clockEventTypes),
+  seconds: z.number().int().positive().nullish(),
+}).omit({ id: true });
+export type InsertClockEvent = z.infer<typeof insertClockEventSchema>;
+export type ClockEvent = typeof clockEvents.$inferSelect;
+
+// What a client sends to move the clock; the server fills in the game and period
+export const recordClockEventSchema = insertClockEventSchema
+  .pick({ type: true, seconds: true, clientId: true })
+  .extend({ occurredAt: z.coerce.date().optional() })
+  .refine(event => event.type !== "added_time" || event.seconds != null, {
+    message: "Added time needs a number of seconds",
+    path: ["seconds"],
+  });
+export type RecordClockEvent = z.infer<typeof recordClockEventSchema>;
+
+// Cards table - yellow cards (sin-bin) and red cards (sent off) shown to our players
+export const cards = pgTable("cards", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull(),
+  playerId: integer("player_id").notNull(),
+  type: text("type").notNull(), // yellow, red
+  period: integer("period").default(1), // which half/period
+  issuedAt: integer("issued_at").notNull(), // played seconds on the match clock when the card was shown
+  durationSeconds: integer("duration_seconds"), // sin-bin length, null for red cards
+  returnedAt: integer("returned_at"), // played seconds when a sin-binned player came back on
+  clientId: text("client_id"), // client-generated id so offline replays are idempotent, unique within its game
+}, (table) => [
+  unique().on(table.gameId, table.clientId),
+]);
+
+export const insertCardSchema = createInsertSchema(cards, {
+  type: z.enum(cardTypes),
+}).omit({ id: true });
+export type InsertCard = z.infer<typeof insertCardSchema>;
+export type Card = typeof cards.$inferSelect;
+
+// What a client sends to show a card; the server times it from the match clock
+export const issueCardSchema = insertCardSchema.pick({ playerId: true, type: true, clientId: true });
+export type IssueCard = z.infer<typeof issueCardSchema>;
+
 // StatTypes table - configurable stats that can be tracked
 export const statTypes = pgTable("stat_types", {
   id: serial("id").primaryKey(),
+  organisationId: integer("organisation_id"), // null for the built-in types every club shares
   name: text("name").notNull(),
   description: text("description"),
-  isActive: boolean("is_active").default(true),
+  isActive: boolean("is_active").default(true), // false once archived; kept for the stats already recorded
   isDefault: boolean("is_default").default(false),
   color: text("color").default("#1E3A8A"), // Default primary color
   icon: text("icon").default("sports_rugby"),
+  points: integer("points").default(0), // points added to the score each time it's recorded
+  scoringType: text("scoring_type", { enum: scoringTypes }), // scores worth what the game's format says instead of points
+  category: text("category", { enum: statCategories }).notNull().default("attack"),
+  sortOrder: integer("sort_order").notNull().default(0), // position within its category; built-in types stay at 0
+  valueKind: text("value_kind", { enum: statValueKinds }).notNull().default("count"), // how values are entered and added up
+  unit: text("unit"), // shown after numeric values, e.g. "m"
+  minValue: real("min_value"), // limits for count and numeric values; null for none
+  maxValue: real("max_value"),
 });
 
-export const insertStatTypeSchema = createInsertSchema(statTypes).omit({ id: true });
+// New types go to the end of their category; moving them is done through reorderStatTypesSchema.
+// Whether a type is tracked by default and what it scores are only set on the built-in types.
+export const insertStatTypeSchema = createInsertSchema(statTypes, {
+  name: z.string().trim().min(1, { message: "Required" }),
+}).omit({ id: true, organisationId: true, sortOrder: true, isDefault: true, points: true, scoringType: true });
 export type InsertStatType = z.infer<typeof insertStatTypeSchema>;
 export type StatType = typeof statTypes.$inferSelect;
 
+// The club's own stat types, in their new display order
+export const reorderStatTypesSchema = z.object({
+  ids: z.array(z.number().int()).min(1),
+});
+export type ReorderStatTypes = z.infer<typeof reorderStatTypesSchema>;
+
+// Stat templates table - saved sets of stat types to track in a game
+export const statTemplates = pgTable("stat_templates", {
+  id: serial("id").primaryKey(),
+  organisationId: integer("organisation_id"), // null for the built-in templates every club shares
+  name: text("name").notNull(),
+  statTypeIds: integer("stat_type_ids").array().notNull(),
+});
+
+export const insertStatTemplateSchema = createInsertSchema(statTemplates, {
+  name: z.string().trim().min(1, { message: "Required" }),
+  statTypeIds: z.array(z.number().int()).min(1, { message: "Choose at least one stat" }),
+}).omit({ id: true, organisationId: true });
+export type InsertStatTemplate = z.infer<typeof insertStatTemplateSchema>;
+export type StatTemplate = typeof statTemplates.$inferSelect;
+
+// The stats a game tracks: a template's types, or a hand-picked set with no template
+export const trackedStatsSchema = z.object({
+  statTemplateId: z.number().int().nullable().default(null),
+  statTypeIds: z.array(z.number().int()).min(1, { message: "Choose at least one stat" }),
+});
+export type TrackedStats = z.infer<typeof trackedStatsSchema>;
+
 // Users table (for basic auth and team management)
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   teamName: text("team_name"),
+  organisationId: integer("organisation_id").notNull(), // the club the user belongs to
+  role: text("role").notNull().default("parent"), // admin, coach, stat_tagger, parent
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.enum(userRoles).optional(),
+}).pick({
   username: true,
   password: true,
   teamName: true,
+  organisationId: true,
+  role: true,
 });
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// What an admin sends to add someone to their club
+export const createMemberSchema = insertUserSchema
+  .pick({ username: true, password: true })
+  .extend({ role: z.enum(userRoles) });
+export type CreateMember = z.infer<typeof createMemberSchema>;
+
+export const updateMemberSchema = z.object({ role: z.enum(userRoles) });
@@ -0,0 +1,195 @@
+// Stat types are grouped by category wherever they're listed, and kept in
+// the order the club puts them in within each group.
+
+export const statCategories = ["attack", "defence", "discipline", "scoring", "set_piece"] as const;
+export type StatCategory = typeof statCategories[number];
+
+export const statCategoryLabels: Record<StatCategory, string> = {
+  attack: "Attack",
+  defence: "Defence",
+  discipline: "Discipline",
+  scoring: "Scoring",
+  set_piece: "Set piece"
+};
+
+// How a stat's value is entered on the live screen, and so how its values add up
+export const statValueKinds = ["count", "numeric", "success", "rating"] as const;
+export type StatValueKind = typeof statValueKinds[number];
+
+export const statValueKindLabels: Record<StatValueKind, string> = {
+  count: "Count",
+  numeric: "Number with unit",
+  success: "Success / fail",
+  rating: "Rating (1–5)"
+};
+
+export type StatAggregation = "sum" | "average" | "success_rate";
+
+// Counts and measurements are totalled, ratings averaged, and attempts shown
+// as the percentage that succeeded
+export const statAggregations: Record<StatValueKind, StatAggregation> = {
+  count: "sum",
+  numeric: "sum",
+  success: "success_rate",
+  rating: "average"
+};
+
+export const RATING_MIN = 1;
+export const RATING_MAX = 5;
+
+interface ValuedStatType {
+  name: string;
+  valueKind: StatValueKind;
+  unit?: string | null;
+  minValue?: number | null;
+  maxValue?: number | null;
+}
+
+// The range a type's values must fall in: a success is 1 and a fail 0, and
+// counts and numbers take the type's own limits, if it has any
+export function getStatValueLimits(statType: ValuedStatType): { min: number | null; max: number | null } {
+  switch (statType.valueKind) {
+    case "success":
+      return { min: 0, max: 1 };
+    case "rating":
+      return { min: RATING_MIN, max: RATING_MAX };
+    default:
+      return { min: statType.minValue ?? null, max: statType.maxValue ?? null };
+  }
+}
+
+// Why a value can't be recorded against a type, or null if it can. Only a
+// count can leave its value out, which records it once.
+export function checkStatValue(statType: ValuedStatType, value: number | null | undefined): string | null {
+  if (value == null && statType.valueKind === "count") return null;
+  if (value == null || !Number.isFinite(value)) return `${statType.name} needs a value`;
+  if (statType.valueKind !== "numeric" && !Number.isInteger(value)) {
+    return `${statType.name} takes whole numbers`;
+  }
+
+  const { min, max } = getStatValueLimits(statType);
+  if (min != null && value < min) return `${statType.name} can't be less than ${min}`;
+  if (max != null && value > max) return `${statType.name} can't be more than ${max}`;
+  return null;
+}
+
+// A total, average or success percentage from a type's values, to one decimal place
+export function aggregateStatValues(aggregation: StatAggregation, total: number, count: number): number {
+  const value = aggregation === "sum" ? total
+    : count === 0 ? 0
+    : aggregation === "average" ? total / count
+    : total / count * 100;
+  return Math.round(value * 10) / 10;
+}
+
+// How many times a recorded stat counts towards the score: a count by its
+// value, a success/fail attempt only if it succeeded, anything else once
+export function getScoringCount(valueKind: StatValueKind | undefined, value: number | null): number {
+  return valueKind === "numeric" || valueKind === "rating" ? 1 : value ?? 1;
+}
+
+// One recorded value as it reads to people, e.g. "22 m", "Success" or "4/5"
+export function formatStatValue(statType: ValuedStatType | undefined, value: number): string {
+  switch (statType?.valueKind) {
+    case "numeric":
+      return statType.unit ? `${value} ${statType.unit}` : value.toString();
+    case "success":
+      return value > 0 ? "Success" : "Fail";
+    case "rating":
+      return `${value}/${RATING_MAX}`;
+    default:
+      return value.toString();
+  }
+}
+
+// What a type's aggregated values are in, e.g. "m", "%" or "avg"; null for plain counts
+export function getStatAggregateUnit(statType: Pick<ValuedStatType, "valueKind" | "unit"> | undefined): string | null {
+  switch (statType?.valueKind) {
+    case "numeric":
+      return statType.unit || null;
+    case "success":
+      return "%";
+    case "rating":
+      return "avg";
+    default:
+      return null;
+  }
+}
+
+// An aggregated value as it reads to people, e.g. "240 m", "75%" or "3.5 avg"
+export function formatStatAggregate(statType: Pick<ValuedStatType, "valueKind" | "unit"> | undefined, value: number): string {
+  const unit = getStatAggregateUnit(statType);
+  return unit === "%" ? `${value}%` : unit ? `${value} ${unit}` : value.toString();
+}
+
+interface OrderedStatType {
+  id: number;
+  category: StatCategory;
+  sortOrder: number;
+}
+
+// Category first, then the club's order, then the order they were added in
+export function compareStatTypes(a: OrderedStatType, b: OrderedStatType): number {
+  return (
+    statCategories.indexOf(a.category) - statCategories.indexOf(b.category) ||
+    a.sortOrder - b.sortOrder ||
+    a.id - b.id
+  );
+}
+
+export function groupStatTypes<T extends OrderedStatType>(statTypes: T[]): { category: StatCategory; statTypes: T[] }[] {
+  const sorted = [...statTypes].sort(compareStatTypes);
+  return statCategories
+    .map(category => ({ category, statTypes: sorted.filter(statType => statType.category === category) }))
+    .filter(group => group.statTypes.length > 0);
+}
+
+interface RecordedStat {
+  statTypeId: number | null;
+  statType: string; // the name it was recorded under
+}
+
+// Stats are grouped by their type's id, so a renamed type keeps its history
+// together; rows from before stats carried an id fall back to their name
+export function getStatKey(stat: RecordedStat): string {
+  return stat.statTypeId != null ? `id:${stat.statTypeId}` : `name:${stat.statType}`;
+}
+
+// The type's current name, or the recorded one if the type has been deleted
+export function getStatName(stat: RecordedStat, statTypes: { id: number; name: string }[]): string {
+  return statTypes.find(statType => statType.id === stat.statTypeId)?.name ?? stat.statType;
+}
+
+interface NamedStatType {
+  id: number;
+  organisationId: number | null;
+  name: string;
+  isActive: boolean | null;
+}
+
+// The type a stat recorded by name means: the club's own before a built-in
+// one of the same name, and a current one before an archived one
+export function findStatTypeByName<T extends NamedStatType>(statTypes: T[], name: string): T | undefined {
+  const rank = (statType: T) => (statType.organisationId != null ? 0 : 2) + (statType.isActive === false ? 1 : 0);
+  return statTypes
+    .filter(statType => statType.name === name)
+    .sort((a, b) => rank(a) - rank(b) || a.id - b.id)[0];
+}
+
+interface TrackingStatType extends OrderedStatType {
+  isActive: boolean | null;
+  isDefault: boolean | null;
+}
+
+// The types a game records, in display order: the ones chosen for it, or the
+// current default types for games set up before stats were chosen per game.
+// Types archived since can't take new stats, so are left out.
+export function getTrackedStatTypes<T extends TrackingStatType>(
+  game: { statTypeIds?: number[] | null },
+  statTypes: T[]
+): T[] {
+  const tracked = game.statTypeIds
+    ? statTypes.filter(statType => game.statTypeIds!.includes(statType.id))
+    : statTypes.filter(statType => statType.isDefault);
+  return tracked.filter(statType => statType.isActive !== false).sort(compareStatTypes);
+}
@@ -0,0 +1,110 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ageOnCutOff, getAgeLimit, getTeamSheetWarnings, validateTeamSheet, type TeamSheetRules } from "./team-sheet";
+
+const gameDate = "2026-03-14";
+
+const rules: TeamSheetRules = {
+  startingPositions: 3,
+  maxBenchSize: 2,
+  ageGroup: "U12",
+  gameDate,
+  requireAllStarters: true
+};
+
+const players = [
+  { id: 1, name: "Ava", dateOfBirth: "2014-01-02" },
+  { id: 2, name: "Ben", dateOfBirth: "2015-06-30" },
+  { id: 3, name: "Cal", dateOfBirth: "2014-01-01" },
+  { id: 4, name: "Dan", dateOfBirth: null }
+];
+
+const messages = (issues: { message: string }[]) => issues.map(issue => issue.message);
+
+describe("ageOnCutOff", () => {
+  it("takes the age on 1 January of the game's year", () => {
+    assert.equal(ageOnCutOff("2014-01-01", gameDate), 12);
+    assert.equal(ageOnCutOff("2014-01-02", gameDate), 11);
+    assert.equal(ageOnCutOff("2013-12-31", gameDate), 12);
+    assert.equal(ageOnCutOff("2014-01-01", "2026-01-01"), 12);
+  });
+});
+
+describe("getAgeLimit", () => {
+  it("reads the limit from the ways age groups are written", () => {
+    assert.equal(getAgeLimit("U12"), 12);
+    assert.equal(getAgeLimit("u-14"), 14);
+    assert.equal(getAgeLimit("Under 16s"), 16);
+    assert.equal(getAgeLimit("Open"), null);
+    assert.equal(getAgeLimit(null), null);
+  });
+});
+
+describe("validateTeamSheet", () => {
+  it("accepts a full sheet of players young enough", () => {
+    const entries = [
+      { playerId: 1, number: 1, position: "Prop" },
+      { playerId: 2, number: 2, position: "Hooker" },
+      { playerId: 4, number: 3, position: "Prop" }
+    ];
+
+    assert.deepEqual(validateTeamSheet(entries, players, rules), []);
+  });
+
+  it("turns away a player who turned the age limit on the cut-off", () => {
+    const issues = validateTeamSheet([
+      { playerId: 1, number: 1, position: "Prop" },
+      { playerId: 3, number: 2, position: "Hooker" }
+    ], players, { ...rules, requireAllStarters: false });
+
+    assert.deepEqual(issues, [{ message: "Cal is too old for U12", playerId: 3 }]);
+  });
+
+  it("leaves ages alone for open-age teams", () => {
+    const issues = validateTeamSheet([{ playerId: 3, number: 1, position: "Prop" }], players, { ...rules, ageGroup: "Open", requireAllStarters: false });
+
+    assert.deepEqual(issues, []);
+  });
+
+  it("reports repeated shirt numbers and players", () => {
+    const issues = validateTeamSheet([
+      { playerId: 1, number: 1, position: "Prop" },
+      { playerId: 2, number: 1, position: "Hooker" },
+      { playerId: 1, number: 3, position: "Prop" }
+    ], players, rules);
+
+    assert.deepEqual(messages(issues), [
+      "Shirt number 1 is used more than once",
+      "Ava is on the team sheet more than once",
+      "Starting position 2 has no player"
+    ]);
+  });
+
+  it("reports invalid numbers and an oversized bench", () => {
+    const issues = validateTeamSheet([
+      { playerId: 1, number: 0, position: "Prop" },
+      { playerId: 2, number: 4, position: "Bench" },
+      { playerId: 3, number: 5, position: "Bench" },
+      { playerId: 4, number: 6, position: "Bench" }
+    ], players, { ...rules, ageGroup: null, requireAllStarters: false });
+
+    assert.deepEqual(messages(issues), [
+      "Shirt number 0 is not valid",
+      "The bench has 4 players; the most allowed is 2"
+    ]);
+  });
+});
+
+describe("getTeamSheetWarnings", () => {
+  it("warns about players whose age can't be checked", () => {
+    const entries = [
+      { playerId: 1, number: 1, position: "Prop" },
+      { playerId: 4, number: 2, position: "Hooker" }
+    ];
+
+    assert.deepEqual(getTeamSheetWarnings(entries, players, rules), [
+      { message: "Dan has no date of birth, so can't be checked for U12", playerId: 4 }
+    ]);
+    assert.deepEqual(getTeamSheetWarnings(entries, players, { ageGroup: "Open" }), []);
+  });
+});
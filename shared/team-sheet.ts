@@ -0,0 +1,132 @@
+// Game-day team sheets. Numbers up to the starting positions start the game;
+// everyone after them is named on the interchange bench. How many start
+// depends on the sport format.
+
+export interface TeamSheetEntry {
+  playerId: number;
+  number: number;
+  position: string;
+}
+
+export interface SheetPlayer {
+  id: number;
+  name: string;
+  dateOfBirth?: Date | string | null;
+}
+
+export interface TeamSheetRules {
+  startingPositions: number;
+  maxBenchSize: number;
+  ageGroup?: string | null;
+  gameDate: Date | string;
+  // A lineup built up one player at a time is checked without this
+  requireAllStarters: boolean;
+}
+
+export interface TeamSheetIssue {
+  message: string;
+  playerId?: number;
+  number?: number;
+}
+
+export function isStartingNumber(number: number, startingPositions: number): boolean {
+  return number >= 1 && number <= startingPositions;
+}
+
+// A bench player named on the sheet who hasn't come on yet; coming on
+// starts a new stint of its own
+export function isBenchNomination(gamePlayer: { isStarter?: boolean | null; startTime?: number | null }): boolean {
+  return !gamePlayer.isStarter && gamePlayer.startTime == null;
+}
+
+// The age limit of an "Under N" team ("U12", "U-12", "Under 12s"), or null
+// for open-age teams
+export function getAgeLimit(ageGroup: string | null | undefined): number | null {
+  const match = ageGroup?.trim().match(/^u(?:nder)?[\s-]*(\d+)/i);
+  return match ? Number(match[1]) : null;
+}
+
+// Age groups run by calendar year: an Under N player must still be under N
+// on 1 January of the year the game is played
+export function ageOnCutOff(dateOfBirth: Date | string, gameDate: Date | string): number {
+  const born = new Date(dateOfBirth);
+  const age = new Date(gameDate).getUTCFullYear() - born.getUTCFullYear();
+  const bornOnCutOff = born.getUTCMonth() === 0 && born.getUTCDate() === 1;
+  return bornOnCutOff ? age : age - 1;
+}
+
+export function validateTeamSheet(
+  entries: TeamSheetEntry[],
+  players: SheetPlayer[],
+  rules: TeamSheetRules
+): TeamSheetIssue[] {
+  const issues: TeamSheetIssue[] = [];
+  const playerName = (playerId: number) => players.find(player => player.id === playerId)?.name ?? `Player #${playerId}`;
+
+  const seenPlayers = new Set<number>();
+  const seenNumbers = new Set<number>();
+
+  for (const entry of entries) {
+    if (!Number.isInteger(entry.number) || entry.number < 1) {
+      issues.push({ message: `Shirt number ${entry.number} is not valid`, number: entry.number });
+    }
+
+    if (seenPlayers.has(entry.playerId)) {
+      issues.push({ message: `${playerName(entry.playerId)} is on the team sheet more than once`, playerId: entry.playerId });
+    }
+    seenPlayers.add(entry.playerId);
+
+    if (seenNumbers.has(entry.number)) {
+      issues.push({ message: `Shirt number ${entry.number} is used more than once`, number: entry.number });
+    }
+    seenNumbers.add(entry.number);
+  }
+
+  if (rules.requireAllStarters) {
+    for (let number = 1; number <= rules.startingPositions; number++) {
+      if (!seenNumbers.has(number)) {
+        issues.push({ message: `Starting position ${number} has no player`, number });
+      }
+    }
+  }
+
+  const benchSize = entries.filter(entry => !isStartingNumber(entry.number, rules.startingPositions)).length;
+  if (benchSize > rules.maxBenchSize) {
+    issues.push({ message: `The bench has ${benchSize} players; the most allowed is ${rules.maxBenchSize}` });
+  }
+
+  const ageLimit = getAgeLimit(rules.ageGroup);
+  if (ageLimit !== null) {
+    for (const playerId of Array.from(seenPlayers)) {
+      const player = players.find(p => p.id === playerId);
+      if (!player) continue;
+
+      // Players with no date of birth are warned about rather than turned away
+      if (player.dateOfBirth && ageOnCutOff(player.dateOfBirth, rules.gameDate) >= ageLimit) {
+        issues.push({ message: `${player.name} is too old for ${rules.ageGroup}`, playerId });
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Things worth a second look that don't stop the sheet being submitted:
+// players on an age-group team whose age can't be checked
+export function getTeamSheetWarnings(
+  entries: TeamSheetEntry[],
+  players: SheetPlayer[],
+  rules: Pick<TeamSheetRules, "ageGroup">
+): TeamSheetIssue[] {
+  if (getAgeLimit(rules.ageGroup) === null) return [];
+
+  const warnings: TeamSheetIssue[] = [];
+  const playerIds = new Set(entries.map(entry => entry.playerId));
+  for (const playerId of Array.from(playerIds)) {
+    const player = players.find(p => p.id === playerId);
+    if (player && !player.dateOfBirth) {
+      warnings.push({ message: `${player.name} has no date of birth, so can't be checked for ${rules.ageGroup}`, playerId });
+    }
+  }
+  return warnings;
+}